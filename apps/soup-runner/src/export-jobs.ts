@@ -8,7 +8,6 @@ import { PrismaClient } from '@prisma/client';
 import fs from 'fs';
 import path from 'path';
 import { log, logError } from '@soup/common';
-import IORedis from 'ioredis';
 
 const prisma = new PrismaClient();
 
@@ -25,16 +24,9 @@ interface JobExportData {
   stepsUsed?: number;
   completedAt?: string;
   qualityGrade?: number;
-}
-
-async function getRedis() {
-  const redis = new IORedis({
-    host: process.env.REDIS_HOST || 'localhost',
-    port: parseInt(process.env.REDIS_PORT || '6379'),
-    db: parseInt(process.env.REDIS_DB || '0'),
-    maxRetriesPerRequest: 3,
-  });
-  return redis;
+  members?: string;
+  feedback?: string;
+  ttcSec?: number;
 }
 
 async function fetchJobsWithStatus(limit?: number): Promise<JobExportData[]> {
@@ -43,48 +35,21 @@ async function fetchJobsWithStatus(limit?: number): Promise<JobExportData[]> {
   const jobs = await prisma.job.findMany({
     ...(limit && { take: limit }),
     orderBy: { createdAt: 'desc' },
+    include: { result: true },
   });
 
   log(`Found ${jobs.length} jobs in database`);
 
-  // Build a map of Redis job results for efficient batch lookup
-  const redisResultsMap = new Map<string, any>();
-
-  let redis: IORedis | null = null;
-  try {
-    redis = await getRedis();
-
-    if (redis) {
-      log('Fetching job results from Redis...');
-      const completedJobs = await redis.zrange('bull:jobs:completed', 0, -1);
-      const failedJobs = await redis.zrange('bull:jobs:failed', 0, -1);
-
-      // Batch fetch all job data
-      const allJobIds = [...completedJobs, ...failedJobs];
-      for (const redisJobId of allJobIds) {
-        try {
-          const [dataRaw, returnRaw] = await redis.hmget(
-            `bull:jobs:${redisJobId}`,
-            'data',
-            'returnvalue'
-          );
-
-          if (dataRaw) {
-            const jobData = JSON.parse(dataRaw);
-            if (jobData.dbJobId && returnRaw) {
-              const returnValue = JSON.parse(returnRaw);
-              redisResultsMap.set(jobData.dbJobId, returnValue);
-            }
-          }
-        } catch (err) {
-          // Skip invalid entries
-        }
-      }
-      log(`Found ${redisResultsMap.size} job results in Redis`);
-    }
-  } catch (error) {
-    logError('Warning: Could not connect to Redis, results will be empty:', error);
-  }
+  // The first payout/fail entry of each job carries its status and grade (newest first, so the
+  // map keeps the earliest)
+  const ledgerEntries = await prisma.ledger.findMany({
+    where: {
+      jobId: { in: jobs.map((job) => job.id) },
+      reason: { in: ['payout', 'fail'] },
+    },
+    orderBy: { ts: 'desc' },
+  });
+  const ledgerByJob = new Map(ledgerEntries.map((entry) => [entry.jobId, entry]));
 
   const exportData: JobExportData[] = [];
 
@@ -96,147 +61,33 @@ async function fetchJobsWithStatus(limit?: number): Promise<JobExportData[]> {
     let stepsUsed: number | undefined;
     let completedAt: string | undefined;
     let qualityGrade: number | undefined;
+    let members: string | undefined;
 
-    // Get agent info and job result from ledger entries
-    const ledgerEntry = await prisma.ledger.findFirst({
-      where: {
-        jobId: job.id,
-        reason: { in: ['payout', 'fail'] },
-      },
-      orderBy: { ts: 'asc' },
-    });
-
+    const ledgerEntry = ledgerByJob.get(job.id);
     if (ledgerEntry) {
       status = ledgerEntry.reason === 'payout' ? 'completed' : 'failed';
       qualityGrade = ledgerEntry.qualityGrade || undefined;
       completedAt = ledgerEntry.ts.toISOString();
-
-      // Handle both individual agents and swarms
-      if (ledgerEntry.agentId) {
-        // Individual agent
-        agentId = ledgerEntry.agentId;
-        const agent = await prisma.agentState.findUnique({
-          where: { id: ledgerEntry.agentId },
-        });
-
-        if (agent) {
-          if (agent.blueprintId) {
-            // Traditional agent with blueprint
-            const blueprint = await prisma.blueprint.findUnique({
-              where: { id: agent.blueprintId },
-            });
-            agentArchetype = blueprint?.archetype;
-          } else {
-            // Swarm member agent with archetype stored directly
-            agentArchetype = agent.archetype || undefined;
-          }
-        }
-      } else if (ledgerEntry.swarmId) {
-        // Swarm-level transaction
-        agentId = ledgerEntry.swarmId;
-        const swarm = await prisma.swarm.findUnique({
-          where: { id: ledgerEntry.swarmId },
-        });
-        agentArchetype = swarm ? 'swarm' : 'unknown';
-      }
+      agentId = ledgerEntry.swarmId ?? ledgerEntry.agentId ?? undefined;
+      agentArchetype = ledgerEntry.swarmId ? 'swarm' : undefined;
     }
 
-    // Get job result from pre-fetched Redis map
-    if (redisResultsMap.has(job.id)) {
-      const returnValue = redisResultsMap.get(job.id);
-      if (returnValue) {
-        // Handle nested artifact structures (common in tool-builder and swarm results)
-        let artifactToProcess = returnValue.artifact;
-
-        // If artifact itself is an object with an artifact property, use the nested one
-        if (
-          artifactToProcess &&
-          typeof artifactToProcess === 'object' &&
-          artifactToProcess.artifact
-        ) {
-          artifactToProcess = artifactToProcess.artifact;
-        }
-
-        // Handle different result formats
-        if (typeof artifactToProcess === 'string') {
-          try {
-            // Try to parse if it's a JSON string
-            const parsed = JSON.parse(artifactToProcess);
-            if (parsed.answer) {
-              result = parsed.answer;
-            } else {
-              result = artifactToProcess;
-            }
-          } catch {
-            result = artifactToProcess;
-          }
-        } else if (artifactToProcess && typeof artifactToProcess === 'object') {
-          if (artifactToProcess.answer) {
-            result = artifactToProcess.answer;
-          } else {
-            result = JSON.stringify(artifactToProcess);
-          }
-        } else if (returnValue.answer) {
-          // Direct answer format
-          result =
-            typeof returnValue.answer === 'string'
-              ? returnValue.answer
-              : JSON.stringify(returnValue.answer);
-        } else {
-          result = 'No result';
-        }
-
-        // Clean up excessive whitespace to prevent massive CSV files
-        if (result) {
-          const originalLength = result.length;
-
-          // First handle excessive spaces within lines
-          result = result.replace(/ {100,}/g, ' '); // Replace 100+ spaces with single space
-
-          // Then handle line-level whitespace
-          const hasParaBreaks = result.includes('\n\n');
-          result = result
-            .split('\n')
-            .map((line) => line.trim()) // Trim whitespace from each line
-            .filter((line) => line.length > 0 || hasParaBreaks) // Keep empty lines only if there are paragraph breaks
-            .join('\n')
-            .replace(/\n{3,}/g, '\n\n') // Replace 3+ newlines with just 2
-            .trim(); // Remove leading/trailing whitespace
-
-          // Log if we removed significant whitespace
-          if (originalLength > 100000 && result.length < originalLength / 2) {
-            logError(
-              `[Export] Cleaned result whitespace: ${originalLength} -> ${result.length} chars for job ${job.id}`
-            );
-          }
-
-          // Only truncate if still too large after cleanup
-          if (result.length > 100000) {
-            result = result.substring(0, 100000) + '\n... [truncated due to size]';
-          }
-        }
-
-        // Get stepsUsed from nested or top level
-        stepsUsed =
-          (returnValue.artifact && returnValue.artifact.stepsUsed) || returnValue.stepsUsed || 0;
-
-        // Include tool usage info if available
-        const toolsUsed =
-          (returnValue.artifact && returnValue.artifact.toolsUsed) || returnValue.toolsUsed;
-        const selectedTool =
-          (returnValue.artifact && returnValue.artifact.selectedTool) || returnValue.selectedTool;
-        const newToolsCreated =
-          (returnValue.artifact && returnValue.artifact.newToolsCreated) ||
-          returnValue.newToolsCreated;
-
-        if (toolsUsed || selectedTool) {
-          const toolInfo = [];
-          if (selectedTool) toolInfo.push(`Tool: ${selectedTool}`);
-          if (newToolsCreated) toolInfo.push('New tool created');
-          if (toolInfo.length > 0) {
-            result = `${result} [${toolInfo.join(', ')}]`;
-          }
-        }
+    const stored = job.result;
+    if (stored) {
+      stepsUsed = stored.stepsUsed;
+      completedAt ??= stored.completedAt.toISOString();
+      agentId ??= stored.swarmId ?? undefined;
+      members = (JSON.parse(stored.members) as { name: string; archetype: string }[])
+        .map((m) => `${m.name} (${m.archetype})`)
+        .join('; ');
+
+      // Artifacts are whitespace-cleaned and truncated by the worker
+      result = stored.artifact;
+      if (stored.selectedTool || stored.newToolsCreated) {
+        const toolInfo = [];
+        if (stored.selectedTool) toolInfo.push(`Tool: ${stored.selectedTool}`);
+        if (stored.newToolsCreated) toolInfo.push('New tool created');
+        result = `${result} [${toolInfo.join(', ')}]`;
       }
     }
 
@@ -253,13 +104,12 @@ async function fetchJobsWithStatus(limit?: number): Promise<JobExportData[]> {
       stepsUsed,
       completedAt,
       qualityGrade,
+      members,
+      feedback: stored?.feedback ?? undefined,
+      ttcSec: stored?.ttcSec,
     });
   }
 
-  if (redis) {
-    await redis.disconnect();
-  }
-
   return exportData;
 }
 
@@ -277,6 +127,9 @@ function formatCSV(data: JobExportData[]): string {
     'Steps Used',
     'Completed At',
     'Quality Grade',
+    'Members',
+    'Grader Feedback',
+    'TTC (s)',
   ];
 
   const csvRows = [
@@ -295,6 +148,9 @@ function formatCSV(data: JobExportData[]): string {
         job.stepsUsed?.toString() || '',
         job.completedAt ? `"${job.completedAt}"` : '',
         job.qualityGrade?.toString() || '',
+        job.members ? `"${job.members.replace(/"/g, '""')}"` : '',
+        job.feedback ? `"${job.feedback.replace(/"/g, '""')}"` : '',
+        job.ttcSec?.toString() || '',
       ].join(',')
     ),
   ];
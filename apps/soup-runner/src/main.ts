@@ -2,7 +2,57 @@ import Fastify from 'fastify';
 import { Queue, Worker } from 'bullmq';
 import IORedis from 'ioredis';
 // Prisma is imported dynamically to avoid requiring a generated client in bootstrap mode
-import { gini, topKShare, loadRunnerConfig, log, logError } from '@soup/common';
+import {
+  gini,
+  topKShare,
+  loadRunnerConfig,
+  log,
+  logError,
+  createSelectionStrategy,
+  computeBid,
+  clearAuction,
+  decayReputation,
+  updateReputation,
+  reputationPayoutMultiplier,
+  NEUTRAL_REPUTATION,
+  DeadlineExceededError,
+  hardCancelMs,
+  latePayoutMultiplier,
+  pickCategory,
+  JOB_CATEGORIES,
+  applyShocks,
+  clampDifficulty,
+  curriculumStats,
+  nextDifficulty,
+  createSwarmGenomeSchema,
+  defaultGenome,
+  randomGenome,
+  normalizeGenome,
+  mutateGenome,
+  crossoverGenomes,
+  expressGenome,
+  seededRandom,
+  defaultRubric,
+} from '@soup/common';
+import type {
+  SelectionCandidate,
+  Genome,
+  Bid,
+  BidderProfile,
+  JobOutcome,
+  ReputationParams,
+  DeadlineParams,
+  CurriculumParams,
+  CurriculumStats,
+  CurriculumDecision,
+  JobCategory,
+  JudgeGrade,
+  PanelVerdict,
+  CalibrationCase,
+  DriftReport,
+  Rubric,
+  Random,
+} from '@soup/common';
 import fs from 'fs-extra';
 import path from 'path';
 
@@ -13,13 +63,25 @@ const cfg = loadRunnerConfig();
 import {
   createAgentForBlueprint,
   jobGenerator,
-  llmGrader,
+  gradingPanel,
+  loadCalibrationSet,
   createSwarmAgent,
   ToolBuilderAgent,
+  dynamicToolLoader,
+  MetabolismMeter,
+  suiteRegistry,
+  runChecker,
+  tokenBudget,
+  configureLLMResilience,
+  llmCircuitBreakers,
+  getStructuredOutputStats,
 } from '@soup/agents';
 import { NameGenerator } from '@soup/agents';
 import { ModelPreloader } from '@soup/agents';
-import type { SwarmConfig } from '@soup/agents';
+import { lineageService } from '@soup/agents';
+import { JobTracer, withSpan } from '@soup/agents';
+import type { SwarmConfig, LineageNode, SuiteTaskRef, MemberRun } from '@soup/agents';
+import { recordJobMetrics, startTelemetry } from './telemetry';
 const BOOTSTRAP = cfg.SOUP_BOOTSTRAP;
 
 // Initialize name generator
@@ -44,10 +106,90 @@ let prisma: any;
 const JOBS_PER_MIN = cfg.JOBS_PER_MIN;
 const EPOCH_MINUTES = cfg.EPOCH_MINUTES;
 const FAIL_PENALTY = cfg.FAIL_PENALTY;
+const SWARM_START_BALANCE = 1000;
+const UNASSIGNED_REAUCTION_LIMIT = 50; // Unawarded jobs re-auctioned per generation tick
 
-const RUN_DIR = path.join(process.cwd(), 'runs', String(Date.now()));
+const RUN_STARTED_AT = Date.now(); // Clock for scheduled curriculum shocks
+const RUN_DIR = path.join(process.cwd(), 'runs', String(RUN_STARTED_AT));
 const METRICS_DIR = path.join(RUN_DIR, 'metrics');
+const POPULATION_CSV = path.join(METRICS_DIR, 'population.csv');
+const CURRICULUM_CSV = path.join(METRICS_DIR, 'curriculum.csv');
+const TRACES_DIR = path.join(RUN_DIR, 'traces'); // One span tree per job (see /trace/:jobId)
 fs.ensureDirSync(METRICS_DIR);
+fs.ensureDirSync(TRACES_DIR);
+
+// OpenTelemetry export (see docs/opentelemetry.md); file output lands in the run directory
+startTelemetry({
+  exporter: cfg.TELEMETRY_EXPORTER,
+  serviceName: cfg.TELEMETRY_SERVICE_NAME,
+  dir: path.join(RUN_DIR, 'otel'),
+  metricIntervalMs: cfg.TELEMETRY_METRICS_INTERVAL_S * 1000,
+  attributes: { 'soup.run': RUN_STARTED_AT },
+});
+
+const SUITES_DIR = cfg.JOB_SUITES_DIR || path.join(process.cwd(), '../../suites');
+
+gradingPanel.configure({
+  aggregation: cfg.GRADING_PANEL_AGGREGATION,
+  trimFraction: cfg.GRADING_PANEL_TRIM,
+  disagreementThreshold: cfg.GRADING_PANEL_DISAGREEMENT,
+});
+const GRADER_CALIBRATION_FILE =
+  cfg.GRADER_CALIBRATION_FILE ||
+  path.join(process.cwd(), '../../suites/calibration/grader-calibration.yaml');
+const GRADER_CALIBRATION_CSV = path.join(METRICS_DIR, 'grader-calibration.csv');
+
+// Hourly token budgets per pool, overall and per swarm (see docs/token-budgets.md)
+tokenBudget.configure({
+  hosted: { perHour: cfg.LLM_MAX_TOKENS_PER_HOUR, perAgent: cfg.LLM_MAX_TOKENS_PER_AGENT },
+  local: {
+    perHour: cfg.LOCAL_LLM_MAX_TOKENS_PER_HOUR,
+    perAgent: cfg.LOCAL_LLM_MAX_TOKENS_PER_AGENT,
+  },
+});
+
+// Retries, backoff and circuit breakers for LLM provider chains (see docs/llm-fallback.md)
+configureLLMResilience({
+  retry: {
+    retries: cfg.LLM_RETRY_ATTEMPTS,
+    baseDelayMs: cfg.LLM_RETRY_BASE_MS,
+    maxDelayMs: cfg.LLM_RETRY_MAX_MS,
+  },
+  breaker: {
+    failureThreshold: cfg.LLM_BREAKER_FAILURES,
+    timeoutThreshold: cfg.LLM_BREAKER_TIMEOUTS,
+    cooldownMs: cfg.LLM_BREAKER_COOLDOWN_S * 1000,
+  },
+});
+
+jobGenerator.configureDeduplication({
+  threshold: cfg.JOB_DEDUP_THRESHOLD,
+  lexicalThreshold: cfg.JOB_DEDUP_LEXICAL_THRESHOLD,
+  window: cfg.JOB_DEDUP_WINDOW,
+  maxRerolls: cfg.JOB_DEDUP_MAX_REROLLS,
+});
+
+// LLM cassette: recordings land in the run directory; replays copy the source cassette there
+const RUN_CASSETTE_FILE = path.join(RUN_DIR, 'llm-cassette.jsonl');
+if (cfg.LLM_CASSETTE === 'record' && !cfg.LLM_CASSETTE_FILE) {
+  process.env.LLM_CASSETTE_FILE = RUN_CASSETTE_FILE;
+} else if (cfg.LLM_CASSETTE === 'replay') {
+  if (!cfg.LLM_CASSETTE_FILE || !fs.existsSync(cfg.LLM_CASSETTE_FILE)) {
+    throw new Error(
+      'LLM_CASSETTE=replay requires LLM_CASSETTE_FILE pointing at a recorded cassette'
+    );
+  }
+  fs.copySync(cfg.LLM_CASSETTE_FILE, RUN_CASSETTE_FILE);
+  log(`[System] Replaying LLM responses from ${cfg.LLM_CASSETTE_FILE}`);
+}
+
+// Mutation, crossover, selection, bids and job picks. Cassette runs are seeded (EVOLUTION_SEED,
+// default 42) so a replay evolves the same genomes and sends the same prompts as its recording.
+const CASSETTE_RUN = cfg.LLM_CASSETTE === 'record' || cfg.LLM_CASSETTE === 'replay';
+const EVOLUTION_SEED = cfg.EVOLUTION_SEED ?? (CASSETTE_RUN ? 42 : undefined);
+const evolutionRandom: Random =
+  EVOLUTION_SEED === undefined ? Math.random : seededRandom(EVOLUTION_SEED);
+if (EVOLUTION_SEED !== undefined) log(`[System] Evolution seeded with ${EVOLUTION_SEED}`);
 
 // Debug logging functionality removed - using console.log directly
 
@@ -63,9 +205,11 @@ let systemState: {
 };
 
 // Workers and intervals to control
-let jobWorkers: Worker[] = [];
+const swarmWorkers = new Map<string, Worker>(); // swarmId -> BullMQ worker
+const swarmQueues = new Map<string, Queue>(); // swarmId -> awarded jobs (auction mode)
 let jobGeneratorInterval: ReturnType<typeof setInterval> | null = null;
 let metricsInterval: ReturnType<typeof setInterval> | null = null;
+let calibrationInterval: ReturnType<typeof setInterval> | null = null;
 
 // System control endpoints
 app.post('/api/system/start', async (_request, _reply) => {
@@ -126,11 +270,16 @@ app.post('/api/system/reset', async (_request, _reply) => {
     // Reset database (clear agents, jobs, ledger, swarms)
     if (!BOOTSTRAP && prisma) {
       log('[System] Resetting database...');
+      await prisma.grade.deleteMany({});
+      await prisma.jobResult.deleteMany({});
       await prisma.ledger.deleteMany({});
       await prisma.agentState.deleteMany({});
       await prisma.swarm.deleteMany({});
       await prisma.job.deleteMany({});
       await prisma.blueprint.deleteMany({});
+      await prisma.lineage.deleteMany({});
+      await prisma.bid.deleteMany({});
+      await prisma.reputationEvent.deleteMany({});
       log('[System] Database reset complete');
 
       // Preload models before reseeding (name generation needs LLM)
@@ -167,7 +316,7 @@ app.get('/api/system/status', async (_request, _reply) => {
     status: systemState,
     uptime: systemState.startedAt ? Date.now() - systemState.startedAt.getTime() : 0,
     processes: {
-      jobWorkers: jobWorkers.length,
+      jobWorkers: swarmWorkers.size,
       jobGeneratorActive: jobGeneratorInterval !== null,
       metricsActive: metricsInterval !== null,
     },
@@ -194,6 +343,15 @@ async function startSystemProcesses() {
       metricsInterval = setInterval(() => epochTick().catch(console.error), EPOCH_MINUTES * 60_000);
     }
 
+    // Start grader calibration interval
+    if (!calibrationInterval && cfg.GRADER_CALIBRATION_MINUTES > 0) {
+      calibrationInterval = setInterval(
+        () => calibrateGraders().catch(console.error),
+        cfg.GRADER_CALIBRATION_MINUTES * 60_000
+      );
+      calibrateGraders().catch(console.error); // Baseline for drift detection
+    }
+
     log('[System] All processes started successfully');
   } catch (error) {
     logError('[System] Error in startSystemProcesses:', error);
@@ -214,15 +372,16 @@ async function stopSystemProcesses() {
     metricsInterval = null;
   }
 
+  // Stop grader calibration
+  if (calibrationInterval) {
+    clearInterval(calibrationInterval);
+    calibrationInterval = null;
+  }
+
   // Close all workers
-  for (const worker of jobWorkers) {
-    try {
-      await worker.close();
-    } catch (error) {
-      logError('[System] Error closing worker:', error);
-    }
+  for (const swarmId of Array.from(swarmWorkers.keys())) {
+    await stopSwarmWorker(swarmId);
   }
-  jobWorkers = [];
 
   log('[System] All system processes stopped');
 }
@@ -235,6 +394,13 @@ async function preloadOllamaModels() {
       return;
     }
 
+    // The mock provider runs fully offline, and OpenAI-compatible servers load their own
+    // model - there is nothing to preload
+    if (cfg.LLM_PROVIDER === 'mock' || cfg.LLM_PROVIDER === 'openai') {
+      log(`[System] Skipping model preloading for ${cfg.LLM_PROVIDER} LLM provider`);
+      return;
+    }
+
     // Get the Ollama URL from config
     const ollamaUrl = cfg.OLLAMA_URL;
 
@@ -445,6 +611,7 @@ app.get('/leaderboard', async () => {
       wins: x.wins,
       attempts: x.attempts,
       reputation: x.reputation,
+      failStreak: x.failStreak,
       meanTtcSec: x.meanTtcSec,
     }))
     .sort((a: any, b: any) => b.balance - a.balance)
@@ -637,6 +804,7 @@ app.get('/dashboard', async (request, reply) => {
                 <button class="refresh-btn" onclick="refreshAll()">Refresh All</button>
                 <a href="/responses" class="refresh-btn" style="text-decoration: none; display: inline-block; margin-left: 0.5rem;">📊 Job Responses</a>
                 <a href="/tools" class="refresh-btn" style="text-decoration: none; display: inline-block; margin-left: 0.5rem;">🛠️ Tools</a>
+                <a href="/lineage" class="refresh-btn" style="text-decoration: none; display: inline-block; margin-left: 0.5rem;">🧬 Lineage</a>
             </div>
         </div>
     </div>
@@ -1206,6 +1374,21 @@ app.get('/responses', async (request, reply) => {
     </div>
 
     <div class="responses-container">
+        <div class="table-container" style="margin-bottom: 1.5rem;">
+            <h3 style="padding: 1rem 1rem 0;">Quality by Criterion</h3>
+            <div class="info-text" style="padding: 0 1rem;">
+                Mean rubric score (0-100) per archetype; a swarm's grades count toward each archetype among its agents
+            </div>
+            <div class="table-wrapper">
+                <table id="breakdown-table">
+                    <thead id="breakdown-thead"></thead>
+                    <tbody id="breakdown-tbody">
+                        <tr><td style="text-align: center; padding: 1rem; color: #666;">Loading...</td></tr>
+                    </tbody>
+                </table>
+            </div>
+        </div>
+
         <div class="controls">
             <button class="refresh-btn" onclick="loadResponsesData()">🔄 Refresh Data</button>
             <div class="info-text">
@@ -1229,6 +1412,7 @@ app.get('/responses', async (request, reply) => {
                             <th>Swarm Name</th>
                             <th>Swarm Composition</th>
                             <th>Agent Count</th>
+                            <th>Criteria</th>
                             <th>Error</th>
                             <th>Error Description</th>
                         </tr>
@@ -1258,6 +1442,7 @@ app.get('/responses', async (request, reply) => {
 
                 responsesData = data.rows || [];
                 renderResponsesTable();
+                loadQualityBreakdown();
 
                 document.getElementById('loading').style.display = 'none';
                 document.getElementById('responses-table').style.display = 'block';
@@ -1276,7 +1461,7 @@ app.get('/responses', async (request, reply) => {
             if (responsesData.length === 0) {
                 const row = tbody.insertRow();
                 const cell = row.insertCell(0);
-                cell.colSpan = 10;
+                cell.colSpan = 11;
                 cell.textContent = 'No job responses found';
                 cell.style.textAlign = 'center';
                 cell.style.padding = '2rem';
@@ -1289,7 +1474,11 @@ app.get('/responses', async (request, reply) => {
 
                 // Job ID
                 const jobIdCell = row.insertCell();
-                jobIdCell.textContent = job.jobId;
+                const traceLink = document.createElement('a');
+                traceLink.href = job.traceUrl;
+                traceLink.textContent = job.jobId;
+                traceLink.title = 'View execution trace';
+                jobIdCell.appendChild(traceLink);
 
                 // Status
                 const statusCell = row.insertCell();
@@ -1320,6 +1509,13 @@ app.get('/responses', async (request, reply) => {
                 const agentCountCell = row.insertCell();
                 agentCountCell.textContent = job.agentCount || '0';
 
+                // Criteria
+                const criteriaCell = row.insertCell();
+                const criteria = Object.entries(job.criteria || {});
+                criteriaCell.textContent = criteria.length
+                    ? criteria.map(([name, score]) => name + ': ' + score).join(', ')
+                    : '-';
+
                 // Error
                 const errorCell = row.insertCell();
                 errorCell.textContent = job.error || '-';
@@ -1334,6 +1530,37 @@ app.get('/responses', async (request, reply) => {
             });
         }
 
+        async function loadQualityBreakdown() {
+            const thead = document.getElementById('breakdown-thead');
+            const tbody = document.getElementById('breakdown-tbody');
+            try {
+                const data = await (await fetch('/api/metrics/quality-breakdown')).json();
+                const criteria = data.criteria || [];
+                if (!criteria.length) {
+                    thead.innerHTML = '';
+                    tbody.innerHTML = '<tr><td style="text-align: center; padding: 1rem; color: #666;">No rubric grades yet</td></tr>';
+                    return;
+                }
+
+                thead.innerHTML = '<tr><th>Archetype</th>' +
+                    criteria.map(c => '<th>' + c + '</th>').join('') + '</tr>';
+                tbody.innerHTML = '';
+                data.byArchetype.forEach(group => {
+                    const row = tbody.insertRow();
+                    row.insertCell().textContent = group.archetype;
+                    criteria.forEach(c => {
+                        const cell = group.scores[c];
+                        row.insertCell().textContent = cell
+                            ? cell.mean.toFixed(1) + ' (n=' + cell.n + ')'
+                            : '-';
+                    });
+                });
+            } catch (error) {
+                console.error('Failed to load quality breakdown:', error);
+                tbody.innerHTML = '<tr><td>Failed to load quality breakdown</td></tr>';
+            }
+        }
+
         // Load data on page load
         loadResponsesData();
 
@@ -1346,6 +1573,234 @@ app.get('/responses', async (request, reply) => {
 });
 
 // Tools page route
+app.get('/lineage', async (request, reply) => {
+  reply.type('text/html');
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Lineage - Agentic Soup</title>
+    <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background: #f5f5f5; }
+
+        .header {
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            color: white;
+            padding: 2rem;
+            text-align: center;
+        }
+
+        .nav-links {
+            background: #fff;
+            padding: 1rem;
+            text-align: center;
+            box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+        }
+
+        .nav-links a {
+            color: #4299e1;
+            text-decoration: none;
+            margin: 0 1rem;
+            padding: 0.5rem 1rem;
+            border-radius: 4px;
+            transition: background-color 0.2s;
+        }
+
+        .nav-links a:hover {
+            background-color: #e6f3ff;
+        }
+
+        .container {
+            max-width: 95%;
+            margin: 2rem auto;
+            padding: 0 1rem;
+        }
+
+        .controls, .tree-panel {
+            background: white;
+            padding: 1rem;
+            margin-bottom: 1rem;
+            border-radius: 8px;
+            box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+        }
+
+        .controls { text-align: center; }
+
+        .controls select, .controls input {
+            padding: 0.5rem;
+            border: 1px solid #cbd5e0;
+            border-radius: 4px;
+            min-width: 320px;
+        }
+
+        .refresh-btn {
+            background: #4299e1;
+            color: white;
+            border: none;
+            padding: 0.5rem 1rem;
+            border-radius: 4px;
+            cursor: pointer;
+            font-size: 0.9rem;
+        }
+
+        .refresh-btn:hover {
+            background: #3182ce;
+        }
+
+        .tree-panel h2 {
+            font-size: 1.1rem;
+            margin-bottom: 0.75rem;
+            color: #4a5568;
+        }
+
+        ul.tree { list-style: none; padding-left: 1.25rem; border-left: 2px solid #e2e8f0; }
+        ul.tree.root { border-left: none; padding-left: 0; }
+        ul.tree li { margin: 0.5rem 0; }
+
+        .node {
+            display: inline-block;
+            padding: 0.4rem 0.75rem;
+            border-radius: 6px;
+            background: #edf2f7;
+            font-size: 0.9rem;
+        }
+
+        .node.alive { background: #c6f6d5; }
+        .node.dead { background: #fed7d7; }
+        .node.focus { outline: 2px solid #667eea; }
+
+        .mutation {
+            display: block;
+            font-size: 0.8rem;
+            color: #4a5568;
+            margin-top: 0.2rem;
+            font-family: monospace;
+            white-space: pre-wrap;
+        }
+
+        .empty, .loading { color: #666; font-size: 0.9rem; }
+
+        .error-message {
+            background: #fed7d7;
+            color: #742a2a;
+            padding: 1rem;
+            border-radius: 4px;
+            margin: 1rem 0;
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1>🧬 Lineage</h1>
+        <p>Ancestors and descendants of swarms and generated tools</p>
+    </div>
+
+    <div class="nav-links">
+        <a href="/dashboard">← Back to Dashboard</a>
+        <a href="/tools">Tools</a>
+        <a href="/leaderboard">Leaderboard</a>
+    </div>
+
+    <div class="container">
+        <div class="controls">
+            <select id="swarm-select" onchange="loadLineage(this.value)"></select>
+            <input id="entity-id" placeholder="...or any swarm / tool id" />
+            <button class="refresh-btn" onclick="loadLineage(document.getElementById('entity-id').value)">Show Lineage</button>
+        </div>
+
+        <div id="error-message" class="error-message" style="display: none;"></div>
+
+        <div class="tree-panel">
+            <h2>Ancestors</h2>
+            <div id="ancestors" class="empty">Select an entity</div>
+        </div>
+
+        <div class="tree-panel">
+            <h2>Selected</h2>
+            <div id="selected" class="empty">Select an entity</div>
+        </div>
+
+        <div class="tree-panel">
+            <h2>Descendants</h2>
+            <div id="descendants" class="empty">Select an entity</div>
+        </div>
+    </div>
+
+    <script>
+        let swarmDetails = {};
+
+        function escapeHtml(value) {
+            return String(value)
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;');
+        }
+
+        function renderNode(node, focus) {
+            const swarm = swarmDetails[node.id];
+            const state = swarm ? (swarm.alive ? 'alive' : 'dead') : '';
+            const label = swarm
+                ? escapeHtml(swarm.name) + ' · gen ' + swarm.generation + ' · balance ' + swarm.balance +
+                  ' · ' + swarm.wins + '/' + swarm.attempts + ' wins' + (swarm.alive ? '' : ' · ☠')
+                : escapeHtml(node.id);
+            const mutation = node.mutation
+                ? '<span class="mutation">' + escapeHtml(JSON.stringify(node.mutation)) + '</span>'
+                : '';
+            return '<span class="node ' + state + (focus ? ' focus' : '') + '" title="' +
+                escapeHtml(node.id) + '">' + (node.entityType === 'tool' ? '🛠️ ' : '') + label +
+                mutation + '</span>';
+        }
+
+        function renderTree(nodes, key, root) {
+            if (!nodes || nodes.length === 0) return '';
+            return '<ul class="tree' + (root ? ' root' : '') + '">' + nodes.map((node) =>
+                '<li>' + renderNode(node) + renderTree(node[key], key, false) + '</li>'
+            ).join('') + '</ul>';
+        }
+
+        async function loadSwarms() {
+            const response = await fetch('/api/swarms');
+            const swarms = await response.json();
+            const select = document.getElementById('swarm-select');
+            select.innerHTML = '<option value="">Select a swarm...</option>' + swarms.map((swarm) =>
+                '<option value="' + swarm.id + '">' + escapeHtml(swarm.name) + ' (' +
+                (swarm.alive ? 'alive' : 'dead') + ', balance ' + swarm.balance + ')</option>'
+            ).join('');
+        }
+
+        async function loadLineage(id) {
+            const errorMessage = document.getElementById('error-message');
+            errorMessage.style.display = 'none';
+            if (!id) return;
+
+            try {
+                const response = await fetch('/api/lineage/' + encodeURIComponent(id));
+                const data = await response.json();
+                if (data.error) throw new Error(data.error);
+
+                swarmDetails = data.swarms || {};
+                document.getElementById('ancestors').innerHTML =
+                    renderTree(data.ancestors, 'parents', true) || 'No recorded ancestors (seed or first version)';
+                document.getElementById('selected').innerHTML = renderNode(data, true);
+                document.getElementById('descendants').innerHTML =
+                    renderTree(data.descendants, 'children', true) || 'No descendants yet';
+            } catch (error) {
+                errorMessage.textContent = 'Error loading lineage: ' + error.message;
+                errorMessage.style.display = 'block';
+            }
+        }
+
+        const initialId = new URLSearchParams(window.location.search).get('id');
+        loadSwarms().then(() => initialId && loadLineage(initialId));
+    </script>
+</body>
+</html>
+`;
+});
+
 app.get('/tools', async (request, reply) => {
   reply.type('text/html');
   return `
@@ -1733,60 +2188,353 @@ app.get('/api/metrics/throughput', async () => {
   }));
 });
 
-app.get('/api/metrics/centrality', async () => {
-  if (BOOTSTRAP) return [];
+app.get('/api/curriculum', async () => {
+  if (BOOTSTRAP) return {};
 
-  // Simple centrality calculation based on interactions
-  const edges = await prisma.edge.findMany({
-    where: { ts: { gte: new Date(Date.now() - 86400000) } }, // last 24 hours
-  });
+  const elapsedHours = (Date.now() - RUN_STARTED_AT) / 3_600_000;
+  const distribution = currentJobDistribution();
+  return {
+    enabled: cfg.CURRICULUM_ENABLED,
+    difficulty: curriculum.difficulty,
+    effectiveDifficulty: distribution.difficulty,
+    decision: curriculum.decision,
+    stats: curriculum.stats,
+    params: curriculumParams,
+    mix: distribution.mix,
+    payoutMultiplier: distribution.payoutMultiplier,
+    elapsedHours,
+    shocks: cfg.CURRICULUM_SHOCKS.map((shock) => ({
+      ...shock,
+      active: curriculum.activeShocks.includes(shock.name ?? `shock@${shock.atHours}h`),
+    })),
+  };
+});
 
-  const nodeDegrees: Record<string, number> = {};
-  const nodeConnections: Record<string, Set<string>> = {};
+// Per-batch diversity of generated jobs (near-duplicates rejected, re-rolls, similarity)
+app.get('/api/metrics/job-diversity', async () => {
+  const batches = jobGenerator.getDiversityStats();
+  const totals = batches.reduce(
+    (acc, b) => ({
+      generated: acc.generated + b.generated,
+      accepted: acc.accepted + b.accepted,
+      rejected: acc.rejected + b.rejected,
+      rerolls: acc.rerolls + b.rerolls,
+    }),
+    { generated: 0, accepted: 0, rejected: 0, rerolls: 0 }
+  );
+  return {
+    ...totals,
+    rejectionRate: totals.generated ? totals.rejected / totals.generated : 0,
+    batches,
+  };
+});
 
-  edges.forEach((edge: any) => {
-    nodeDegrees[edge.fromId] = (nodeDegrees[edge.fromId] || 0) + 1;
-    nodeDegrees[edge.toId] = (nodeDegrees[edge.toId] || 0) + 1;
+// Structured LLM output per component: first-try successes, repairs, failures and reply
+// rejection rate (parse errors plus schema violations)
+app.get('/api/metrics/structured-output', async () => {
+  const components = getStructuredOutputStats();
+  const replies = Object.values(components).reduce((sum, c) => sum + c.replies, 0);
+  const rejected = Object.values(components).reduce(
+    (sum, c) => sum + c.parseFailures + c.schemaFailures,
+    0
+  );
+  return { replies, failureRate: replies ? rejected / replies : 0, components };
+});
 
-    if (!nodeConnections[edge.fromId]) nodeConnections[edge.fromId] = new Set();
-    if (!nodeConnections[edge.toId]) nodeConnections[edge.toId] = new Set();
+// Grading panel agreement: per-judge pass rates and scores, agreement with the panel verdict,
+// flagged grades and the latest calibration run
+app.get('/api/metrics/grading', async () => {
+  if (BOOTSTRAP) return {};
 
-    nodeConnections[edge.fromId].add(edge.toId);
-    nodeConnections[edge.toId].add(edge.fromId);
+  const rows = await prisma.ledger.findMany({
+    where: { judgeScores: { not: null } },
+    orderBy: { ts: 'desc' },
+    take: 500,
+    select: { judgeScores: true, gradeSpread: true, gradeFlagged: true },
   });
 
-  return Object.entries(nodeDegrees)
-    .slice(0, 20)
-    .map(([nodeId, degree]) => ({
-      nodeId,
-      degree,
-      betweenness: degree / Object.keys(nodeDegrees).length, // Simplified
-      closeness: nodeConnections[nodeId]?.size || 0 / Object.keys(nodeDegrees).length,
-    }));
+  const judges = new Map<
+    string,
+    { model: string; grades: number; passes: number; scoreSum: number; agreements: number }
+  >();
+  let agreementSum = 0;
+  for (const row of rows) {
+    const grades = (JSON.parse(row.judgeScores) as any[]).filter((g) => !g.error);
+    const passVotes = grades.filter((g) => g.passed).length;
+    const verdict = passVotes * 2 > grades.length;
+    const agreeing = grades.filter((g) => g.passed === verdict).length;
+    agreementSum += grades.length ? agreeing / grades.length : 0;
+
+    for (const g of grades) {
+      const stats = judges.get(g.judge) ?? {
+        model: g.model,
+        grades: 0,
+        passes: 0,
+        scoreSum: 0,
+        agreements: 0,
+      };
+      stats.grades++;
+      if (g.passed) {
+        stats.passes++;
+        stats.scoreSum += g.score ?? 0;
+      }
+      if (g.passed === verdict) stats.agreements++;
+      judges.set(g.judge, stats);
+    }
+  }
+
+  const flagged = rows.filter((r: any) => r.gradeFlagged).length;
+  return {
+    graded: rows.length,
+    flagged,
+    flaggedRate: rows.length ? flagged / rows.length : 0,
+    meanSpread: rows.length
+      ? rows.reduce((sum: number, r: any) => sum + (r.gradeSpread ?? 0), 0) / rows.length
+      : null,
+    meanAgreement: rows.length ? agreementSum / rows.length : null,
+    judges: [...judges.entries()].map(([judge, stats]) => ({
+      judge,
+      model: stats.model,
+      grades: stats.grades,
+      passRate: stats.grades ? stats.passes / stats.grades : 0,
+      meanScore: stats.passes ? stats.scoreSum / stats.passes : null,
+      agreementWithPanel: stats.grades ? stats.agreements / stats.grades : 0,
+    })),
+    params: {
+      aggregation: cfg.GRADING_PANEL_AGGREGATION,
+      trimFraction: cfg.GRADING_PANEL_TRIM,
+      disagreementThreshold: cfg.GRADING_PANEL_DISAGREEMENT,
+    },
+    calibration: latestCalibration,
+  };
 });
 
-app.get('/api/agents', async () => {
+// Grades the judges disagreed on, newest first, for manual review
+app.get('/api/grading/flagged', async () => {
   if (BOOTSTRAP) return [];
 
-  const agents = await prisma.agentState.findMany({
-    orderBy: { balance: 'desc' },
+  const rows = await prisma.ledger.findMany({
+    where: { gradeFlagged: true },
+    orderBy: { ts: 'desc' },
+    take: 50,
   });
+  return rows.map((row: any) => ({
+    ledgerId: row.id,
+    jobId: row.jobId,
+    swarmId: row.swarmId,
+    reason: row.reason,
+    qualityGrade: row.qualityGrade,
+    panelScore: row.panelScore,
+    spread: row.gradeSpread,
+    judges: JSON.parse(row.judgeScores ?? '[]'),
+    ts: row.ts,
+  }));
+});
 
-  const blueprints = await prisma.blueprint.findMany();
-  const blueprintMap = new Map(blueprints.map((bp: any) => [bp.id, bp]));
+// Mean rubric criterion scores per archetype and category. A swarm's grade counts toward every
+// archetype among its agents, since the swarm answers as a whole.
+app.get('/api/metrics/quality-breakdown', async () => {
+  if (BOOTSTRAP) return { graded: 0, criteria: [], byArchetype: [], byCategory: [] };
 
-  return agents.map((agent: any) => {
-    const blueprint: any = blueprintMap.get(agent.blueprintId);
+  const grades = await prisma.grade.findMany({
+    orderBy: { createdAt: 'desc' },
+    take: 5000,
+    select: { criterion: true, score: true, category: true, swarmId: true },
+  });
+  const swarmIds = [...new Set(grades.map((g: any) => g.swarmId).filter(Boolean))] as string[];
+  const swarms = await prisma.swarm.findMany({
+    where: { id: { in: swarmIds } },
+    select: { id: true, agents: { select: { archetype: true } } },
+  });
+  const swarmArchetypes = new Map<string, string[]>(
+    swarms.map((swarm: any) => [
+      swarm.id,
+      [...new Set(swarm.agents.map((a: any) => a.archetype).filter(Boolean))] as string[],
+    ])
+  );
 
-    // Validate archetype or default to llm-only
-    const getToolsForArchetype = (archetype: string): string => {
-      const validTools = ['wikipedia', 'llm-only', 'web-browser', 'google-trends', 'tool-builder'];
-      return validTools.includes(archetype) ? archetype : 'llm-only';
-    };
+  const cells = new Map<string, { sum: number; n: number }>();
+  const add = (group: string, criterion: string, score: number) => {
+    const key = `${group}|${criterion}`;
+    const cell = cells.get(key) ?? { sum: 0, n: 0 };
+    cell.sum += score;
+    cell.n++;
+    cells.set(key, cell);
+  };
+  for (const g of grades) {
+    add(`category:${g.category ?? 'unknown'}`, g.criterion, g.score);
+    for (const archetype of swarmArchetypes.get(g.swarmId ?? '') ?? ['unknown']) {
+      add(`archetype:${archetype}`, g.criterion, g.score);
+    }
+  }
 
-    return {
-      id: agent.id,
-      name: agent.name,
+  const criteria = [...new Set(grades.map((g: any) => g.criterion))] as string[];
+  const table = (kind: string) => {
+    const groups = [...new Set([...cells.keys()].map((key) => key.split('|')[0]))]
+      .filter((group) => group.startsWith(`${kind}:`))
+      .sort();
+    return groups.map((group) => ({
+      [kind]: group.slice(kind.length + 1),
+      scores: Object.fromEntries(
+        criteria.map((criterion) => {
+          const cell = cells.get(`${group}|${criterion}`);
+          return [criterion, cell ? { mean: cell.sum / cell.n, n: cell.n } : null];
+        })
+      ),
+    }));
+  };
+
+  return {
+    graded: grades.length,
+    criteria,
+    byArchetype: table('archetype'),
+    byCategory: table('category'),
+    rubrics: cfg.GRADING_RUBRICS,
+  };
+});
+
+// Loaded ground-truth suites and their tasks (answers stay server-side)
+app.get('/api/suites', async () => {
+  return suiteRegistry.list().map((suite) => ({
+    name: suite.name,
+    version: suite.version,
+    description: suite.description ?? null,
+    tasks: suite.tasks.map((task) => ({
+      id: task.id,
+      category: task.category,
+      checker: task.checker.type,
+      payout: task.payout,
+      deadlineS: task.deadlineS,
+    })),
+  }));
+});
+
+// Per-category win rates from payout/fail ledger entries, overall and per swarm
+// Token usage by pool, component, provider and swarm, against the hourly budgets
+app.get('/api/metrics/tokens', async () => {
+  const snapshot = tokenBudget.snapshot();
+  const swarmIds = Object.keys(snapshot.sinceStart.byAgent);
+  const swarms =
+    BOOTSTRAP || !swarmIds.length
+      ? []
+      : await prisma.swarm.findMany({
+          where: { id: { in: swarmIds } },
+          select: { id: true, name: true },
+        });
+  const names = new Map<string, string>(swarms.map((s: any) => [s.id, s.name]));
+
+  return {
+    ...snapshot,
+    swarms: swarmIds
+      .map((id) => {
+        const total = snapshot.sinceStart.byAgent[id];
+        return {
+          id,
+          name: names.get(id) ?? null,
+          lastHour: snapshot.lastHour.byAgent[id] ?? {},
+          sinceStart: total,
+          tokens: total.inputTokens + total.outputTokens,
+        };
+      })
+      .sort((a, b) => b.tokens - a.tokens),
+  };
+});
+
+app.get('/api/metrics/categories', async () => {
+  if (BOOTSTRAP) return { categories: [], swarms: [] };
+
+  const rows = await prisma.ledger.groupBy({
+    by: ['swarmId', 'category', 'reason'],
+    where: { reason: { in: ['payout', 'fail'] }, category: { not: null } },
+    _count: { _all: true },
+  });
+
+  const tally = () =>
+    Object.fromEntries(JOB_CATEGORIES.map((c) => [c, { attempts: 0, wins: 0 }])) as Record<
+      string,
+      { attempts: number; wins: number }
+    >;
+  const overall = tally();
+  const bySwarm = new Map<string, ReturnType<typeof tally>>();
+
+  for (const row of rows as any[]) {
+    const swarmTally = bySwarm.get(row.swarmId) ?? tally();
+    bySwarm.set(row.swarmId, swarmTally);
+    for (const t of [overall, swarmTally]) {
+      const entry = (t[row.category] ??= { attempts: 0, wins: 0 });
+      entry.attempts += row._count._all;
+      if (row.reason === 'payout') entry.wins += row._count._all;
+    }
+  }
+
+  const rates = (t: ReturnType<typeof tally>) =>
+    Object.entries(t).map(([category, { attempts, wins }]) => ({
+      category,
+      attempts,
+      wins,
+      winRate: attempts > 0 ? wins / attempts : null,
+    }));
+
+  return {
+    categories: rates(overall),
+    swarms: [...bySwarm.entries()].map(([swarmId, t]) => ({ swarmId, categories: rates(t) })),
+  };
+});
+
+app.get('/api/metrics/centrality', async () => {
+  if (BOOTSTRAP) return [];
+
+  // Simple centrality calculation based on interactions
+  const edges = await prisma.edge.findMany({
+    where: { ts: { gte: new Date(Date.now() - 86400000) } }, // last 24 hours
+  });
+
+  const nodeDegrees: Record<string, number> = {};
+  const nodeConnections: Record<string, Set<string>> = {};
+
+  edges.forEach((edge: any) => {
+    nodeDegrees[edge.fromId] = (nodeDegrees[edge.fromId] || 0) + 1;
+    nodeDegrees[edge.toId] = (nodeDegrees[edge.toId] || 0) + 1;
+
+    if (!nodeConnections[edge.fromId]) nodeConnections[edge.fromId] = new Set();
+    if (!nodeConnections[edge.toId]) nodeConnections[edge.toId] = new Set();
+
+    nodeConnections[edge.fromId].add(edge.toId);
+    nodeConnections[edge.toId].add(edge.fromId);
+  });
+
+  return Object.entries(nodeDegrees)
+    .slice(0, 20)
+    .map(([nodeId, degree]) => ({
+      nodeId,
+      degree,
+      betweenness: degree / Object.keys(nodeDegrees).length, // Simplified
+      closeness: nodeConnections[nodeId]?.size || 0 / Object.keys(nodeDegrees).length,
+    }));
+});
+
+app.get('/api/agents', async () => {
+  if (BOOTSTRAP) return [];
+
+  const agents = await prisma.agentState.findMany({
+    orderBy: { balance: 'desc' },
+  });
+
+  const blueprints = await prisma.blueprint.findMany();
+  const blueprintMap = new Map(blueprints.map((bp: any) => [bp.id, bp]));
+
+  return agents.map((agent: any) => {
+    const blueprint: any = blueprintMap.get(agent.blueprintId);
+
+    // Validate archetype or default to llm-only
+    const getToolsForArchetype = (archetype: string): string => {
+      const validTools = ['wikipedia', 'llm-only', 'web-browser', 'google-trends', 'tool-builder'];
+      return validTools.includes(archetype) ? archetype : 'llm-only';
+    };
+
+    return {
+      id: agent.id,
+      name: agent.name,
       alive: agent.alive,
       balance: agent.balance,
       wins: agent.wins,
@@ -1823,184 +2571,355 @@ app.get('/api/swarms', async () => {
       agentCount: swarm.agents.length,
       archetypes: agentArchetypes.join(', '),
       description: swarm.description,
+      generation: swarm.generation,
+      genome: normalizeGenome(swarm.genome, genomeSchema),
+      failStreak: swarm.failStreak,
     };
   });
 });
 
-app.get('/api/jobs', async () => {
+app.get('/api/swarms/:id/reputation', async (req: any, reply: any) => {
   if (BOOTSTRAP) return [];
 
-  const jobs = await prisma.job.findMany({
-    take: 50,
+  const { id } = req.params as { id: string };
+  const swarm = await prisma.swarm.findUnique({ where: { id } });
+  if (!swarm) return reply.status(404).send({ error: 'Swarm not found' });
+
+  const limit = Math.max(1, Math.min(500, Number(req.query?.limit) || 100));
+  const history = await prisma.reputationEvent.findMany({
+    where: { swarmId: id },
     orderBy: { createdAt: 'desc' },
+    take: limit,
   });
+  return {
+    swarmId: id,
+    reputation: swarm.reputation,
+    failStreak: swarm.failStreak,
+    history,
+  };
+});
 
-  // Get job completion status by checking if there are payout transactions for each job
-  const jobsWithStatus = await Promise.all(
-    jobs.map(async (job: any) => {
-      // The current logic is flawed - it counts ALL payouts/fails after job creation time
-      // instead of payouts/fails FOR this specific job. Since we don't store job IDs
-      // in the ledger, we need to rely on Redis job matching for accurate status.
-      // For now, we'll set status based on whether we can find results in Redis.
+app.get('/api/lineage/:id', async (req: any, reply: any) => {
+  if (BOOTSTRAP) return reply.status(503).send({ error: 'Lineage unavailable in bootstrap mode' });
 
-      let status = 'pending';
-      let foundInRedis = false;
+  const { id } = req.params as { id: string };
+  const depth = Math.max(1, Math.min(50, Number(req.query?.depth) || 25));
+  const tree = await lineageService.getTree(id, depth);
 
-      // Calculate age
-      const ageMs = Date.now() - new Date(job.createdAt).getTime();
-      const ageMinutes = Math.floor(ageMs / 60000);
+  if (!tree.entityType) {
+    return reply.status(404).send({ error: `No lineage recorded for ${id}` });
+  }
 
-      // Try to get job result from Redis and determine correct status
-      let result = null;
-      let agentInfo = null;
-      try {
-        // Get completed jobs from Redis to find the Bull job ID
-        const completedJobs = await redis.zrange('bull:jobs:completed', 0, -1);
-        const failedJobs = await redis.zrange('bull:jobs:failed', 0, -1);
-        const allProcessedJobs = [...completedJobs, ...failedJobs];
+  // Attach current swarm stats so the tree shows which branches are winning
+  const swarmIds = new Set<string>(tree.entityType === 'swarm' ? [id] : []);
+  const collect = (nodes: LineageNode[]) => {
+    for (const node of nodes) {
+      if (node.entityType === 'swarm') swarmIds.add(node.id);
+      collect(node.parents ?? []);
+      collect(node.children ?? []);
+    }
+  };
+  collect(tree.ancestors);
+  collect(tree.descendants);
+
+  const swarms = await prisma.swarm.findMany({ where: { id: { in: Array.from(swarmIds) } } });
+  const swarmDetails = Object.fromEntries(
+    swarms.map((swarm: any) => [
+      swarm.id,
+      {
+        name: swarm.name,
+        alive: swarm.alive,
+        balance: swarm.balance,
+        wins: swarm.wins,
+        attempts: swarm.attempts,
+        generation: swarm.generation,
+      },
+    ])
+  );
 
-        // Find the job with matching data
-        for (const bullJobId of allProcessedJobs) {
-          try {
-            const jobData = await redis.hget(`bull:jobs:${bullJobId}`, 'data');
-            if (jobData) {
-              const parsedData = JSON.parse(jobData);
-              // Match by payload content since we don't store the DB job ID in Bull
-              if (JSON.stringify(parsedData.payload) === job.payload) {
-                const returnValue = await redis.hget(`bull:jobs:${bullJobId}`, 'returnvalue');
-                if (returnValue) {
-                  result = JSON.parse(returnValue);
-                  foundInRedis = true;
-                  // Determine status based on which queue it was found in
-                  if (completedJobs.includes(bullJobId)) {
-                    status = result.ok ? 'completed' : 'attempted';
-                  } else if (failedJobs.includes(bullJobId)) {
-                    status = 'attempted';
-                  }
-
-                  // Find which agent worked on this job using proper job ID tracking
-                  const ledgerEntry = await prisma.ledger.findFirst({
-                    where: {
-                      jobId: job.id,
-                      reason: { in: ['payout', 'fail'] },
-                    },
-                    orderBy: { ts: 'asc' }, // Get the first completion entry
-                  });
-
-                  if (ledgerEntry) {
-                    const agent = await prisma.agentState.findUnique({
-                      where: { id: ledgerEntry.agentId },
-                    });
-                    if (agent) {
-                      const blueprint = await prisma.blueprint.findUnique({
-                        where: { id: agent.blueprintId },
-                      });
-                      if (blueprint) {
-                        // Validate archetype or default to llm-only
-                        const getToolsForArchetype = (archetype: string): string[] => {
-                          const validTools = [
-                            'wikipedia',
-                            'llm-only',
-                            'web-browser',
-                            'google-trends',
-                            'tool-builder',
-                          ];
-                          return validTools.includes(archetype) ? [archetype] : ['llm-only'];
-                        };
-
-                        agentInfo = {
-                          id: agent.name || agent.id.substring(0, 8) + '...',
-                          temperature: blueprint.temperature,
-                          tools: getToolsForArchetype(blueprint.archetype || 'llm-only'),
-                          llmModel: blueprint.llmModel,
-                          balance: agent.balance,
-                          successRate:
-                            agent.attempts > 0
-                              ? Math.round((agent.wins / agent.attempts) * 100)
-                              : 0,
-                        };
-                      }
-                    }
-                  }
-                  break;
-                }
-              }
-            }
-          } catch (e) {
-            // Skip this job if parsing fails
-            continue;
-          }
-        }
-      } catch (error) {
-        // If Redis lookup fails, just continue without result
-        console.warn('Failed to fetch job result from Redis:', error);
-      }
+  return { ...tree, swarms: swarmDetails };
+});
 
-      // If not found in Redis, check if it's old enough to be considered stale
-      if (!foundInRedis && ageMinutes > 5) {
-        // Job is older than 5 minutes and not in Redis - likely completed and cleaned up
-        // or never processed. We'll leave it as pending for now.
-      }
+app.get('/api/jobs', async () => {
+  if (BOOTSTRAP) return [];
 
-      // Get quality grade from ledger entry (only for successful jobs)
-      let qualityGrade = null;
-      if (status === 'completed') {
-        const ledgerEntry = await prisma.ledger.findFirst({
-          where: {
-            jobId: job.id,
-            reason: 'payout',
-          },
-          orderBy: { ts: 'asc' },
-        });
-        qualityGrade = ledgerEntry?.qualityGrade || null;
-      }
+  const jobs = await prisma.job.findMany({
+    take: 50,
+    orderBy: { createdAt: 'desc' },
+    include: { result: true },
+  });
 
-      return {
-        id: job.id, // Show full ID for debugging
-        category: job.category,
-        payout: job.payout,
-        deadlineS: job.deadlineS,
-        createdAt: job.createdAt,
-        status,
-        ageMinutes,
-        payload: JSON.parse(job.payload),
-        result: result,
-        agent: agentInfo,
-        qualityGrade: qualityGrade,
-      };
+  // Swarms that delivered the listed jobs, with the traits their genome expresses
+  const swarmIds = [...new Set(jobs.map((job: any) => job.result?.swarmId).filter(Boolean))];
+  const swarms = await prisma.swarm.findMany({
+    where: { id: { in: swarmIds as string[] } },
+    include: { agents: { select: { archetype: true } } },
+  });
+  const swarmInfo = new Map(
+    swarms.map((swarm: any) => {
+      const traits = expressGenome(normalizeGenome(swarm.genome, genomeSchema));
+      return [
+        swarm.id,
+        {
+          id: swarm.name || swarm.id.substring(0, 8) + '...',
+          temperature: traits.temperature ?? 'default',
+          tools: [...new Set(swarm.agents.map((a: any) => a.archetype).filter(Boolean))],
+          llmModel: traits.model ?? 'default',
+          balance: swarm.balance,
+          successRate: swarm.attempts > 0 ? Math.round((swarm.wins / swarm.attempts) * 100) : 0,
+        },
+      ];
     })
   );
 
-  return jobsWithStatus;
-});
+  const payouts = await prisma.ledger.findMany({
+    where: { jobId: { in: jobs.map((job: any) => job.id) }, reason: 'payout' },
+    select: { jobId: true, qualityGrade: true },
+  });
+  const qualityGrades = new Map(payouts.map((l: any) => [l.jobId, l.qualityGrade]));
 
-// Debug endpoint for agent lookup
-app.get('/api/debug-agent/:jobId', async (req: any, _reply: any) => {
-  const jobId = req.params.jobId;
-  const job = await prisma.job.findUnique({ where: { id: jobId } });
-  if (!job) return { error: 'Job not found' };
+  return jobs.map((job: any) => {
+    const stored = job.result;
+    const status = !stored ? 'pending' : stored.ok ? 'completed' : 'attempted';
 
-  const ledgerEntries = await prisma.ledger.findMany({
-    where: { jobId: jobId },
-    orderBy: { ts: 'asc' },
+    return {
+      id: job.id, // Show full ID for debugging
+      category: job.category,
+      payout: job.payout,
+      deadlineS: job.deadlineS,
+      createdAt: job.createdAt,
+      status,
+      ageMinutes: Math.floor((Date.now() - new Date(job.createdAt).getTime()) / 60000),
+      payload: JSON.parse(job.payload),
+      result: stored ? formatJobResult(stored) : null,
+      agent: stored ? (swarmInfo.get(stored.swarmId) ?? null) : null,
+      qualityGrade: status === 'completed' ? (qualityGrades.get(job.id) ?? null) : null,
+    };
   });
+});
 
-  const completionEntry = await prisma.ledger.findFirst({
-    where: {
-      jobId: jobId,
-      reason: { in: ['payout', 'fail'] },
-    },
+// A stored job result in the shape BullMQ workers return it
+function formatJobResult(stored: any) {
+  return {
+    ok: stored.ok,
+    artifact: stored.artifact,
+    feedback: stored.feedback,
+    members: JSON.parse(stored.members),
+    toolsUsed: stored.toolsUsed,
+    newToolsCreated: stored.newToolsCreated,
+    stepsUsed: stored.stepsUsed,
+    selectedTool: stored.selectedTool,
+    builderRationale: stored.builderRationale,
+    error: stored.error,
+    ttcSec: stored.ttcSec,
+    gradeMs: stored.gradeMs,
+    completedAt: stored.completedAt,
+  };
+}
+
+app.get('/api/jobs/:id/bids', async (req: any, reply: any) => {
+  if (BOOTSTRAP) return [];
+
+  const { id } = req.params as { id: string };
+  const job = await prisma.job.findUnique({ where: { id } });
+  if (!job) return reply.status(404).send({ error: 'Job not found' });
+
+  const bids = await prisma.bid.findMany({
+    where: { jobId: id },
+    orderBy: [{ won: 'desc' }, { price: 'asc' }],
   });
+  return { jobId: id, reserve: job.payout, swarmId: job.swarmId, bids };
+});
 
+// Execution trace of a job, from the current run or an earlier one
+app.get('/api/trace/:jobId', async (req: any, reply: any) => {
+  const { jobId } = req.params as { jobId: string };
+  const found = await findTrace(jobId);
+  if (!found) return reply.status(404).send({ error: 'No trace recorded for this job' });
+
+  const job = BOOTSTRAP
+    ? null
+    : await prisma.job.findUnique({ where: { id: jobId }, include: { result: true } });
   return {
     jobId,
-    jobCreatedAt: job.createdAt,
-    allLedgerEntries: ledgerEntries,
-    completionEntry,
-    hasProperTracking: !!completionEntry,
+    run: found.run,
+    job: job
+      ? {
+          category: job.category,
+          payload: JSON.parse(job.payload),
+          payout: job.payout,
+          deadlineS: job.deadlineS,
+          createdAt: job.createdAt,
+        }
+      : null,
+    result: job?.result ? formatJobResult(job.result) : null,
+    trace: found.trace,
   };
 });
 
+app.get('/trace/:jobId', async (_request, reply) => {
+  reply.type('text/html');
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Job Trace - Agentic Soup</title>
+    <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background: #f5f5f5; }
+
+        .header {
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            color: white;
+            padding: 2rem;
+            text-align: center;
+        }
+
+        .nav-links {
+            background: #fff;
+            padding: 1rem;
+            text-align: center;
+            box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+        }
+
+        .nav-links a {
+            color: #4299e1;
+            text-decoration: none;
+            margin: 0 1rem;
+        }
+
+        .container {
+            max-width: 95%;
+            margin: 2rem auto;
+            padding: 0 1rem;
+        }
+
+        .panel {
+            background: white;
+            border-radius: 8px;
+            box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+            padding: 1rem 1.5rem;
+            margin-bottom: 1rem;
+        }
+
+        .summary { color: #4a5568; font-size: 0.9rem; line-height: 1.6; }
+        .error-message { background: #fed7d7; color: #742a2a; padding: 1rem; border-radius: 4px; }
+
+        details { margin-left: 1.25rem; border-left: 2px solid #e2e8f0; padding-left: 0.75rem; }
+        details.root { margin-left: 0; border-left: none; padding-left: 0; }
+        summary { cursor: pointer; padding: 0.3rem 0; font-size: 0.9rem; }
+        .span-name { font-weight: 600; font-family: monospace; }
+        .kind { display: inline-block; font-size: 0.7rem; padding: 0.1rem 0.4rem; border-radius: 3px; background: #edf2f7; color: #4a5568; margin-right: 0.4rem; text-transform: uppercase; }
+        .kind-llm { background: #e9d8fd; color: #553c9a; }
+        .kind-tool { background: #c6f6d5; color: #22543d; }
+        .kind-agent { background: #bee3f8; color: #2a4365; }
+        .kind-grading { background: #feebc8; color: #7b341e; }
+        .meta { color: #718096; font-size: 0.8rem; margin-left: 0.5rem; }
+        .status-error { color: #c53030; font-weight: 600; }
+        .io { margin: 0.25rem 0 0.5rem; }
+        .io-label { font-size: 0.75rem; color: #718096; text-transform: uppercase; }
+        .io pre { background: #f7fafc; border: 1px solid #e2e8f0; border-radius: 4px; padding: 0.5rem; font-size: 0.8rem; white-space: pre-wrap; word-break: break-word; max-height: 240px; overflow: auto; }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1>🔍 Job Trace</h1>
+        <p id="job-id"></p>
+    </div>
+
+    <div class="nav-links">
+        <a href="/dashboard">← Back to Dashboard</a>
+        <a href="/responses">Job Responses</a>
+    </div>
+
+    <div class="container">
+        <div id="summary" class="panel summary">Loading trace...</div>
+        <div id="tree" class="panel"></div>
+    </div>
+
+    <script>
+        const jobId = decodeURIComponent(location.pathname.split('/').pop());
+        document.getElementById('job-id').textContent = jobId;
+
+        function el(tag, className, text) {
+            const node = document.createElement(tag);
+            if (className) node.className = className;
+            if (text !== undefined) node.textContent = text;
+            return node;
+        }
+
+        function subtreeTokens(span) {
+            return span.children.reduce((sum, child) => {
+                const t = subtreeTokens(child);
+                return { input: sum.input + t.input, output: sum.output + t.output };
+            }, { input: span.tokens.input, output: span.tokens.output });
+        }
+
+        function renderSpan(span, isRoot) {
+            const details = el('details', isRoot ? 'root' : '');
+            details.open = isRoot || span.status === 'error' || span.kind !== 'llm';
+
+            const summary = el('summary');
+            summary.appendChild(el('span', 'kind kind-' + span.kind, span.kind));
+            summary.appendChild(el('span', 'span-name', span.name));
+            const tokens = subtreeTokens(span);
+            const meta = [
+                span.durationMs === null ? 'open' : span.durationMs + ' ms',
+                tokens.input + tokens.output ? tokens.input + '→' + tokens.output + ' tokens' : null,
+            ].filter(Boolean).join(' · ');
+            summary.appendChild(el('span', 'meta', meta));
+            if (span.status === 'error') {
+                summary.appendChild(el('span', 'meta status-error', '✖ ' + (span.error || 'error')));
+            }
+            details.appendChild(summary);
+
+            const attributes = Object.entries(span.attributes || {});
+            if (attributes.length) {
+                details.appendChild(el('div', 'meta', attributes.map(([k, v]) => k + '=' + v).join('  ')));
+            }
+            for (const [label, text] of [['input', span.input], ['output', span.output]]) {
+                if (!text) continue;
+                const io = el('div', 'io');
+                io.appendChild(el('div', 'io-label', label));
+                io.appendChild(el('pre', '', text));
+                details.appendChild(io);
+            }
+            span.children.forEach(child => details.appendChild(renderSpan(child, false)));
+            return details;
+        }
+
+        async function loadTrace() {
+            const summary = document.getElementById('summary');
+            try {
+                const response = await fetch('/api/trace/' + encodeURIComponent(jobId));
+                const data = await response.json();
+                if (!response.ok) throw new Error(data.error || response.statusText);
+
+                const root = data.trace;
+                const lines = [
+                    'Run: ' + data.run,
+                    data.job ? 'Category: ' + data.job.category + ' · Payout: ' + data.job.payout + ' · Deadline: ' + data.job.deadlineS + 's' : null,
+                    data.result ? 'Outcome: ' + (data.result.ok ? '✅ passed' : '❌ failed') + (data.result.feedback ? ' - ' + data.result.feedback : '') : null,
+                    'Spans: ' + root.attributes.spans + ' · Tokens: ' + root.attributes.inputTokens + ' in / ' + root.attributes.outputTokens + ' out · Duration: ' + root.durationMs + ' ms',
+                ].filter(Boolean);
+                summary.innerHTML = '';
+                lines.forEach(line => summary.appendChild(el('div', '', line)));
+                document.getElementById('tree').appendChild(renderSpan(root, true));
+            } catch (error) {
+                summary.innerHTML = '';
+                summary.appendChild(el('div', 'error-message', 'Failed to load trace: ' + error.message));
+            }
+        }
+
+        loadTrace();
+    </script>
+</body>
+</html>
+`;
+});
+
 app.get('/api/activity', async () => {
   if (BOOTSTRAP) return [];
 
@@ -2076,8 +2995,7 @@ app.get('/api/responses-table', async () => {
   // Skip BOOTSTRAP check to show real data even in bootstrap mode
 
   try {
-    // Fetch completed jobs directly from ledger (since Job records are deleted after completion)
-    // Include swarm information to get agent details
+    // Latest graded outcomes from the ledger, with swarm and agent details
     const completedJobEntries = await prisma.ledger.findMany({
       where: {
         reason: { in: ['payout', 'fail'] },
@@ -2087,6 +3005,7 @@ app.get('/api/responses-table', async () => {
       include: {
         swarm: {
           select: {
+            id: true,
             name: true,
             agents: {
               select: {
@@ -2097,118 +3016,34 @@ app.get('/api/responses-table', async () => {
             },
           },
         },
+        grades: { select: { criterion: true, score: true } },
       },
     });
 
-    // Get job IDs for Redis lookup
-    const jobIds = completedJobEntries.map((entry: any) => entry.jobId);
+    // Stored results and prompts of the listed jobs
+    const jobIds = completedJobEntries.map((entry: any) => entry.jobId).filter(Boolean);
+    const storedJobs = await prisma.job.findMany({
+      where: { id: { in: jobIds } },
+      include: { result: true },
+    });
     const jobDataMap = new Map();
-
-    // Fetch job data from Redis (similar to summarize-run.js logic)
-    if (redis && jobIds.length > 0) {
-      try {
-        const jobIdSet = new Set(jobIds);
-        const completed = await redis.zrange('bull:jobs:completed', 0, -1);
-        const failed = await redis.zrange('bull:jobs:failed', 0, -1);
-        const allProcessed = [...completed, ...failed];
-
-        // Batch fetch job data
-        const batchSize = 100;
-        for (let i = 0; i < allProcessed.length; i += batchSize) {
-          const batch = allProcessed.slice(i, i + batchSize);
-          const batchPromises = batch.map(async (bullJobId) => {
-            try {
-              const [dataRaw, returnRaw] = await redis.hmget(
-                `bull:jobs:${bullJobId}`,
-                'data',
-                'returnvalue'
-              );
-              if (!dataRaw) return null;
-
-              const parsedData = JSON.parse(dataRaw);
-              const dbJobId = parsedData?.dbJobId;
-              if (!dbJobId || !jobIdSet.has(dbJobId)) return null;
-
-              const parsedReturn = returnRaw ? JSON.parse(returnRaw) : null;
-
-              // Extract the actual answer content from the return value
-              let extractedAnswer = 'No response data';
-              let toolsUsedDetails = 'N/A';
-              let agentType = 'Unknown';
-              let selectedTool = null;
-
-              if (parsedReturn) {
-                // Extract the artifact (main response content)
-                if (parsedReturn.artifact) {
-                  extractedAnswer = parsedReturn.artifact;
-                } else if (typeof parsedReturn === 'string') {
-                  extractedAnswer = parsedReturn;
-                } else if (parsedReturn.result) {
-                  extractedAnswer = parsedReturn.result;
-                } else if (parsedReturn.response) {
-                  extractedAnswer = parsedReturn.response;
-                } else if (parsedReturn.answer) {
-                  extractedAnswer = parsedReturn.answer;
-                } else {
-                  // Try to get a meaningful string representation
-                  extractedAnswer = JSON.stringify(parsedReturn);
-                }
-
-                // Extract tools information - show specific tool names
-                if (parsedReturn.selectedTool) {
-                  toolsUsedDetails = parsedReturn.selectedTool;
-                } else if (parsedReturn.toolsUsed === true || parsedReturn.toolsUsed === 'true') {
-                  toolsUsedDetails = 'Tools used (name unknown)';
-                } else if (
-                  parsedReturn.toolsUsed === false ||
-                  parsedReturn.toolsUsed === 'false' ||
-                  !parsedReturn.toolsUsed
-                ) {
-                  toolsUsedDetails = 'No tools used';
-                } else if (typeof parsedReturn.toolsUsed === 'string') {
-                  toolsUsedDetails = parsedReturn.toolsUsed;
-                } else {
-                  toolsUsedDetails = 'Unknown';
-                }
-
-                // Agent type will be determined from database archetype (see below)
-
-                selectedTool = parsedReturn.selectedTool;
-              }
-
-              return {
-                dbJobId,
-                prompt:
-                  typeof parsedData?.payload === 'string'
-                    ? parsedData.payload
-                    : parsedData?.payload?.prompt || JSON.stringify(parsedData?.payload || {}),
-                answer: extractedAnswer,
-                toolsUsed: toolsUsedDetails,
-                agentType: agentType,
-                selectedTool: selectedTool,
-                newToolsCreated: parsedReturn?.newToolsCreated || false,
-                category: parsedData?.category || 'general',
-              };
-            } catch (err) {
-              return null;
-            }
-          });
-
-          const batchResults = await Promise.all(batchPromises);
-          for (const result of batchResults) {
-            if (result) {
-              jobDataMap.set(result.dbJobId, result);
-            }
-          }
-
-          // Early exit if we found all jobs we need
-          if (jobDataMap.size === jobIdSet.size) {
-            break;
-          }
-        }
-      } catch (redisError) {
-        console.error('[API] Redis lookup failed:', redisError);
-      }
+    for (const job of storedJobs) {
+      if (!job.result) continue;
+      const payload = JSON.parse(job.payload);
+      jobDataMap.set(job.id, {
+        prompt: typeof payload === 'string' ? payload : payload?.prompt || job.payload,
+        answer: job.result.artifact,
+        toolsUsed: job.result.selectedTool
+          ? job.result.selectedTool
+          : job.result.toolsUsed
+            ? 'Tools used (name unknown)'
+            : 'No tools used',
+        selectedTool: job.result.selectedTool,
+        newToolsCreated: job.result.newToolsCreated,
+        feedback: job.result.feedback,
+        error: job.result.error,
+        members: JSON.parse(job.result.members),
+      });
     }
 
     // Process each ledger entry into table format
@@ -2216,7 +3051,7 @@ app.get('/api/responses-table', async () => {
       const status = entry.reason === 'payout' ? 'Success' : 'Failed';
       const jobIdTruncated = entry.jobId.substring(0, 8) + '...';
 
-      // Get job data from Redis
+      // Stored JobResult of the job
       const jobData = jobDataMap.get(entry.jobId);
 
       let answerTruncated = '';
@@ -2230,28 +3065,15 @@ app.get('/api/responses-table', async () => {
         toolsUsed = jobData.toolsUsed;
 
         if (entry.reason === 'payout') {
-          // Extract the artifact field when the answer is a JSON object, otherwise show the full answer
-          if (typeof jobData.answer === 'string') {
-            answerTruncated = jobData.answer;
-          } else if (typeof jobData.answer === 'object' && jobData.answer !== null) {
-            // If it's an object, try to extract the artifact field first
-            if (jobData.answer.artifact) {
-              answerTruncated = jobData.answer.artifact;
-            } else {
-              // Fallback to JSON string if no artifact field
-              answerTruncated = JSON.stringify(jobData.answer);
-            }
-          } else {
-            answerTruncated = String(jobData.answer || '');
-          }
+          answerTruncated = jobData.answer;
           error = '-';
         } else if (entry.reason === 'fail') {
           answerTruncated = 'Job failed to complete';
           error = 'Yes';
-          errorDescription = 'Job execution failed';
+          errorDescription = jobData.error || jobData.feedback || 'Job execution failed';
         }
       } else {
-        // Fallback when Redis data not available
+        // No JobResult stored for this job (e.g. recorded before the JobResult table existed)
         if (entry.reason === 'payout') {
           answerTruncated = `Job completed successfully (Quality: ${entry.qualityGrade || 'N/A'})`;
           error = '-';
@@ -2288,6 +3110,7 @@ app.get('/api/responses-table', async () => {
 
       return {
         jobId: jobIdTruncated,
+        traceUrl: `/trace/${entry.jobId}`,
         status: status,
         prompt: prompt,
         answer: answerTruncated,
@@ -2297,10 +3120,15 @@ app.get('/api/responses-table', async () => {
         agentCount: agentCount,
         selectedTool: jobData?.selectedTool || null,
         newToolsCreated: jobData?.newToolsCreated || false,
+        feedback: jobData?.feedback || null,
+        members: jobData?.members || [],
         error: error,
         errorDescription: errorDescription,
         timestamp: entry.ts,
         qualityGrade: entry.qualityGrade,
+        criteria: Object.fromEntries(
+          entry.grades.map((g: any) => [g.criterion, Math.round(g.score)])
+        ),
       };
     });
 
@@ -2440,6 +3268,9 @@ async function seedSwarms() {
   });
   const swarmNames = await nameGenerator.generateNames(swarmNameConfigs);
 
+  // Seeded swarms all start from the default genome; variation comes from mutation
+  const genome = defaultGenome(genomeSchema);
+
   // Now create swarms and agents with pre-generated names
   for (let i = 0; i < SWARM_COUNT; i++) {
     const swarmConfig = swarmConfigs[i];
@@ -2455,37 +3286,33 @@ async function seedSwarms() {
         id: swarmConfig.swarmId,
         name: swarmName.fullName,
         description: `A collaborative swarm with 2 tool-builders and 1 of each archetype (llm-only, web-browser, wikipedia, google-trends)`,
-        balance: 1000, // Starting balance
+        balance: SWARM_START_BALANCE,
         reputation: 0.5, // Starting reputation
+        genome: JSON.stringify(genome),
       },
     });
 
     // Create individual agent records in database for tracking
-    const toolBuilderCount = { count: 0 };
-    for (let j = 0; j < AGENTS_PER_SWARM; j++) {
-      const agentId = `${swarmConfig.swarmId}_agent_${j}`;
-      const agentArchetype = swarmConfig.archetypes[j];
-
-      let agentName = `${swarmName.fullName} - ${agentArchetype}`;
-      if (agentArchetype === 'tool-builder') {
-        toolBuilderCount.count++;
-        agentName = `${swarmName.fullName} - tool-builder-${toolBuilderCount.count}`;
-      }
-
-      await prisma.agentState.create({
-        data: {
-          id: agentId,
-          name: agentName,
-          archetype: agentArchetype,
-          balance: 0, // Swarm manages balance
-          reputation: 0.5,
-          attempts: 0,
-          wins: 0,
-          meanTtcSec: 0,
-          swarmId: swarmConfig.swarmId, // Link to swarm
-        },
-      });
-    }
+    await createSwarmAgents(
+      swarmConfig.swarmId,
+      swarmName.fullName,
+      swarmConfig.archetypes.slice(0, AGENTS_PER_SWARM)
+    );
+    recordPopulationEvent(
+      'birth',
+      { id: swarmConfig.swarmId, balance: SWARM_START_BALANCE },
+      'seed'
+    );
+    await lineageService.record({
+      entityType: 'swarm',
+      parentId: null,
+      childId: swarmConfig.swarmId,
+      mutation: {
+        origin: 'seed',
+        archetypes: swarmConfig.archetypes.slice(0, AGENTS_PER_SWARM),
+        genome,
+      },
+    });
 
     log(`[seedSwarms] Created swarm "${swarmName.fullName}" with ${AGENTS_PER_SWARM} agents`);
   }
@@ -2495,35 +3322,249 @@ async function seedSwarms() {
   );
 }
 
+async function createSwarmAgents(
+  swarmId: string,
+  swarmName: string,
+  archetypes: string[]
+): Promise<string[]> {
+  const agentIds: string[] = [];
+  let toolBuilderCount = 0;
+  for (let j = 0; j < archetypes.length; j++) {
+    const agentArchetype = archetypes[j];
+
+    let agentName = `${swarmName} - ${agentArchetype}`;
+    if (agentArchetype === 'tool-builder') {
+      toolBuilderCount++;
+      agentName = `${swarmName} - tool-builder-${toolBuilderCount}`;
+    }
+
+    const agent = await prisma.agentState.create({
+      data: {
+        id: `${swarmId}_agent_${j}`,
+        name: agentName,
+        archetype: agentArchetype,
+        balance: 0, // Swarm manages balance
+        reputation: 0.5,
+        attempts: 0,
+        wins: 0,
+        meanTtcSec: 0,
+        swarmId, // Link to swarm
+      },
+    });
+    agentIds.push(agent.id);
+  }
+  return agentIds;
+}
+
+const curriculumParams: CurriculumParams = {
+  targetLow: cfg.CURRICULUM_TARGET_LOW,
+  targetHigh: cfg.CURRICULUM_TARGET_HIGH,
+  qualityFloor: cfg.CURRICULUM_QUALITY_FLOOR,
+  minSamples: cfg.CURRICULUM_MIN_SAMPLES,
+};
+
+const curriculum: {
+  difficulty: number;
+  changedAt: Date; // Outcomes before this were graded at another difficulty
+  decision: CurriculumDecision;
+  stats: CurriculumStats | null;
+  activeShocks: string[];
+} = {
+  difficulty: clampDifficulty(cfg.CURRICULUM_START_DIFFICULTY),
+  changedAt: new Date(RUN_STARTED_AT),
+  decision: 'warmup',
+  stats: null,
+  activeShocks: [],
+};
+
+function recordCurriculumEvent(event: 'difficulty' | 'shock', detail: string) {
+  const { stats } = curriculum;
+  fs.appendFileSync(
+    CURRICULUM_CSV,
+    `${new Date().toISOString()},${event},${curriculum.difficulty},${stats?.samples ?? 0},${stats?.passRate.toFixed(3) ?? ''},${stats?.meanQuality?.toFixed(1) ?? ''},"${detail.replace(/"/g, '""')}"\n`
+  );
+}
+
+/**
+ * Moves the curriculum difficulty from the latest graded jobs since the last change
+ */
+async function updateCurriculum() {
+  if (!cfg.CURRICULUM_ENABLED) return;
+
+  // Suite jobs (no difficulty) sit outside the curriculum and do not count
+  const outcomes = await prisma.ledger.findMany({
+    where: {
+      reason: { in: ['payout', 'fail'] },
+      difficulty: { not: null },
+      ts: { gte: curriculum.changedAt },
+    },
+    orderBy: { ts: 'desc' },
+    take: cfg.CURRICULUM_WINDOW,
+    select: { reason: true, qualityGrade: true },
+  });
+  const stats = curriculumStats(
+    outcomes.map((o: any) => ({ passed: o.reason === 'payout', qualityScore: o.qualityGrade }))
+  );
+  const step = nextDifficulty(curriculum.difficulty, stats, curriculumParams);
+  curriculum.stats = stats;
+  curriculum.decision = step.decision;
+
+  if (step.difficulty !== curriculum.difficulty) {
+    log(
+      `[curriculum] Pass rate ${(stats.passRate * 100).toFixed(0)}% over ${stats.samples} jobs: difficulty ${curriculum.difficulty} -> ${step.difficulty}`
+    );
+    recordCurriculumEvent(
+      'difficulty',
+      `${step.decision} ${curriculum.difficulty}->${step.difficulty}`
+    );
+    curriculum.difficulty = step.difficulty;
+    curriculum.changedAt = new Date();
+  }
+}
+
+/**
+ * Category mix, difficulty and payout multiplier for new jobs, with scheduled shocks applied
+ */
+function currentJobDistribution() {
+  const effect = applyShocks(
+    cfg.JOB_CATEGORY_MIX,
+    cfg.CURRICULUM_SHOCKS,
+    Date.now() - RUN_STARTED_AT
+  );
+
+  const names = effect.active.map((s) => s.name ?? `shock@${s.atHours}h`);
+  if (names.join(',') !== curriculum.activeShocks.join(',')) {
+    log(`[curriculum] Active shocks: ${names.join(', ') || 'none'}`);
+    recordCurriculumEvent('shock', names.join(';') || 'none');
+    curriculum.activeShocks = names;
+  }
+
+  return {
+    mix: effect.mix,
+    difficulty: clampDifficulty(curriculum.difficulty + effect.difficultyDelta),
+    payoutMultiplier: effect.payoutMultiplier,
+  };
+}
+
+/**
+ * Seeds the job generator's similarity index with the latest generated prompts in the database,
+ * so jobs from earlier runs count as recent. Suite jobs are not generated and are skipped.
+ */
+async function seedJobDeduplication() {
+  try {
+    const jobs = await prisma.job.findMany({
+      where: { difficulty: { not: null } },
+      orderBy: { createdAt: 'desc' },
+      take: cfg.JOB_DEDUP_WINDOW,
+      select: { payload: true },
+    });
+    const prompts = jobs
+      .reverse()
+      .map((job: any) => JSON.parse(job.payload).prompt)
+      .filter((prompt: unknown): prompt is string => typeof prompt === 'string');
+    const seeded = await jobGenerator.seedDeduplication(prompts);
+    if (seeded) log(`[jobs] Dedup index seeded with ${seeded} recent job prompts`);
+  } catch (error) {
+    logError('[jobs] Failed to seed the dedup index:', error);
+  }
+}
+
+/**
+ * A ground-truth suite task for a share of jobs (when a suite covers the category),
+ * otherwise a freshly generated job at the curriculum difficulty
+ */
+async function nextJob(
+  category: JobCategory,
+  difficulty: number
+): Promise<{
+  category: string;
+  difficulty: number | null;
+  payload: { prompt: string; suite?: SuiteTaskRef };
+  payout: number;
+  deadlineS: number;
+}> {
+  if (evolutionRandom() < cfg.JOB_SUITE_FRACTION) {
+    const sampled = suiteRegistry.sample(category);
+    if (sampled) {
+      const { task, ref } = sampled;
+      return {
+        category: task.category,
+        difficulty: null, // Suite tasks sit outside the curriculum
+        payload: { prompt: task.prompt, suite: ref },
+        payout: task.payout,
+        deadlineS: task.deadlineS,
+      };
+    }
+  }
+
+  const job = await jobGenerator.generateJob(category, {
+    payoutRange: cfg.JOB_CATEGORY_PAYOUTS[category],
+    difficulty,
+  });
+  return {
+    category: job.category,
+    difficulty: job.difficulty,
+    payload: { prompt: job.prompt },
+    payout: job.payout,
+    deadlineS: job.deadlineS,
+  };
+}
+
 async function generateJobs() {
   let successCount = 0;
   let failureCount = 0;
   const failureReasons: Record<string, number> = {};
 
+  try {
+    await updateCurriculum();
+  } catch (error) {
+    logError('[curriculum] Failed to update difficulty:', error);
+  }
+  if (cfg.JOB_ASSIGNMENT === 'auction') {
+    try {
+      await reauctionUnassignedJobs();
+    } catch (error) {
+      logError('[market] Failed to re-auction unassigned jobs:', error);
+    }
+  }
+  const distribution = currentJobDistribution();
+
   for (let i = 0; i < JOBS_PER_MIN; i++) {
     try {
-      const job = await jobGenerator.generateJob();
+      const category = pickCategory(distribution.mix, evolutionRandom);
+      const job = await nextJob(category, distribution.difficulty);
+      const payout = Math.max(1, Math.round(job.payout * distribution.payoutMultiplier));
 
       // Save job to database for tracking
       const dbJob = await prisma.job.create({
         data: {
-          category: 'general', // Simplified: no categories
-          payload: JSON.stringify({ prompt: job.prompt }),
-          payout: job.payout,
+          category: job.category,
+          difficulty: job.difficulty,
+          payload: JSON.stringify(job.payload),
+          payout,
           deadlineS: job.deadlineS,
         },
       });
 
-      // Add to Redis queue for worker processing
-      await jobQueue.add('job', {
+      const jobData = {
         dbJobId: dbJob.id, // Include database job ID for proper tracking
-        category: 'general',
-        payload: { prompt: job.prompt },
-        payout: job.payout,
+        category: job.category,
+        difficulty: job.difficulty,
+        payload: job.payload,
+        payout,
         deadlineS: job.deadlineS,
-      } as any);
+      };
+
+      if (cfg.JOB_ASSIGNMENT === 'auction') {
+        await auctionJob(dbJob, jobData);
+      } else {
+        // Add to the shared Redis queue; the first free worker takes it
+        await jobQueue.add('job', jobData as any);
+      }
 
-      log(`[jobs] ✅ Generated general job: ${job.prompt.substring(0, 100)}...`);
+      log(
+        `[jobs] ✅ Generated ${job.category} job (${job.payload.suite ? `suite ${job.payload.suite.suite}/${job.payload.suite.taskId}` : `difficulty ${job.difficulty}`}): ${job.payload.prompt.substring(0, 100)}...`
+      );
       successCount++;
     } catch (error) {
       console.error('[jobs] ❌ Failed to generate job:', (error as Error).message);
@@ -2544,13 +3585,344 @@ async function generateJobs() {
   }
 }
 
-async function gradeWithLLM(jobPrompt: string, artifact: string) {
-  // Use the new LLM-based grader - no fallback, let failures fail
-  const gradeResult = await llmGrader.gradeResponse(jobPrompt, artifact);
+// Auction mode gives every swarm its own queue of awarded jobs; queue mode shares 'jobs'
+function jobQueueName(swarmId: string) {
+  return cfg.JOB_ASSIGNMENT === 'auction' ? `jobs-${swarmId}` : 'jobs';
+}
+
+function getSwarmQueue(swarmId: string): Queue {
+  let queue = swarmQueues.get(swarmId);
+  if (!queue) {
+    queue = new Queue(jobQueueName(swarmId), { connection: redis });
+    swarmQueues.set(swarmId, queue);
+  }
+  return queue;
+}
+
+async function buildBidderProfile(swarm: any): Promise<BidderProfile> {
+  const agents = await prisma.agentState.findMany({
+    where: { swarmId: swarm.id, alive: true },
+    select: { id: true },
+  });
+  const agentIds = agents.map((a: any) => a.id);
+  const experiences = (outcome: string) =>
+    prisma.agentMemory.count({
+      where: {
+        agentId: { in: agentIds },
+        memoryType: 'experience',
+        content: { contains: `Outcome: ${outcome}` },
+      },
+    });
+
+  const [memorySuccesses, memoryFailures, queuedJobs] = await Promise.all([
+    experiences('success'),
+    experiences('failure'),
+    getSwarmQueue(swarm.id).count(),
+  ]);
+
+  return {
+    swarmId: swarm.id,
+    balance: swarm.balance,
+    reputation: swarm.reputation,
+    attempts: swarm.attempts,
+    wins: swarm.wins,
+    meanTtcSec: swarm.meanTtcSec,
+    queuedJobs,
+    memorySuccesses,
+    memoryFailures,
+  };
+}
+
+/**
+ * Announces a job to every swarm with a running worker, collects their bids and awards the job
+ * under AUCTION_CLEARING_RULE. The winner's queue receives the job at the clearing price.
+ */
+async function auctionJob(dbJob: any, jobData: Record<string, any>) {
+  const rule = cfg.AUCTION_CLEARING_RULE;
+  const bidders = await prisma.swarm.findMany({
+    where: { alive: true, id: { in: Array.from(swarmWorkers.keys()) } },
+  });
+
+  const bids: Bid[] = [];
+  for (const swarm of bidders) {
+    try {
+      bids.push(computeBid(await buildBidderProfile(swarm), dbJob, evolutionRandom));
+    } catch (error) {
+      logError(`[market] Swarm ${swarm.id} failed to bid on job ${dbJob.id}:`, error);
+    }
+  }
+
+  const result = clearAuction(bids, rule, dbJob.payout);
+  if (bids.length) {
+    await prisma.bid.createMany({
+      data: bids.map((bid) => {
+        const won = bid.swarmId === result?.winner.swarmId;
+        return {
+          jobId: dbJob.id,
+          swarmId: bid.swarmId,
+          price: bid.price,
+          etaSec: bid.etaSec,
+          confidence: bid.confidence,
+          score: result?.scores[bid.swarmId] ?? null,
+          rule,
+          won,
+          clearingPrice: won ? result!.price : null,
+        };
+      }),
+    });
+  }
+
+  if (!result) {
+    log(
+      `[market] Job ${dbJob.id} received no valid bids (${bids.length} submitted), re-auctioned next tick`
+    );
+    return;
+  }
+
+  await prisma.job.update({
+    where: { id: dbJob.id },
+    data: { swarmId: result.winner.swarmId },
+  });
+  await getSwarmQueue(result.winner.swarmId).add('job', { ...jobData, payout: result.price });
+  log(
+    `[market] Job ${dbJob.id} awarded to ${result.winner.swarmId} at ${result.price}/${dbJob.payout} (${rule}, ${bids.length} bids)`
+  );
+}
+
+/**
+ * Auctions jobs that an earlier round left without a winner (no valid bids, or no swarm workers
+ * running yet), oldest first. Only this run's jobs: ones that already have a result are done.
+ */
+async function reauctionUnassignedJobs() {
+  const jobs = await prisma.job.findMany({
+    where: { swarmId: null, result: null, createdAt: { gte: new Date(RUN_STARTED_AT) } },
+    orderBy: { createdAt: 'asc' },
+    take: UNASSIGNED_REAUCTION_LIMIT,
+  });
+  if (!jobs.length) return;
+
+  log(`[market] Re-auctioning ${jobs.length} unassigned job(s)`);
+  for (const dbJob of jobs) {
+    await auctionJob(dbJob, {
+      dbJobId: dbJob.id,
+      category: dbJob.category,
+      difficulty: dbJob.difficulty,
+      payload: JSON.parse(dbJob.payload),
+      payout: dbJob.payout,
+      deadlineS: dbJob.deadlineS,
+    });
+  }
+}
+
+async function gradeWithLLM(jobPrompt: string, artifact: string, rubric?: Rubric) {
+  // Grading panel of one or more LLM judges - fails only when every judge fails
+  const gradeResult = await gradingPanel.grade(jobPrompt, artifact, rubric);
   return gradeResult;
 }
 
-const agentWorkers: any[] = [];
+interface JobGrade {
+  passed: boolean;
+  qualityScore?: number;
+  criteria?: Record<string, number>;
+  feedback?: string;
+  panel?: PanelVerdict;
+  judges?: JudgeGrade[];
+}
+
+// Panel columns of a payout/fail ledger row (empty for checker-only grades)
+function panelLedgerFields(grade: JobGrade) {
+  if (!grade.panel || !grade.judges) return {};
+  return {
+    panelScore: grade.panel.panelScore,
+    judgeScores: JSON.stringify(
+      grade.judges.map(({ judge, model, passed, qualityScore, error }) => ({
+        judge,
+        model,
+        passed,
+        score: qualityScore ?? null,
+        ...(error ? { error } : {}),
+      }))
+    ),
+    gradeSpread: grade.panel.spread,
+    gradeFlagged: grade.panel.flagged,
+  };
+}
+
+/**
+ * Stores the per-criterion scores of a passing grade, linked to its job and ledger row
+ */
+async function recordCriterionGrades(
+  ledgerId: string,
+  jobId: string,
+  swarmId: string,
+  category: JobCategory | undefined,
+  grade: JobGrade,
+  rubric: Rubric
+) {
+  if (!grade.passed || !grade.criteria) return;
+  const weights = new Map(rubric.map((c) => [c.name, c.weight]));
+  await prisma.grade.createMany({
+    data: Object.entries(grade.criteria).map(([criterion, score]) => ({
+      jobId,
+      ledgerId,
+      criterion,
+      score,
+      weight: weights.get(criterion) ?? 0,
+      category: category ?? null,
+      swarmId,
+    })),
+  });
+}
+
+/**
+ * Closes the job's span tree and writes it to the run's traces directory
+ */
+async function saveTrace(tracer: JobTracer, jobId: string, error?: unknown) {
+  try {
+    await fs.writeJson(path.join(TRACES_DIR, `${jobId}.json`), tracer.finish(error));
+  } catch (writeError) {
+    logError(`[workers] Failed to save trace of job ${jobId}:`, writeError);
+  }
+}
+
+/**
+ * A job's trace from the current run, else from the most recent earlier run that has one
+ */
+async function findTrace(jobId: string): Promise<{ run: string; trace: unknown } | null> {
+  if (!/^[\w-]+$/.test(jobId)) return null;
+
+  const runsDir = path.dirname(RUN_DIR);
+  const runs = (await fs.pathExists(runsDir)) ? await fs.readdir(runsDir) : [];
+  const ordered = [path.basename(RUN_DIR), ...runs.sort().reverse()];
+  for (const run of ordered) {
+    const file = path.join(runsDir, run, 'traces', `${jobId}.json`);
+    if (await fs.pathExists(file)) return { run, trace: await fs.readJson(file) };
+  }
+  return null;
+}
+
+interface JobOutcomeRecord {
+  ok: boolean;
+  artifact: string;
+  members: MemberRun[];
+  feedback?: string;
+  error?: string;
+  gradeMs?: number;
+}
+
+/**
+ * Stores what a swarm delivered for a job (replacing any earlier result for it). Read endpoints
+ * and CLIs use these rows rather than BullMQ return values, which vanish with Redis.
+ */
+async function recordJobResult(
+  jobId: string,
+  swarmId: string,
+  started: number,
+  ttcSec: number,
+  outcome: JobOutcomeRecord
+) {
+  const { members } = outcome;
+  const data = {
+    swarmId,
+    ok: outcome.ok,
+    artifact: outcome.artifact,
+    feedback: outcome.feedback ?? null,
+    members: JSON.stringify(members),
+    stepsUsed: members.reduce((sum, m) => sum + m.stepsUsed, 0),
+    toolsUsed: members.some((m) => m.toolsUsed),
+    newToolsCreated: members.some((m) => m.newToolsCreated),
+    selectedTool: members.find((m) => m.selectedTool)?.selectedTool ?? null,
+    builderRationale: members.find((m) => m.builderRationale)?.builderRationale ?? null,
+    error: outcome.error ?? null,
+    ttcSec,
+    gradeMs: outcome.gradeMs ?? null,
+    startedAt: new Date(started),
+    completedAt: new Date(),
+  };
+
+  try {
+    return await prisma.jobResult.upsert({
+      where: { jobId },
+      create: { jobId, ...data },
+      update: data,
+    });
+  } catch (error) {
+    logError(`[workers] Failed to store result of job ${jobId}:`, error);
+    return null;
+  }
+}
+
+let calibrationCases: CalibrationCase[] | null = null;
+let latestCalibration: { ts: string; judges: DriftReport[] } | null = null;
+
+/**
+ * Grades the calibration set with every judge and reports drift from the first run
+ */
+async function calibrateGraders() {
+  if (!calibrationCases) {
+    if (!(await fs.pathExists(GRADER_CALIBRATION_FILE))) {
+      log(`[grader] No calibration set at ${GRADER_CALIBRATION_FILE}, skipping calibration`);
+      return;
+    }
+    calibrationCases = await loadCalibrationSet(GRADER_CALIBRATION_FILE);
+  }
+
+  const reports = await gradingPanel.calibrate(calibrationCases, cfg.GRADER_DRIFT_THRESHOLD);
+  const ts = new Date().toISOString();
+  latestCalibration = { ts, judges: reports };
+
+  if (!fs.existsSync(GRADER_CALIBRATION_CSV)) {
+    fs.writeFileSync(
+      GRADER_CALIBRATION_CSV,
+      'ts,judge,cases,accuracy,bias,meanAbsError,baselineBias,drifted\n'
+    );
+  }
+  for (const r of reports) {
+    fs.appendFileSync(
+      GRADER_CALIBRATION_CSV,
+      `${ts},${r.judge},${r.cases},${r.accuracy.toFixed(3)},${r.bias.toFixed(1)},${r.meanAbsError.toFixed(1)},${r.baselineBias.toFixed(1)},${r.drifted ? 1 : 0}\n`
+    );
+    if (r.drifted) {
+      log(
+        `[grader] ⚠️ Judge ${r.judge} drifted: bias ${r.baselineBias.toFixed(1)} -> ${r.bias.toFixed(1)}, accuracy ${(r.baselineAccuracy * 100).toFixed(0)}% -> ${(r.accuracy * 100).toFixed(0)}%`
+      );
+    }
+  }
+  log(
+    `[grader] Calibrated ${reports.length - 1} judges on ${calibrationCases.length} reference answers`
+  );
+}
+
+/**
+ * Grades suite jobs with their programmatic checker (quality = checker score x100).
+ * With SUITE_GRADING=both the LLM grader must pass too and the quality scores are averaged.
+ */
+async function gradeSuiteJob(
+  ref: SuiteTaskRef,
+  jobPrompt: string,
+  artifact: string,
+  rubric?: Rubric
+): Promise<JobGrade> {
+  const task = suiteRegistry.find(ref);
+  if (!task) throw new Error(`Suite task ${ref.suite}@${ref.version}/${ref.taskId} not loaded`);
+
+  const check = runChecker(artifact, task.expected, task.checker);
+  log(
+    `[grader] Suite ${ref.suite}/${ref.taskId} ${task.checker.type} check ${check.passed ? 'passed' : 'failed'}: ${check.detail}`
+  );
+  const checkerQuality = Math.round(check.score * 100);
+  if (cfg.SUITE_GRADING === 'checker') {
+    return { passed: check.passed, qualityScore: checkerQuality, feedback: check.detail };
+  }
+
+  const llmGrade = await gradeWithLLM(jobPrompt, artifact, rubric);
+  return {
+    ...llmGrade,
+    passed: check.passed && llmGrade.passed,
+    qualityScore: Math.round((checkerQuality + (llmGrade.qualityScore ?? checkerQuality)) / 2),
+  };
+}
+
 async function startAgentWorkers() {
   log('[workers] Starting swarm workers...');
 
@@ -2559,320 +3931,952 @@ async function startAgentWorkers() {
     const swarms = await prisma.swarm.findMany({ where: { alive: true } });
     log(`[workers] Found ${swarms.length} alive swarms`);
 
-    for (let i = 0; i < swarms.length; i++) {
-      const swarm = swarms[i];
+    let started = 0;
+    for (const swarm of swarms) {
+      if (swarmWorkers.has(swarm.id)) continue;
 
       // Add delay between worker creation to prevent server overload
-      if (i > 0) {
+      if (started > 0) {
         await new Promise((resolve) => setTimeout(resolve, 100)); // 100ms delay
       }
 
-      // Get agents for this swarm to determine archetypes and create agent instances
-      const swarmAgents = await prisma.agentState.findMany({
-        where: { swarmId: swarm.id, alive: true },
-      });
+      await startSwarmWorker(swarm);
+      started++;
+    }
 
-      const swarmArchetypes = swarmAgents.map((a: any) => a.archetype);
+    log(`[workers] Started ${started} swarm workers (${swarmWorkers.size} running)`);
+  } catch (error) {
+    logError('[workers] Error in startAgentWorkers:', error);
+    throw error; // Re-throw to be caught by startSystemProcesses
+  }
+}
 
-      // Create actual agent instances for each database agent
-      const agentInstances: any[] = [];
-      for (const dbAgent of swarmAgents) {
-        let agentInstance;
-        if (dbAgent.archetype === 'tool-builder') {
-          agentInstance = new ToolBuilderAgent(dbAgent.id);
-        } else {
-          agentInstance = createAgentForBlueprint(dbAgent.id, dbAgent.archetype);
-        }
+/**
+ * Debits the energy a job consumed (LLM tokens, tool executions, web calls) as separate
+ * metabolism ledger entries, whether the job succeeded or not
+ */
+async function chargeMetabolism(swarmId: string, jobId: string, meter: MetabolismMeter) {
+  const { usage } = meter;
+  const costs: Array<[string, number]> = [
+    [
+      'metabolism:llm',
+      Math.round((meter.totalTokens() / 1000) * cfg.METABOLISM_LLM_COST_PER_1K_TOKENS),
+    ],
+    ['metabolism:tool', Math.round(usage.toolCalls * cfg.METABOLISM_TOOL_COST)],
+    ['metabolism:web', Math.round(usage.webCalls * cfg.BROWSER_STEP_COST)],
+  ];
 
-        // Add metadata to match the agent instance with the database record
-        agentInstance.id = dbAgent.id;
-        agentInstance.name = dbAgent.name || `Agent ${dbAgent.id}`;
-        agentInstance.archetype = dbAgent.archetype;
+  let total = 0;
+  for (const [reason, cost] of costs) {
+    if (cost <= 0) continue;
+    await prisma.ledger.create({ data: { swarmId, jobId, delta: -cost, reason } });
+    total += cost;
+  }
+  if (total > 0) {
+    await prisma.swarm.update({
+      where: { id: swarmId },
+      data: { balance: { decrement: total } },
+    });
+  }
 
-        agentInstances.push(agentInstance);
-      }
+  const tokens = Object.entries(usage.llm)
+    .map(([component, u]) => `${component}=${u.inputTokens + u.outputTokens}`)
+    .join(' ');
+  log(
+    `[metabolism] Swarm ${swarmId} job ${jobId}: -${total} (tokens: ${tokens || 'none'}, tools: ${usage.toolCalls}, web: ${usage.webCalls})`
+  );
+}
 
-      // Create swarm config with the loaded agent instances
-      const swarmConfig: SwarmConfig = {
-        id: swarm.id,
-        name: swarm.name,
-        description: swarm.description || undefined,
-        agentTypes: swarmArchetypes as any[],
-        agentCount: swarmAgents.length,
-        existingAgents: agentInstances,
-      };
+const deadlineParams: DeadlineParams = {
+  graceFraction: cfg.JOB_DEADLINE_GRACE_FRACTION,
+  decay: cfg.JOB_LATE_PAYOUT_DECAY,
+  floor: cfg.JOB_LATE_PAYOUT_FLOOR,
+};
 
-      const worker = new Worker(
-        'jobs',
-        async (job: any) => {
-          const started = Date.now();
+const reputationParams: ReputationParams = {
+  alpha: cfg.REPUTATION_ALPHA,
+  halfLifeHours: cfg.REPUTATION_HALF_LIFE_HOURS,
+  streakPenalty: cfg.REPUTATION_STREAK_PENALTY,
+  maxStreak: 5,
+};
 
-          // Check if system is paused
-          if (systemState.status !== 'running') {
-            log(`[Worker] Skipping job ${job.data.dbJobId} - system is paused`);
-            throw new Error('System is paused');
-          }
+/**
+ * Books one finished job on the swarm. The mean time to completion is folded into the current
+ * row rather than the snapshot the worker started with.
+ */
+async function recordAttempt(swarmId: string, delta: number, won: boolean, ttcSec: number) {
+  const current = await prisma.swarm.findUnique({ where: { id: swarmId } });
+  const attempts = current?.attempts ?? 0;
+  await prisma.swarm.update({
+    where: { id: swarmId },
+    data: {
+      balance: { increment: delta },
+      attempts: { increment: 1 },
+      wins: { increment: won ? 1 : 0 },
+      meanTtcSec: Math.floor(((current?.meanTtcSec ?? 0) * attempts + ttcSec) / (attempts + 1)),
+    },
+  });
+}
 
-          // Create SwarmAgent to handle the job
-          const swarmAgent = createSwarmAgent(swarmConfig);
-          log(`[Worker] Swarm ${swarm.id} processing job ${job.data.dbJobId}`);
+// Reputation scales what a win is worth: x1 at neutral, x(1 ± REPUTATION_PAYOUT_WEIGHT) at the extremes
+async function reputationPayout(swarmId: string, payout: number): Promise<number> {
+  const swarm = await prisma.swarm.findUnique({ where: { id: swarmId } });
+  const reputation = swarm?.reputation ?? NEUTRAL_REPUTATION;
+  return Math.round(payout * reputationPayoutMultiplier(reputation, cfg.REPUTATION_PAYOUT_WEIGHT));
+}
 
-          try {
-            const result = await swarmAgent.invoke({
-              category: job.data.category || 'general',
-              payload: job.data.payload,
-              payout: job.data.payout,
-              deadlineS: job.data.deadlineS,
-            });
+/**
+ * Decays a swarm's reputation for the time since its last update, folds in the graded outcome
+ * and applies the same step to its agents. Each swarm change is written to ReputationEvent.
+ */
+async function applyReputation(swarmId: string, jobId: string, outcome: JobOutcome) {
+  const swarm = await prisma.swarm.findUnique({ where: { id: swarmId } });
+  if (!swarm) return;
+
+  const now = new Date();
+  const since = (swarm.reputationAt ?? swarm.createdAt).getTime();
+  const decayed = decayReputation(
+    swarm.reputation,
+    now.getTime() - since,
+    reputationParams.halfLifeHours
+  );
+  const update = updateReputation(decayed, swarm.failStreak, outcome, reputationParams);
 
-            // First check if the swarm execution succeeded
-            const agentSucceeded = true; // SwarmAgent throws on failure
-
-            // Only grade the artifact if the swarm actually succeeded
-            let gradeResult: { passed: boolean; qualityScore?: number } = { passed: false };
-            let gradingFailed = false;
-
-            if (agentSucceeded) {
-              try {
-                // Extract job prompt for grading context
-                const jobPrompt =
-                  typeof job.data.payload === 'string'
-                    ? job.data.payload
-                    : job.data.payload.prompt || JSON.stringify(job.data.payload);
-
-                gradeResult = await gradeWithLLM(jobPrompt, result);
-              } catch (error) {
-                logError(`[workers] Grading failed for job ${job.data.dbJobId}:`, error);
-                gradingFailed = true;
-              }
-            }
+  await prisma.swarm.update({
+    where: { id: swarmId },
+    data: { reputation: update.reputation, failStreak: update.failStreak, reputationAt: now },
+  });
+  await prisma.reputationEvent.create({
+    data: {
+      swarmId,
+      jobId,
+      kind: 'job',
+      before: swarm.reputation,
+      after: update.reputation,
+      qualityScore: outcome.qualityScore != null ? Math.round(outcome.qualityScore) : null,
+      deadlineScore: update.deadlineScore,
+      failStreak: update.failStreak,
+    },
+  });
 
-            // The job is successful only if swarm execution succeeded, grading succeeded, and grade passed
-            const jobSucceeded = agentSucceeded && !gradingFailed && gradeResult.passed;
-
-            const delta = jobSucceeded ? job.data.payout : -FAIL_PENALTY;
-            await prisma.ledger.create({
-              data: {
-                swarmId: swarm.id, // Use swarmId instead of agentId
-                jobId: job.data.dbJobId,
-                delta,
-                reason: jobSucceeded ? 'payout' : 'fail',
-                qualityGrade: gradeResult.qualityScore || null,
-              },
-            });
+  // Members share the swarm's outcome (no streak penalty at agent level)
+  const agents = await prisma.agentState.findMany({ where: { swarmId, alive: true } });
+  for (const agent of agents) {
+    const next = updateReputation(agent.reputation, 0, outcome, {
+      ...reputationParams,
+      streakPenalty: 0,
+    });
+    await prisma.agentState.update({
+      where: { id: agent.id },
+      data: { reputation: next.reputation },
+    });
+  }
+}
 
-            const ttc = Math.floor((Date.now() - started) / 1000);
-            await prisma.swarm.update({
-              where: { id: swarm.id },
-              data: {
-                balance: { increment: delta },
-                attempts: { increment: 1 },
-                wins: { increment: jobSucceeded ? 1 : 0 },
-                meanTtcSec: Math.floor(
-                  (swarm.meanTtcSec * swarm.attempts + ttc) / (swarm.attempts + 1)
+// Idle swarms drift back toward neutral reputation; runs every epoch
+async function decayReputations(swarms: any[]) {
+  const now = new Date();
+  for (const swarm of swarms) {
+    const since = (swarm.reputationAt ?? swarm.createdAt).getTime();
+    const after = decayReputation(
+      swarm.reputation,
+      now.getTime() - since,
+      reputationParams.halfLifeHours
+    );
+    if (Math.abs(after - swarm.reputation) < 0.001) continue;
+
+    await prisma.swarm.update({
+      where: { id: swarm.id },
+      data: { reputation: after, reputationAt: now },
+    });
+    await prisma.reputationEvent.create({
+      data: {
+        swarmId: swarm.id,
+        kind: 'decay',
+        before: swarm.reputation,
+        after,
+        failStreak: swarm.failStreak,
+      },
+    });
+    swarm.reputation = after;
+  }
+}
+
+async function startSwarmWorker(swarm: any) {
+  // Get agents for this swarm to determine archetypes and create agent instances
+  const swarmAgents = await prisma.agentState.findMany({
+    where: { swarmId: swarm.id, alive: true },
+  });
+
+  const swarmArchetypes = swarmAgents.map((a: any) => a.archetype);
+  const traits = expressGenome(normalizeGenome(swarm.genome, genomeSchema));
+
+  // Create actual agent instances for each database agent
+  const agentInstances: any[] = [];
+  for (const dbAgent of swarmAgents) {
+    let agentInstance;
+    if (dbAgent.archetype === 'tool-builder') {
+      agentInstance = new ToolBuilderAgent(dbAgent.id, traits);
+    } else {
+      agentInstance = createAgentForBlueprint(dbAgent.id, dbAgent.archetype, traits);
+    }
+
+    // Add metadata to match the agent instance with the database record
+    agentInstance.id = dbAgent.id;
+    agentInstance.name = dbAgent.name || `Agent ${dbAgent.id}`;
+    agentInstance.archetype = dbAgent.archetype;
+
+    agentInstances.push(agentInstance);
+  }
+
+  // Create swarm config with the loaded agent instances
+  const swarmConfig: SwarmConfig = {
+    id: swarm.id,
+    name: swarm.name,
+    description: swarm.description || undefined,
+    agentTypes: swarmArchetypes as any[],
+    agentCount: swarmAgents.length,
+    existingAgents: agentInstances,
+    traits,
+  };
+
+  const worker = new Worker(
+    jobQueueName(swarm.id),
+    async (job: any) => {
+      const started = Date.now();
+
+      // Check if system is paused
+      if (systemState.status !== 'running') {
+        log(`[Worker] Skipping job ${job.data.dbJobId} - system is paused`);
+        throw new Error('System is paused');
+      }
+
+      // Create SwarmAgent to handle the job
+      const swarmAgent = createSwarmAgent(swarmConfig);
+      const meter = new MetabolismMeter(swarm.id);
+      const deadlineS: number = job.data.deadlineS;
+      log(`[Worker] Swarm ${swarm.id} processing job ${job.data.dbJobId}`);
+
+      // Hard cancel once the grace window after the deadline has passed
+      const deadline = new AbortController();
+      const hardCancel =
+        deadlineS > 0
+          ? setTimeout(
+              () =>
+                deadline.abort(
+                  new DeadlineExceededError(deadlineS, Math.floor((Date.now() - started) / 1000))
                 ),
-              },
-            });
+              hardCancelMs(deadlineS, deadlineParams.graceFraction)
+            )
+          : undefined;
+
+      const tracer = new JobTracer(job.data.dbJobId, {
+        swarmId: swarm.id,
+        swarm: swarm.name,
+        category: job.data.category,
+        deadlineS,
+      });
 
-            // Clean up excessive whitespace to prevent storage issues
-            let artifact = result;
-            if (typeof result === 'string') {
-              const originalLength = result.length;
-
-              // First handle excessive spaces within lines
-              artifact = result.replace(/ {100,}/g, ' '); // Replace 100+ spaces with single space
-
-              // Then handle line-level whitespace
-              artifact = artifact
-                .split('\n')
-                .map((line) => line.trim()) // Trim whitespace from each line
-                .filter((line) => line.length > 0 || artifact.includes('\n\n')) // Keep empty lines only if there are paragraph breaks
-                .join('\n')
-                .replace(/\n{3,}/g, '\n\n') // Replace 3+ newlines with just 2
-                .trim(); // Remove leading/trailing whitespace
-
-              if (originalLength > 100000 && artifact.length < originalLength / 2) {
-                log(
-                  `[Worker] Cleaned swarm result whitespace: ${originalLength} -> ${artifact.length} chars`
-                );
-              }
-
-              // Only truncate if still too large after cleanup
-              if (artifact.length > 100000) {
-                artifact = artifact.substring(0, 100000) + '\n... [truncated due to size]';
-                log(
-                  `[Worker] Swarm result still too large after cleanup (${artifact.length} chars), truncating`
-                );
-              }
-            }
+      try {
+        const swarmRun = await tracer.run(() =>
+          meter.run(() =>
+            withSpan('SwarmAgent.run', 'swarm', () =>
+              swarmAgent.run(
+                {
+                  category: job.data.category,
+                  payload: job.data.payload,
+                  payout: job.data.payout,
+                  deadlineS,
+                },
+                { signal: deadline.signal }
+              )
+            )
+          )
+        );
+        clearTimeout(hardCancel);
+        const result = swarmRun.artifact;
+
+        // Time to delivery; grading time is not the swarm's
+        const ttc = Math.floor((Date.now() - started) / 1000);
+        const gradingStarted = Date.now();
 
-            return {
-              ok: jobSucceeded,
-              artifact,
-              toolsUsed: true, // Swarms use tools
-              newToolsCreated: false, // Track if needed
-              stepsUsed: 0, // Track if needed
-              selectedTool: null,
-              builderRationale: null,
-              executionArgs: null,
-              toolOutputSnippet: null,
-              summarySource: null,
-              totalToolsAvailable: null,
-            };
+        // First check if the swarm execution succeeded
+        const agentSucceeded = true; // SwarmAgent throws on failure
+
+        // Only grade the artifact if the swarm actually succeeded
+        const rubric = cfg.GRADING_RUBRICS[job.data.category as JobCategory] ?? defaultRubric();
+        let gradeResult: JobGrade = { passed: false };
+        let gradingFailed = false;
+
+        if (agentSucceeded) {
+          try {
+            // Extract job prompt for grading context
+            const jobPrompt =
+              typeof job.data.payload === 'string'
+                ? job.data.payload
+                : job.data.payload.prompt || JSON.stringify(job.data.payload);
+
+            gradeResult = await tracer.run(() =>
+              withSpan(
+                'grading',
+                'grading',
+                () =>
+                  job.data.payload?.suite
+                    ? gradeSuiteJob(job.data.payload.suite, jobPrompt, result, rubric)
+                    : gradeWithLLM(jobPrompt, result, rubric),
+                { input: result }
+              )
+            );
           } catch (error) {
-            logError(`[Worker] Swarm ${swarm.id} failed on job ${job.data.dbJobId}:`, error);
-
-            // Record failure
-            const delta = -FAIL_PENALTY;
-            await prisma.ledger.create({
-              data: {
-                swarmId: swarm.id,
-                jobId: job.data.dbJobId,
-                delta,
-                reason: 'fail',
-                qualityGrade: null,
-              },
-            });
+            logError(`[workers] Grading failed for job ${job.data.dbJobId}:`, error);
+            gradingFailed = true;
+          }
+        }
 
-            const ttc = Math.floor((Date.now() - started) / 1000);
-            await prisma.swarm.update({
-              where: { id: swarm.id },
-              data: {
-                balance: { increment: delta },
-                attempts: { increment: 1 },
-                meanTtcSec: Math.floor(
-                  (swarm.meanTtcSec * swarm.attempts + ttc) / (swarm.attempts + 1)
-                ),
-              },
-            });
+        // The job is successful only if swarm execution succeeded, grading succeeded, and grade passed
+        const jobSucceeded = agentSucceeded && !gradingFailed && gradeResult.passed;
+        const gradeMs = Date.now() - gradingStarted;
 
-            return {
-              ok: false,
-              artifact: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-              toolsUsed: false,
-              newToolsCreated: false,
-              stepsUsed: 0,
-              selectedTool: null,
-              builderRationale: null,
-              executionArgs: null,
-              toolOutputSnippet: null,
-              summarySource: null,
-              totalToolsAvailable: null,
-            };
+        const lateMultiplier = latePayoutMultiplier(ttc, deadlineS, deadlineParams);
+        if (jobSucceeded && lateMultiplier < 1) {
+          log(
+            `[Worker] Swarm ${swarm.id} delivered job ${job.data.dbJobId} late (${ttc}s of ${deadlineS}s), payout x${lateMultiplier.toFixed(2)}`
+          );
+        }
+        const delta = jobSucceeded
+          ? Math.round((await reputationPayout(swarm.id, job.data.payout)) * lateMultiplier)
+          : -FAIL_PENALTY;
+        const ledgerEntry = await prisma.ledger.create({
+          data: {
+            swarmId: swarm.id, // Use swarmId instead of agentId
+            jobId: job.data.dbJobId,
+            delta,
+            reason: jobSucceeded ? 'payout' : 'fail',
+            qualityGrade: gradeResult.qualityScore || null,
+            category: job.data.category,
+            difficulty: job.data.difficulty ?? null,
+            ...panelLedgerFields(gradeResult),
+          },
+        });
+        if (jobSucceeded) {
+          await recordCriterionGrades(
+            ledgerEntry.id,
+            job.data.dbJobId,
+            swarm.id,
+            job.data.category,
+            gradeResult,
+            rubric
+          );
+        }
+
+        await recordAttempt(swarm.id, delta, jobSucceeded, ttc);
+        await chargeMetabolism(swarm.id, job.data.dbJobId, meter);
+        await applyReputation(swarm.id, job.data.dbJobId, {
+          passed: jobSucceeded,
+          qualityScore: gradeResult.qualityScore,
+          ttcSec: ttc,
+          deadlineS,
+        });
+
+        // Clean up excessive whitespace to prevent storage issues
+        let artifact = result;
+        if (typeof result === 'string') {
+          const originalLength = result.length;
+
+          // First handle excessive spaces within lines
+          artifact = result.replace(/ {100,}/g, ' '); // Replace 100+ spaces with single space
+
+          // Then handle line-level whitespace
+          artifact = artifact
+            .split('\n')
+            .map((line) => line.trim()) // Trim whitespace from each line
+            .filter((line) => line.length > 0 || artifact.includes('\n\n')) // Keep empty lines only if there are paragraph breaks
+            .join('\n')
+            .replace(/\n{3,}/g, '\n\n') // Replace 3+ newlines with just 2
+            .trim(); // Remove leading/trailing whitespace
+
+          if (originalLength > 100000 && artifact.length < originalLength / 2) {
+            log(
+              `[Worker] Cleaned swarm result whitespace: ${originalLength} -> ${artifact.length} chars`
+            );
+          }
+
+          // Only truncate if still too large after cleanup
+          if (artifact.length > 100000) {
+            artifact = artifact.substring(0, 100000) + '\n... [truncated due to size]';
+            log(
+              `[Worker] Swarm result still too large after cleanup (${artifact.length} chars), truncating`
+            );
           }
-        },
-        {
-          connection: redis,
-          concurrency: 1, // One job per swarm at a time for now
         }
-      );
 
-      agentWorkers.push(worker);
+        const stored = await recordJobResult(job.data.dbJobId, swarm.id, started, ttc, {
+          ok: jobSucceeded,
+          artifact,
+          members: swarmRun.members,
+          feedback: gradeResult.feedback,
+          error: gradingFailed ? 'Grading failed' : undefined,
+          gradeMs,
+        });
+        await saveTrace(tracer, job.data.dbJobId);
+        recordJobMetrics({
+          category: job.data.category,
+          outcome: jobSucceeded ? 'payout' : 'fail',
+          durationMs: Date.now() - started,
+          gradeMs,
+        });
+
+        return {
+          ok: jobSucceeded,
+          artifact,
+          toolsUsed: stored?.toolsUsed ?? false,
+          newToolsCreated: stored?.newToolsCreated ?? false,
+          stepsUsed: stored?.stepsUsed ?? 0,
+          selectedTool: stored?.selectedTool ?? null,
+          builderRationale: stored?.builderRationale ?? null,
+          executionArgs: null,
+          toolOutputSnippet: null,
+          summarySource: null,
+          totalToolsAvailable: null,
+        };
+      } catch (error) {
+        clearTimeout(hardCancel);
+        if (error instanceof DeadlineExceededError) {
+          log(`[Worker] Swarm ${swarm.id} cancelled on job ${job.data.dbJobId}: ${error.message}`);
+        } else {
+          logError(`[Worker] Swarm ${swarm.id} failed on job ${job.data.dbJobId}:`, error);
+        }
+
+        // Record failure
+        const delta = -FAIL_PENALTY;
+        await prisma.ledger.create({
+          data: {
+            swarmId: swarm.id,
+            jobId: job.data.dbJobId,
+            delta,
+            reason: 'fail',
+            qualityGrade: null,
+            category: job.data.category,
+            difficulty: job.data.difficulty ?? null,
+          },
+        });
+
+        const ttc = Math.floor((Date.now() - started) / 1000);
+        await recordAttempt(swarm.id, delta, false, ttc);
+        await chargeMetabolism(swarm.id, job.data.dbJobId, meter);
+        await applyReputation(swarm.id, job.data.dbJobId, {
+          passed: false,
+          ttcSec: ttc,
+          deadlineS,
+        });
+
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        await recordJobResult(job.data.dbJobId, swarm.id, started, ttc, {
+          ok: false,
+          artifact: `Error: ${message}`,
+          members: [],
+          error: message,
+        });
+        await saveTrace(tracer, job.data.dbJobId, error);
+        recordJobMetrics({
+          category: job.data.category,
+          outcome: error instanceof DeadlineExceededError ? 'cancelled' : 'error',
+          durationMs: Date.now() - started,
+        });
+
+        return {
+          ok: false,
+          artifact: `Error: ${message}`,
+          toolsUsed: false,
+          newToolsCreated: false,
+          stepsUsed: 0,
+          selectedTool: null,
+          builderRationale: null,
+          executionArgs: null,
+          toolOutputSnippet: null,
+          summarySource: null,
+          totalToolsAvailable: null,
+        };
+      }
+    },
+    {
+      connection: redis,
+      concurrency: 1, // One job per swarm at a time for now
     }
+  );
+
+  swarmWorkers.set(swarm.id, worker);
+}
+
+// Drops a dead swarm's queue; jobs it won but never finished go back to the market
+async function dropSwarmQueue(swarmId: string) {
+  const { count } = await prisma.job.updateMany({
+    where: { swarmId, result: null },
+    data: { swarmId: null },
+  });
+  if (count) log(`[market] ${count} unfinished job(s) of swarm ${swarmId} returned for re-auction`);
+
+  const queue = swarmQueues.get(swarmId);
+  if (!queue) return;
 
-    log(`[workers] Started ${swarms.length} swarm workers`);
+  swarmQueues.delete(swarmId);
+  try {
+    await queue.obliterate({ force: true });
+    await queue.close();
   } catch (error) {
-    logError('[workers] Error in startAgentWorkers:', error);
-    throw error; // Re-throw to be caught by startSystemProcesses
+    logError(`[System] Error dropping queue for swarm ${swarmId}:`, error);
   }
 }
 
-async function epochTick() {
-  const states = await prisma.agentState.findMany({ where: { alive: true } });
-  const balances = states.map((s: any) => s.balance);
-  const g = gini(balances);
-  const share5 = topKShare(balances, 5);
-  const ts = new Date().toISOString();
+async function stopSwarmWorker(swarmId: string) {
+  const worker = swarmWorkers.get(swarmId);
+  if (!worker) return;
 
+  swarmWorkers.delete(swarmId);
+  try {
+    await worker.close();
+  } catch (error) {
+    logError(`[System] Error closing worker for swarm ${swarmId}:`, error);
+  }
+}
+
+// Archetypes a swarm member can mutate into during reproduction
+const SWARM_ARCHETYPES = ['tool-builder', 'llm-only', 'web-browser', 'wikipedia', 'google-trends'];
+const selectionStrategy = createSelectionStrategy(cfg.SELECTION_STRATEGY, {
+  fraction: cfg.SWARM_CULL_FRACTION,
+  ...cfg.SELECTION_PARAMS,
+});
+const genomeSchema = createSwarmGenomeSchema({
+  models: cfg.GENOME_MODELS,
+  mutationRate: cfg.SWARM_MUTATION_RATE,
+  toolBuilderStrict: !['0', 'false', 'off'].includes(
+    (process.env.TOOL_BUILDER_STRICT_MODE || 'true').toLowerCase()
+  ),
+});
+
+interface ArchetypeMutation {
+  slot: number;
+  from: string;
+  to: string;
+}
+
+interface ArchetypeCrossover {
+  slot: number;
+  from: string; // Parent swarm that contributed this slot
+  agentId: string; // Donor agent in that parent
+  archetype: string;
+}
+
+function recordPopulationEvent(
+  event: 'birth' | 'death',
+  swarm: { id: string; parentId?: string | null; generation?: number; balance: number },
+  detail: string
+) {
   fs.appendFileSync(
-    path.join(METRICS_DIR, 'inequality.csv'),
-    `${ts},${g.toFixed(4)},${share5.toFixed(4)}\n`
+    POPULATION_CSV,
+    `${new Date().toISOString()},${event},${swarm.id},${swarm.parentId ?? ''},${swarm.generation ?? 0},${swarm.balance},"${detail.replace(/"/g, '""')}"\n`
   );
+}
 
-  // reproduce
-  const bps = await prisma.blueprint.findMany();
-  // Get current agent names for logging
-  const currentAgents = await prisma.agentState.findMany({
-    where: { alive: true },
-    select: { id: true, name: true },
+function mutateArchetypes(
+  parentArchetypes: string[],
+  rate: number
+): {
+  archetypes: string[];
+  mutations: ArchetypeMutation[];
+} {
+  const mutations: ArchetypeMutation[] = [];
+  const archetypes = parentArchetypes.map((archetype, slot) => {
+    if (evolutionRandom() >= rate) return archetype;
+
+    const options = SWARM_ARCHETYPES.filter((a) => a !== archetype);
+    const to = options[Math.floor(evolutionRandom() * options.length)];
+    mutations.push({ slot, from: archetype, to });
+    return to;
   });
-  const currentAgentNameMap = new Map(currentAgents.map((a: any) => [a.id, a.name]));
-
-  for (const s of states) {
-    const bp = bps.find((b: any) => b.id === s.blueprintId)!;
-    if (s.balance >= bp.minBalance) {
-      const newTemp = [0.1, 0.3, 0.5][Math.floor(Math.random() * 3)];
-      const toolsSet = new Set(bp.tools.split(',').filter(Boolean));
-      const opts = ['browser', 'retrieval', 'stringKit', 'calc'];
-      const t = opts[Math.floor(Math.random() * opts.length)];
-      if (toolsSet.has(t)) toolsSet.delete(t);
-      else toolsSet.add(t);
-
-      // Archetype mutation during reproduction (using tool names)
-      const archetypes = ['wikipedia', 'llm-only', 'web-browser', 'google-trends'];
-      const mutatedArchetype =
-        Math.random() < 0.1 // 10% chance of archetype mutation
-          ? archetypes[Math.floor(Math.random() * archetypes.length)]
-          : bp.archetype; // Keep parent's archetype 90% of the time
-
-      const child = await prisma.blueprint.create({
-        data: {
-          version: bp.version + 1,
-          llmModel: bp.llmModel,
-          temperature: newTemp,
-          tools: Array.from(toolsSet).join(','),
-          archetype: mutatedArchetype, // Phase 5: Include archetype with mutation
-          coopThreshold: bp.coopThreshold,
-          minBalance: bp.minBalance,
-          mutationRate: bp.mutationRate,
-          maxOffspring: bp.maxOffspring,
-        },
-      });
 
-      // Generate a name for the offspring
-      let offspringName: string;
+  return { archetypes, mutations };
+}
+
+/**
+ * Uniform crossover of two parents' members: each slot comes from either parent at random.
+ * The child takes one parent's member count.
+ */
+function crossoverArchetypes(
+  a: { id: string; agents: any[] },
+  b: { id: string; agents: any[] }
+): ArchetypeCrossover[] {
+  const length = evolutionRandom() < 0.5 ? a.agents.length : b.agents.length;
+  const slots: ArchetypeCrossover[] = [];
+  for (let slot = 0; slot < length; slot++) {
+    const donors = [a, b].filter((p) => p.agents[slot]);
+    const donor = donors[Math.floor(evolutionRandom() * donors.length)];
+    const agent = donor.agents[slot];
+    slots.push({ slot, from: donor.id, agentId: agent.id, archetype: agent.archetype });
+  }
+  return slots;
+}
+
+async function generateSwarmName(fallback: string, context: string): Promise<string> {
+  try {
+    const names = await nameGenerator.generateNames([
+      { archetype: 'swarm', temperature: 0.7, tools: [] },
+    ]);
+    return names[0].fullName;
+  } catch (error) {
+    logError(`[${context}] Failed to generate swarm name:`, error);
+    return fallback;
+  }
+}
+
+async function chargeReproduction(parentId: string, cost: number) {
+  await prisma.ledger.create({
+    data: { swarmId: parentId, delta: -cost, reason: 'reproduction' },
+  });
+  await prisma.swarm.update({
+    where: { id: parentId },
+    data: { balance: { decrement: cost } },
+  });
+}
+
+async function spawnChildSwarm(parent: any) {
+  const cost = cfg.SWARM_REPRO_COST;
+  const generation = parent.generation + 1;
+
+  const parentAgents = await prisma.agentState.findMany({
+    where: { swarmId: parent.id, alive: true },
+    orderBy: { id: 'asc' },
+  });
+  // The parent's own mutationRate gene drives both archetype and gene mutation
+  const parentGenome = normalizeGenome(parent.genome, genomeSchema);
+  const rate = parentGenome.mutationRate as number;
+  const { archetypes, mutations } = mutateArchetypes(
+    parentAgents.map((a: any) => a.archetype).filter(Boolean),
+    rate
+  );
+  const { genome, mutations: geneMutations } = mutateGenome(
+    parentGenome,
+    genomeSchema,
+    rate,
+    evolutionRandom
+  );
+
+  const childName = await generateSwarmName(`Offspring of ${parent.name}`, 'reproduction');
+
+  const childId = `swarm_${Date.now()}_g${generation}_${Math.random().toString(36).substring(2, 6)}`;
+  const child = await prisma.swarm.create({
+    data: {
+      id: childId,
+      name: childName,
+      description: `Generation ${generation} offspring of ${parent.name} with archetypes: ${archetypes.join(', ')}`,
+      balance: cost, // Starting balance is transferred from the parent
+      reputation: 0.5,
+      parentId: parent.id,
+      generation,
+      genome: JSON.stringify(genome),
+    },
+  });
+  await createSwarmAgents(child.id, child.name, archetypes);
+
+  // Move the reproduction cost from parent to child
+  await chargeReproduction(parent.id, cost);
+  await prisma.ledger.create({ data: { swarmId: child.id, delta: cost, reason: 'inheritance' } });
+
+  recordPopulationEvent(
+    'birth',
+    child,
+    mutations.length + geneMutations.length > 0
+      ? JSON.stringify([...mutations, ...geneMutations])
+      : 'no mutation'
+  );
+  await lineageService.record({
+    entityType: 'swarm',
+    parentId: parent.id,
+    childId: child.id,
+    mutation: { archetypes, archetypeMutations: mutations, genome, geneMutations },
+  });
+  log(
+    `[reproduction] ${parent.name} spawned "${child.name}" (gen ${generation}, ${mutations.length + geneMutations.length} mutation(s))`
+  );
+
+  if (systemState.status === 'running') {
+    await startSwarmWorker(child);
+  }
+
+  return child;
+}
+
+async function reproduceSwarms(swarms: any[]): Promise<Set<string>> {
+  const born = new Set<string>();
+  let population = swarms.length;
+
+  // Richest swarms reproduce first so they win the race for population slots
+  const parents = [...swarms].sort((a: any, b: any) => b.balance - a.balance);
+  for (const parent of parents) {
+    let balance = parent.balance;
+    for (let k = 0; k < cfg.SWARM_MAX_OFFSPRING; k++) {
+      if (population >= cfg.SWARM_MAX_ALIVE) return born;
+      if (balance < cfg.SWARM_REPRO_MIN_BALANCE || balance < cfg.SWARM_REPRO_COST) break;
+
       try {
-        const names = await nameGenerator.generateNames([
-          {
-            archetype: mutatedArchetype,
-            temperature: newTemp,
-            tools: Array.from(toolsSet) as string[],
-          },
-        ]);
-        offspringName = names[0].fullName;
+        const child = await spawnChildSwarm({ ...parent, balance });
+        born.add(child.id);
+        balance -= cfg.SWARM_REPRO_COST;
+        population++;
       } catch (error) {
-        logError('[reproduction] Failed to generate name for offspring:', error);
-        offspringName = `Offspring of ${currentAgentNameMap.get(s.id) || s.id.substring(0, 8)}`;
+        logError(`[reproduction] Failed to spawn offspring for swarm ${parent.id}:`, error);
+        break;
       }
+    }
+  }
 
-      await prisma.agentState.create({
-        data: {
-          blueprintId: child.id,
-          name: offspringName,
-          balance: 5,
-          reputation: 0.5,
-          attempts: 0,
-          wins: 0,
-          meanTtcSec: 0,
-          alive: true,
-        },
-      });
+  return born;
+}
 
-      await prisma.agentState.update({
-        where: { id: s.id },
-        data: { balance: { decrement: 5 } },
-      });
+async function spawnCrossoverSwarm(a: any, b: any) {
+  const cost = cfg.SWARM_CROSSOVER_COST;
+  const generation = Math.max(a.generation, b.generation) + 1;
+
+  const [agentsA, agentsB] = await Promise.all(
+    [a, b].map((parent) =>
+      prisma.agentState.findMany({
+        where: { swarmId: parent.id, alive: true },
+        orderBy: { id: 'asc' },
+      })
+    )
+  );
+  const slots = crossoverArchetypes({ id: a.id, agents: agentsA }, { id: b.id, agents: agentsB });
+
+  // Genes are crossed first, then the child's own mutationRate gene applies on top
+  const crossed = crossoverGenomes(
+    normalizeGenome(a.genome, genomeSchema),
+    normalizeGenome(b.genome, genomeSchema),
+    genomeSchema,
+    evolutionRandom
+  );
+  const rate = crossed.mutationRate as number;
+  const { archetypes, mutations } = mutateArchetypes(
+    slots.map((s) => s.archetype),
+    rate
+  );
+  const { genome, mutations: geneMutations } = mutateGenome(
+    crossed,
+    genomeSchema,
+    rate,
+    evolutionRandom
+  );
+
+  const childName = await generateSwarmName(`Offspring of ${a.name} and ${b.name}`, 'crossover');
+  const childId = `swarm_${Date.now()}_g${generation}x_${Math.random().toString(36).substring(2, 6)}`;
+  const child = await prisma.swarm.create({
+    data: {
+      id: childId,
+      name: childName,
+      description: `Generation ${generation} crossover of ${a.name} and ${b.name} with archetypes: ${archetypes.join(', ')}`,
+      balance: cost * 2, // Both parents contribute to the starting balance
+      reputation: 0.5,
+      parentId: a.id, // Fitter parent; both parents are recorded in lineage
+      generation,
+      genome: JSON.stringify(genome),
+    },
+  });
+  const agentIds = await createSwarmAgents(child.id, child.name, archetypes);
+
+  for (const parent of [a, b]) {
+    await chargeReproduction(parent.id, cost);
+  }
+  await prisma.ledger.create({
+    data: { swarmId: child.id, delta: cost * 2, reason: 'inheritance' },
+  });
+
+  // Tool builders that stayed tool builders keep their donor agent's tool library
+  const inheritedTools: Record<string, string[]> = {};
+  if (cfg.SWARM_CROSSOVER_TOOLS) {
+    for (const s of slots) {
+      if (s.archetype !== 'tool-builder' || archetypes[s.slot] !== 'tool-builder') continue;
+      inheritedTools[agentIds[s.slot]] = await dynamicToolLoader.inheritTools(
+        s.agentId,
+        agentIds[s.slot]
+      );
     }
   }
 
-  // cull
-  const refreshed = await prisma.agentState.findMany({ where: { alive: true } });
-  const sorted = [...refreshed].sort((a: any, b: any) => a.balance - b.balance);
-  const cut = Math.max(1, Math.floor(sorted.length * 0.2));
-  const toCull = new Set(sorted.slice(0, cut).map((s: any) => s.id));
-  for (const s of refreshed) if (s.balance < 0) toCull.add(s.id);
-  for (const id of Array.from(toCull))
-    await prisma.agentState.update({ where: { id }, data: { alive: false } });
+  recordPopulationEvent(
+    'birth',
+    { ...child, parentId: `${a.id}+${b.id}` },
+    mutations.length + geneMutations.length > 0
+      ? JSON.stringify([...mutations, ...geneMutations])
+      : 'no mutation'
+  );
+  const mutation = {
+    origin: 'crossover',
+    parents: [a.id, b.id],
+    archetypes,
+    crossover: slots.map(({ slot, from, archetype }) => ({ slot, from, archetype })),
+    archetypeMutations: mutations,
+    genome,
+    geneMutations,
+    inheritedTools,
+  };
+  for (const parent of [a, b]) {
+    await lineageService.record({
+      entityType: 'swarm',
+      parentId: parent.id,
+      childId: child.id,
+      mutation,
+    });
+  }
+  log(
+    `[crossover] ${a.name} x ${b.name} spawned "${child.name}" (gen ${generation}, ${mutations.length + geneMutations.length} mutation(s))`
+  );
+
+  if (systemState.status === 'running') {
+    await startSwarmWorker(child);
+  }
+
+  return child;
+}
+
+async function crossoverSwarms(swarms: any[]): Promise<Set<string>> {
+  const born = new Set<string>();
+  let population = swarms.length;
+  const cost = cfg.SWARM_CROSSOVER_COST;
+
+  // Eligible swarms are paired by rank: 1st with 2nd, 3rd with 4th, ...
+  const eligible = swarms
+    .filter((s: any) => s.balance >= cfg.SWARM_REPRO_MIN_BALANCE && s.balance >= cost)
+    .sort((a: any, b: any) => b.balance - a.balance);
+
+  for (let i = 0; i + 1 < eligible.length; i += 2) {
+    const a = { ...eligible[i] };
+    const b = { ...eligible[i + 1] };
+    for (let k = 0; k < cfg.SWARM_MAX_OFFSPRING; k++) {
+      if (population >= cfg.SWARM_MAX_ALIVE) return born;
+      if (Math.min(a.balance, b.balance) < Math.max(cfg.SWARM_REPRO_MIN_BALANCE, cost)) break;
+
+      try {
+        const child = await spawnCrossoverSwarm(a, b);
+        born.add(child.id);
+        a.balance -= cost;
+        b.balance -= cost;
+        population++;
+      } catch (error) {
+        logError(`[crossover] Failed to cross swarms ${a.id} and ${b.id}:`, error);
+        break;
+      }
+    }
+  }
+
+  return born;
+}
+
+async function spawnImmigrantSwarm() {
+  const archetypes = Array.from(
+    { length: cfg.AGENTS_PER_SWARM },
+    () => SWARM_ARCHETYPES[Math.floor(evolutionRandom() * SWARM_ARCHETYPES.length)]
+  );
+  const genome: Genome = randomGenome(genomeSchema, evolutionRandom);
+
+  const name = await generateSwarmName(
+    `Immigrant Swarm ${Math.random().toString(36).substring(2, 6)}`,
+    'immigration'
+  );
+
+  const swarm = await prisma.swarm.create({
+    data: {
+      id: `swarm_${Date.now()}_imm_${Math.random().toString(36).substring(2, 6)}`,
+      name,
+      description: `Immigrant swarm with archetypes: ${archetypes.join(', ')}`,
+      balance: SWARM_START_BALANCE,
+      reputation: 0.5,
+      genome: JSON.stringify(genome),
+    },
+  });
+  await createSwarmAgents(swarm.id, swarm.name, archetypes);
+
+  recordPopulationEvent('birth', swarm, 'immigrant');
+  await lineageService.record({
+    entityType: 'swarm',
+    parentId: null,
+    childId: swarm.id,
+    mutation: { origin: 'immigrant', archetypes, genome },
+  });
+  log(`[immigration] Added immigrant swarm "${swarm.name}" (${archetypes.join(', ')})`);
+
+  if (systemState.status === 'running') {
+    await startSwarmWorker(swarm);
+  }
+}
+
+// Cull fitness: balance plus a reputation bonus of ±REPUTATION_FITNESS_WEIGHT at the extremes
+function swarmFitness(swarm: any): number {
+  return (
+    swarm.balance + cfg.REPUTATION_FITNESS_WEIGHT * (swarm.reputation - NEUTRAL_REPUTATION) * 2
+  );
+}
+
+async function cullSwarms(protectedIds: Set<string>) {
+  const alive = await prisma.swarm.findMany({ where: { alive: true } });
+  const byId = new Map<string, any>(alive.map((s: any) => [s.id, s]));
+
+  // Newborns are spared for their first epoch so they can earn before being judged
+  const candidates: SelectionCandidate[] = alive
+    .filter((s: any) => !protectedIds.has(s.id))
+    .map((s: any) => ({ id: s.id, fitness: swarmFitness(s), bornAt: s.createdAt }));
+
+  const { cull, reasons, immigrants } = selectionStrategy.select(candidates, {
+    now: new Date(),
+    epochMinutes: EPOCH_MINUTES,
+    random: evolutionRandom,
+  });
+
+  const maxDeaths = Math.max(0, alive.length - cfg.SWARM_MIN_ALIVE);
+  const victims = cull.slice(0, maxDeaths).map((id) => byId.get(id));
+
+  for (const swarm of victims) {
+    await prisma.swarm.update({
+      where: { id: swarm.id },
+      data: { alive: false, diedAt: new Date() },
+    });
+    await prisma.agentState.updateMany({ where: { swarmId: swarm.id }, data: { alive: false } });
+    await stopSwarmWorker(swarm.id);
+    await dropSwarmQueue(swarm.id);
+
+    recordPopulationEvent('death', swarm, `${selectionStrategy.name}: ${reasons[swarm.id]}`);
+    log(
+      `[cull] Swarm "${swarm.name}" died with balance ${swarm.balance} (${selectionStrategy.name}: ${reasons[swarm.id]})`
+    );
+  }
+
+  let population = alive.length - victims.length;
+  for (let i = 0; i < immigrants && population < cfg.SWARM_MAX_ALIVE; i++, population++) {
+    try {
+      await spawnImmigrantSwarm();
+    } catch (error) {
+      logError('[immigration] Failed to add immigrant swarm:', error);
+    }
+  }
+}
+
+async function epochTick() {
+  const swarms = await prisma.swarm.findMany({ where: { alive: true } });
+  await decayReputations(swarms);
+  const balances = swarms.map((s: any) => s.balance);
+  const g = gini(balances);
+  const share5 = topKShare(balances, 5);
+  const ts = new Date().toISOString();
+
+  fs.appendFileSync(
+    path.join(METRICS_DIR, 'inequality.csv'),
+    `${ts},${g.toFixed(4)},${share5.toFixed(4)}\n`
+  );
+
+  // reproduce, then cull (offspring born this epoch are spared)
+  const born =
+    cfg.SWARM_REPRO_MODE === 'sexual'
+      ? await crossoverSwarms(swarms)
+      : await reproduceSwarms(swarms);
+  await cullSwarms(born);
 }
 
 async function main() {
@@ -2884,6 +4888,13 @@ async function main() {
       services: {},
     };
 
+    // LLM provider circuit breakers (an open breaker degrades but does not fail health)
+    const breakers = llmCircuitBreakers.snapshot();
+    health.services.llm = {
+      status: breakers.some((b) => b.state !== 'closed') ? 'degraded' : 'healthy',
+      breakers,
+    };
+
     if (!BOOTSTRAP) {
       // Check Redis connection
       try {
@@ -2922,12 +4933,18 @@ async function main() {
   await prisma.$connect();
   fs.ensureDirSync(METRICS_DIR);
   fs.writeFileSync(path.join(METRICS_DIR, 'inequality.csv'), 'ts,gini,top5share\n');
+  fs.writeFileSync(POPULATION_CSV, 'ts,event,swarmId,parentId,generation,balance,detail\n');
+  fs.writeFileSync(CURRICULUM_CSV, 'ts,event,difficulty,samples,passRate,meanQuality,detail\n');
   jobQueue = new Queue('jobs', { connection: redis });
 
+  const suites = await suiteRegistry.loadDirectory(SUITES_DIR);
+  log(`[soup-runner] ${suites.length} job suites loaded (${suiteRegistry.taskCount} tasks)`);
+
   // Preload models before seeding (name generation needs LLM)
   await preloadOllamaModels();
 
   await seedIfEmpty();
+  await seedJobDeduplication();
 
   // Initialize system in running state
   log('[soup-runner] System starting in running state...');
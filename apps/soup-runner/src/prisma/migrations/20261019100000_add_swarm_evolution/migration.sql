@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Swarm" ADD COLUMN "parentId" TEXT;
+ALTER TABLE "Swarm" ADD COLUMN "generation" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Swarm" ADD COLUMN "diedAt" DATETIME;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "Lineage" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "entityType" TEXT NOT NULL,
+    "parentId" TEXT,
+    "childId" TEXT NOT NULL,
+    "mutation" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "Lineage_parentId_idx" ON "Lineage"("parentId");
+
+-- CreateIndex
+CREATE INDEX "Lineage_childId_idx" ON "Lineage"("childId");
+
+-- CreateIndex
+CREATE INDEX "Lineage_entityType_idx" ON "Lineage"("entityType");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Swarm" ADD COLUMN "genome" TEXT;
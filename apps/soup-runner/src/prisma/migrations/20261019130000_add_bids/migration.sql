@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "Bid" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "jobId" TEXT NOT NULL,
+    "swarmId" TEXT NOT NULL,
+    "price" INTEGER NOT NULL,
+    "etaSec" INTEGER NOT NULL,
+    "confidence" REAL NOT NULL,
+    "score" REAL,
+    "rule" TEXT NOT NULL,
+    "won" BOOLEAN NOT NULL DEFAULT false,
+    "clearingPrice" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "Bid_jobId_idx" ON "Bid"("jobId");
+
+-- CreateIndex
+CREATE INDEX "Bid_swarmId_createdAt_idx" ON "Bid"("swarmId", "createdAt");
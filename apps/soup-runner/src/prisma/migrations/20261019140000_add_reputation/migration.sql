@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "Swarm" ADD COLUMN "failStreak" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Swarm" ADD COLUMN "reputationAt" DATETIME;
+
+-- CreateTable
+CREATE TABLE "ReputationEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "swarmId" TEXT NOT NULL,
+    "jobId" TEXT,
+    "kind" TEXT NOT NULL,
+    "before" REAL NOT NULL,
+    "after" REAL NOT NULL,
+    "qualityScore" INTEGER,
+    "deadlineScore" REAL,
+    "failStreak" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "ReputationEvent_swarmId_createdAt_idx" ON "ReputationEvent"("swarmId", "createdAt");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Ledger" ADD COLUMN "category" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Ledger_category_reason_idx" ON "Ledger"("category", "reason");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Ledger" ADD COLUMN "panelScore" REAL;
+ALTER TABLE "Ledger" ADD COLUMN "judgeScores" TEXT;
+ALTER TABLE "Ledger" ADD COLUMN "gradeSpread" REAL;
+ALTER TABLE "Ledger" ADD COLUMN "gradeFlagged" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "Ledger_gradeFlagged_idx" ON "Ledger"("gradeFlagged");
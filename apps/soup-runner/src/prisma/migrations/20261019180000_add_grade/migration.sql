@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "Grade" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "jobId" TEXT NOT NULL,
+    "ledgerId" TEXT NOT NULL,
+    "criterion" TEXT NOT NULL,
+    "score" REAL NOT NULL,
+    "weight" REAL NOT NULL,
+    "category" TEXT,
+    "swarmId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Grade_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "Job" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Grade_ledgerId_fkey" FOREIGN KEY ("ledgerId") REFERENCES "Ledger" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "Grade_jobId_idx" ON "Grade"("jobId");
+
+-- CreateIndex
+CREATE INDEX "Grade_ledgerId_idx" ON "Grade"("ledgerId");
+
+-- CreateIndex
+CREATE INDEX "Grade_criterion_idx" ON "Grade"("criterion");
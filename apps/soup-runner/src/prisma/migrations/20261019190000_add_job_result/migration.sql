@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "JobResult" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "jobId" TEXT NOT NULL,
+    "swarmId" TEXT,
+    "ok" BOOLEAN NOT NULL,
+    "artifact" TEXT NOT NULL,
+    "feedback" TEXT,
+    "members" TEXT NOT NULL,
+    "stepsUsed" INTEGER NOT NULL DEFAULT 0,
+    "toolsUsed" BOOLEAN NOT NULL DEFAULT false,
+    "newToolsCreated" BOOLEAN NOT NULL DEFAULT false,
+    "selectedTool" TEXT,
+    "builderRationale" TEXT,
+    "error" TEXT,
+    "ttcSec" INTEGER NOT NULL,
+    "gradeMs" INTEGER,
+    "startedAt" DATETIME NOT NULL,
+    "completedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "JobResult_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "Job" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "JobResult_jobId_key" ON "JobResult"("jobId");
+
+-- CreateIndex
+CREATE INDEX "JobResult_swarmId_idx" ON "JobResult"("swarmId");
+
+-- CreateIndex
+CREATE INDEX "JobResult_completedAt_idx" ON "JobResult"("completedAt");
@@ -8,23 +8,8 @@
 
 import fs from 'fs-extra';
 import path from 'path';
-import IORedis from 'ioredis';
 import { log } from '@soup/common';
 
-async function getRedis(): Promise<IORedis | null> {
-  try {
-    return new IORedis({
-      host: process.env.REDIS_HOST || 'localhost',
-      port: parseInt(process.env.REDIS_PORT || '6379', 10),
-      db: parseInt(process.env.REDIS_DB || '0', 10),
-      maxRetriesPerRequest: 2,
-    });
-  } catch (error) {
-    console.warn('[summarize-run] Failed to create Redis client:', error);
-    return null;
-  }
-}
-
 async function main() {
   const arg = process.argv.find((a) => a.startsWith('--minutes='));
   const minutes = arg ? Number(arg.split('=')[1]) : 10;
@@ -138,77 +123,15 @@ async function main() {
       { toolsUsed: boolean; newToolsCreated: boolean; selectedTool: string | null }
     >();
 
-    const redis = await getRedis();
-    if (redis && toolJobIds.length > 0) {
-      try {
-        log(`[summarize-run] Looking up Redis data for ${toolJobIds.length} jobs`);
-        const jobIdSet = new Set(toolJobIds);
-        const completed = await redis.zrange('bull:jobs:completed', 0, -1);
-        const failed = await redis.zrange('bull:jobs:failed', 0, -1);
-        const allProcessed = [...completed, ...failed];
-
-        // Batch fetch all job data to avoid O(n²) performance
-        const batchSize = 100;
-        let processed = 0;
-
-        for (let i = 0; i < allProcessed.length; i += batchSize) {
-          const batch = allProcessed.slice(i, i + batchSize);
-
-          // Batch fetch data and returnvalue for this batch
-          const batchPromises = batch.map(async (bullJobId) => {
-            try {
-              const [dataRaw, returnRaw] = await redis.hmget(
-                `bull:jobs:${bullJobId}`,
-                'data',
-                'returnvalue'
-              );
-
-              if (!dataRaw) return null;
-              const parsedData = JSON.parse(dataRaw);
-              const dbJobId: string | undefined = parsedData?.dbJobId;
-              if (!dbJobId || !jobIdSet.has(dbJobId)) return null;
-
-              if (!returnRaw) return null;
-              const parsedReturn = JSON.parse(returnRaw);
-              return {
-                dbJobId,
-                data: {
-                  toolsUsed: Boolean(parsedReturn?.toolsUsed),
-                  newToolsCreated: Boolean(parsedReturn?.newToolsCreated),
-                  selectedTool:
-                    typeof parsedReturn?.selectedTool === 'string'
-                      ? parsedReturn.selectedTool
-                      : null,
-                },
-              };
-            } catch (err) {
-              return null;
-            }
-          });
-
-          const batchResults = await Promise.all(batchPromises);
-          for (const result of batchResults) {
-            if (result) {
-              usageMap.set(result.dbJobId, result.data);
-            }
-          }
-
-          processed += batch.length;
-          if (processed % 1000 === 0) {
-            log(`[summarize-run] Processed ${processed}/${allProcessed.length} Redis jobs`);
-          }
-
-          // Early exit if we found all jobs we need
-          if (usageMap.size === jobIdSet.size) {
-            log(`[summarize-run] Found all ${usageMap.size} jobs, stopping early`);
-            break;
-          }
-        }
-
-        log(`[summarize-run] Found Redis data for ${usageMap.size}/${toolJobIds.length} jobs`);
-      } finally {
-        await redis.quit();
+    if (toolJobIds.length > 0) {
+      const results = await prisma.jobResult.findMany({
+        where: { jobId: { in: toolJobIds } },
+        select: { jobId: true, toolsUsed: true, newToolsCreated: true, selectedTool: true },
+      });
+      for (const { jobId, ...usage } of results) {
+        usageMap.set(jobId, usage);
       }
+      log(`[summarize-run] Found stored results for ${usageMap.size}/${toolJobIds.length} jobs`);
     }
 
     const toolUsageBuckets = {
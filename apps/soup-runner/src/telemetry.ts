@@ -0,0 +1,204 @@
+/**
+ * OpenTelemetry SDK setup for the runner. Exports the spans and metrics instrumented in
+ * @soup/agents, plus the runner's job metrics, over OTLP/HTTP to a collector and/or as JSONL
+ * files in the run directory for offline use.
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import { Counter, Histogram, metrics } from '@opentelemetry/api';
+import { ExportResult, ExportResultCode, hrTimeToMilliseconds } from '@opentelemetry/core';
+import { OTLPMetricExporter } from '@opentelemetry/exporter-metrics-otlp-http';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  DataPoint,
+  MeterProvider,
+  PeriodicExportingMetricReader,
+  PushMetricExporter,
+  ResourceMetrics,
+} from '@opentelemetry/sdk-metrics';
+import { BatchSpanProcessor, ReadableSpan, SpanExporter } from '@opentelemetry/sdk-trace-base';
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { log, logError } from '@soup/common';
+
+export type TelemetryExporter = 'none' | 'otlp' | 'file' | 'both';
+
+export interface TelemetryOptions {
+  exporter: TelemetryExporter;
+  serviceName: string;
+  dir: string; // File exporter output (spans.jsonl, metrics.jsonl)
+  metricIntervalMs: number;
+  attributes?: Record<string, string | number>; // Added to the resource
+}
+
+export interface Telemetry {
+  shutdown(): Promise<void>; // Flushes pending spans and metrics
+}
+
+export type JobOutcomeLabel = 'payout' | 'fail' | 'cancelled' | 'error';
+
+function appendLines(file: string, lines: string[], done: (result: ExportResult) => void) {
+  if (!lines.length) return done({ code: ExportResultCode.SUCCESS });
+  fs.appendFile(file, lines.join('')).then(
+    () => done({ code: ExportResultCode.SUCCESS }),
+    (error) => done({ code: ExportResultCode.FAILED, error })
+  );
+}
+
+/**
+ * Writes each finished span as a JSON line
+ */
+class FileSpanExporter implements SpanExporter {
+  constructor(private file: string) {}
+
+  export(spans: ReadableSpan[], done: (result: ExportResult) => void): void {
+    const lines = spans.map(
+      (span) =>
+        JSON.stringify({
+          traceId: span.spanContext().traceId,
+          spanId: span.spanContext().spanId,
+          parentSpanId: span.parentSpanContext?.spanId,
+          name: span.name,
+          kind: span.kind,
+          startTime: new Date(hrTimeToMilliseconds(span.startTime)).toISOString(),
+          durationMs: hrTimeToMilliseconds(span.duration),
+          status: span.status,
+          attributes: span.attributes,
+          events: span.events.map((e) => ({ name: e.name, attributes: e.attributes })),
+        }) + '\n'
+    );
+    appendLines(this.file, lines, done);
+  }
+
+  async shutdown(): Promise<void> {}
+}
+
+/**
+ * Writes every data point of each collection as a JSON line (cumulative values)
+ */
+class FileMetricExporter implements PushMetricExporter {
+  constructor(private file: string) {}
+
+  export(resourceMetrics: ResourceMetrics, done: (result: ExportResult) => void): void {
+    const ts = new Date().toISOString();
+    const lines = resourceMetrics.scopeMetrics.flatMap((scope) =>
+      scope.metrics.flatMap((metric) =>
+        (metric.dataPoints as DataPoint<unknown>[]).map(
+          (point) =>
+            JSON.stringify({
+              ts,
+              scope: scope.scope.name,
+              name: metric.descriptor.name,
+              unit: metric.descriptor.unit,
+              attributes: point.attributes,
+              value: point.value,
+            }) + '\n'
+        )
+      )
+    );
+    appendLines(this.file, lines, done);
+  }
+
+  async forceFlush(): Promise<void> {}
+
+  async shutdown(): Promise<void> {}
+}
+
+/**
+ * Registers the global tracer and meter providers. Returns null when export is disabled, which
+ * leaves every instrumentation helper a no-op. Pending telemetry is flushed on SIGINT/SIGTERM.
+ */
+export function startTelemetry(options: TelemetryOptions): Telemetry | null {
+  if (options.exporter === 'none') return null;
+
+  const otlp = options.exporter === 'otlp' || options.exporter === 'both';
+  const file = options.exporter === 'file' || options.exporter === 'both';
+  if (file) fs.ensureDirSync(options.dir);
+
+  const resource = resourceFromAttributes({
+    'service.name': options.serviceName,
+    ...options.attributes,
+  });
+
+  const tracerProvider = new NodeTracerProvider({
+    resource,
+    spanProcessors: [
+      ...(otlp ? [new BatchSpanProcessor(new OTLPTraceExporter())] : []),
+      ...(file
+        ? [new BatchSpanProcessor(new FileSpanExporter(path.join(options.dir, 'spans.jsonl')))]
+        : []),
+    ],
+  });
+  tracerProvider.register(); // Also installs the AsyncLocalStorage context manager
+
+  const reader = (exporter: PushMetricExporter) =>
+    new PeriodicExportingMetricReader({ exporter, exportIntervalMillis: options.metricIntervalMs });
+  const meterProvider = new MeterProvider({
+    resource,
+    readers: [
+      ...(otlp ? [reader(new OTLPMetricExporter())] : []),
+      ...(file ? [reader(new FileMetricExporter(path.join(options.dir, 'metrics.jsonl')))] : []),
+    ],
+  });
+  metrics.setGlobalMeterProvider(meterProvider);
+
+  const telemetry: Telemetry = {
+    async shutdown() {
+      await Promise.all([tracerProvider.shutdown(), meterProvider.shutdown()]);
+    },
+  };
+
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => {
+      telemetry
+        .shutdown()
+        .catch((error) => logError('[telemetry] Flush on exit failed:', error))
+        .finally(() => process.kill(process.pid, signal)); // Default handling now applies
+    });
+  }
+
+  log(
+    `[telemetry] Exporting OpenTelemetry traces and metrics (${options.exporter})${file ? ` to ${options.dir}` : ''}`
+  );
+  return telemetry;
+}
+
+interface JobInstruments {
+  jobs: Counter;
+  jobDuration: Histogram;
+  gradingDuration: Histogram;
+}
+
+let jobInstruments: JobInstruments | undefined;
+
+// Created on first use, after startTelemetry has registered the meter provider
+function getJobInstruments(): JobInstruments {
+  if (jobInstruments) return jobInstruments;
+  const meter = metrics.getMeter('@soup/soup-runner');
+  jobInstruments = {
+    jobs: meter.createCounter('soup.jobs', { description: 'Processed jobs by outcome' }),
+    jobDuration: meter.createHistogram('soup.job.duration', {
+      unit: 'ms',
+      description: 'Job processing latency (execution and grading)',
+    }),
+    gradingDuration: meter.createHistogram('soup.grading.duration', {
+      unit: 'ms',
+      description: 'Grading latency',
+    }),
+  };
+  return jobInstruments;
+}
+
+export function recordJobMetrics(job: {
+  category: string;
+  outcome: JobOutcomeLabel;
+  durationMs: number;
+  gradeMs?: number;
+}) {
+  const attributes = { 'soup.category': job.category, 'soup.outcome': job.outcome };
+  const instruments = getJobInstruments();
+  instruments.jobs.add(1, attributes);
+  instruments.jobDuration.record(job.durationMs, attributes);
+  if (job.gradeMs !== undefined) instruments.gradingDuration.record(job.gradeMs, attributes);
+}
@@ -6,7 +6,7 @@
 import { createReactAgent } from '@langchain/langgraph/prebuilt';
 import { createVertexAILangChainLLM } from './llm';
 import { DynamicTool } from '@langchain/core/tools';
-import { JobData, log, logError } from '@soup/common';
+import { AbortOptions, AgentTraits, JobData, log, logError, throwIfAborted } from '@soup/common';
 import { codeGeneratorTool } from './tools/codeGenerator';
 import { dynamicToolLoader } from './tools/dynamicToolLoader';
 import { ToolMemoryService, AgentMemoryService } from './memory';
@@ -20,9 +20,11 @@ export class LangChainToolBuilderAgent {
   private agentMemory: AgentMemoryService;
   private availableTools: AvailableToolSummary[] = [];
   private initializationPromise: Promise<void>;
+  private traits: AgentTraits;
 
-  constructor(id: string) {
+  constructor(id: string, traits: AgentTraits = {}) {
     this.id = id;
+    this.traits = traits;
 
     // Initialize memory services
     this.toolMemory = ToolMemoryService.getInstance();
@@ -38,7 +40,10 @@ export class LangChainToolBuilderAgent {
       await this.reloadTools();
 
       // Create LangChain LLM
-      const llm = createVertexAILangChainLLM('tool_builder');
+      const llm = createVertexAILangChainLLM('tool_builder', {
+        model: this.traits.model,
+        temperature: this.traits.temperature,
+      });
 
       // Create tools for the agent
       const tools = await this.createAgentTools();
@@ -138,7 +143,7 @@ export class LangChainToolBuilderAgent {
       name: 'execute_tool',
       description:
         'Execute a specific tool with given arguments. Provide JSON with toolName and args properties.',
-      func: async (input: string): Promise<string> => {
+      func: async (input: string, _runManager, config): Promise<string> => {
         try {
           const params = JSON.parse(input);
           const { toolName, args } = params;
@@ -151,7 +156,9 @@ export class LangChainToolBuilderAgent {
           await dynamicToolLoader.ensureTool(toolName);
 
           // Execute the tool
-          const resultString = await dynamicToolLoader.executeTool(toolName, args || {});
+          const resultString = await dynamicToolLoader.executeTool(toolName, args || {}, {
+            signal: config?.signal,
+          });
 
           // Parse the result to get the actual object
           let result;
@@ -217,7 +224,7 @@ MEMORY INTEGRATION:
 Your goal is to either find and use existing tools or create new ones to successfully complete any given task.`;
   }
 
-  async handle(job: JobData): Promise<any> {
+  async handle(job: JobData, options: AbortOptions = {}): Promise<any> {
     await this.initializationPromise;
 
     try {
@@ -230,9 +237,10 @@ Your goal is to either find and use existing tools or create new ones to success
           : job.payload.prompt || JSON.stringify(job.payload);
 
       // Invoke the LangChain agent
-      const result = await this.agent.invoke({
-        messages: [{ role: 'user', content: prompt }],
-      });
+      const result = await this.agent.invoke(
+        { messages: [{ role: 'user', content: prompt }] },
+        { signal: options.signal }
+      );
 
       // Extract the final response
       const messages = result.messages || [];
@@ -257,6 +265,9 @@ Your goal is to either find and use existing tools or create new ones to success
 
       return response;
     } catch (error) {
+      // Cancelled jobs are not remembered as failures
+      throwIfAborted(options.signal);
+
       const errorMsg = error instanceof Error ? error.message : 'Unknown error';
       logError(`[LangChainToolBuilderAgent] Agent ${this.id} failed: ${errorMsg}`, error);
 
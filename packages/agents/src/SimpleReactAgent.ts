@@ -8,7 +8,8 @@ import { createVertexAILangChainLLM } from './llm';
 import { WikipediaQueryRun } from '@langchain/community/tools/wikipedia_query_run';
 import { WebBrowser } from 'langchain/tools/webbrowser';
 import { SerpAPI } from '@langchain/community/tools/serpapi';
-import { JobData, log, logError } from '@soup/common';
+import { AbortOptions, AgentTraits, JobData, log, logError, throwIfAborted } from '@soup/common';
+import { meterWebTool } from './metabolism/meter';
 
 // Agent archetype types
 export type AgentArchetype =
@@ -33,8 +34,12 @@ function createLLMForTools() {
   }
 }
 
-// Create tools based on archetype
+// Create tools based on archetype; every web call is charged to the job's metabolism
 function getToolsForArchetype(archetype: AgentArchetype) {
+  return createToolsForArchetype(archetype).map((tool) => meterWebTool(tool));
+}
+
+function createToolsForArchetype(archetype: AgentArchetype): any[] {
   const llm = createLLMForTools();
 
   switch (archetype) {
@@ -96,16 +101,21 @@ export class SimpleReactAgent {
   private agent: any;
   public id: string;
   public archetype: AgentArchetype;
+  private traits: AgentTraits;
 
-  constructor(id: string, archetype: AgentArchetype) {
+  constructor(id: string, archetype: AgentArchetype, traits: AgentTraits = {}) {
     this.id = id;
     this.archetype = archetype;
+    this.traits = traits;
 
     // Create the LLM for the agent - need LangChain compatible model
     // Try to get LangChain model, fallback to basic agent if not available
     let llm: any;
     try {
-      llm = createVertexAILangChainLLM('agent');
+      llm = createVertexAILangChainLLM('agent', {
+        model: traits.model,
+        temperature: traits.temperature,
+      });
     } catch (error) {
       throw new Error(
         `Cannot create agent: LangChain model required for agent creation but not available for current provider. Error: ${(error as Error).message}`
@@ -159,9 +169,12 @@ export class SimpleReactAgent {
         break;
     }
 
+    // Heritable style instruction from the swarm genome
+    const fragment = this.traits.promptFragment ? `\n${this.traits.promptFragment}\n` : '';
+
     return `You are an AI agent designed to complete tasks efficiently.
 ${toolInstructions}
-
+${fragment}
 IMPORTANT: If the task requires current information, research, or sources, you MUST use your available tools. Do not claim you cannot access information if you have tools available.
 
 EXECUTION CONSTRAINTS:
@@ -185,7 +198,7 @@ Instead, make reasonable assumptions and deliver a complete response.
 Always provide complete, actionable responses based on the tools at your disposal.`;
   }
 
-  async handle(job: JobData): Promise<any> {
+  async handle(job: JobData, options: AbortOptions = {}): Promise<any> {
     try {
       log(`[SimpleReactAgent] Agent ${this.id} (${this.archetype}) processing job`);
 
@@ -196,9 +209,10 @@ Always provide complete, actionable responses based on the tools at your disposa
           : job.payload.prompt || JSON.stringify(job.payload);
 
       // Invoke the agent with the prompt
-      const result = await this.agent.invoke({
-        messages: [{ role: 'user', content: prompt }],
-      });
+      const result = await this.agent.invoke(
+        { messages: [{ role: 'user', content: prompt }] },
+        { signal: options.signal }
+      );
 
       // Extract the final response and check for tool usage
       const messages = result.messages || [];
@@ -228,6 +242,7 @@ Always provide complete, actionable responses based on the tools at your disposa
         toolsUsed,
       };
     } catch (error) {
+      throwIfAborted(options.signal);
       logError(`[SimpleReactAgent] Agent ${this.id} failed:`, error);
 
       return {
@@ -243,7 +258,8 @@ Always provide complete, actionable responses based on the tools at your disposa
 // Factory function to create agents based on blueprint archetype
 export function createAgentForBlueprint(
   agentId: string,
-  archetype: string
+  archetype: string,
+  traits: AgentTraits = {}
 ): SimpleReactAgent | any {
   // Import ToolBuilderAgent here to avoid circular dependencies
   // eslint-disable-next-line @typescript-eslint/no-var-requires
@@ -264,8 +280,8 @@ export function createAgentForBlueprint(
 
   // Create specialized agent for tool-builder archetype
   if (agentArchetype === 'tool-builder') {
-    return new ToolBuilderAgent(agentId);
+    return new ToolBuilderAgent(agentId, traits);
   }
 
-  return new SimpleReactAgent(agentId, agentArchetype);
+  return new SimpleReactAgent(agentId, agentArchetype, traits);
 }
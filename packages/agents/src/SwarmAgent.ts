@@ -2,11 +2,21 @@
  * SwarmAgent - Manages a swarm of specialized agents using collaborative approach
  */
 
-import { PatchedChatVertexAI } from './patchedVertexAI';
-import { JobData, log, logError, getVertexTokenLimit } from '@soup/common';
+import {
+  AbortOptions,
+  AgentTraits,
+  JobData,
+  log,
+  logError,
+  raceAbort,
+  throwIfAborted,
+} from '@soup/common';
+import { createLLMProvider, LLMProvider } from './llm';
 import { createAgentForBlueprint, AgentArchetype } from './SimpleReactAgent';
 import { ToolBuilderAgent } from './ToolBuilderAgent';
 import { LangChainToolBuilderAgent } from './LangChainToolBuilderAgent';
+import { failSpan, setSpanAttributes, withSpan } from './tracing/tracer';
+import { recordAgentRun } from './tracing/otel';
 
 export interface SwarmConfig {
   id: string;
@@ -15,6 +25,7 @@ export interface SwarmConfig {
   agentTypes: AgentArchetype[];
   agentCount: number;
   existingAgents?: any[]; // Pre-loaded agent instances from database
+  traits?: AgentTraits; // Expressed swarm genome, applied to synthesis and temporary members
 }
 
 export interface SwarmMember {
@@ -24,22 +35,48 @@ export interface SwarmMember {
   agent: any; // SimpleReactAgent or ToolBuilderAgent
 }
 
+// What one member did on a job
+export interface MemberRun {
+  agentId: string;
+  name: string;
+  archetype: AgentArchetype;
+  ok: boolean;
+  stepsUsed: number;
+  toolsUsed: boolean;
+  newToolsCreated: boolean;
+  selectedTool: string | null;
+  builderRationale: string | null;
+  durationMs: number;
+  error?: string;
+}
+
+export interface SwarmRun {
+  artifact: string;
+  members: MemberRun[];
+  synthesized: boolean; // Several member answers were merged by the synthesizer
+}
+
 export class SwarmAgent {
   public id: string;
   public name: string;
   public description?: string;
   private members: SwarmMember[];
   private swarm: any;
-  private llm: PatchedChatVertexAI;
+  private llm: LLMProvider;
+  private traits: AgentTraits;
 
   constructor(config: SwarmConfig) {
     this.id = config.id;
     this.name = config.name;
     this.description = config.description;
     this.members = [];
+    this.traits = config.traits ?? {};
 
     // Initialize LLM for swarm coordination
-    this.llm = this.createVertexAILLM();
+    this.llm = createLLMProvider('swarm_synthesizer', {
+      model: this.traits.model,
+      temperature: this.traits.temperature,
+    });
 
     // Create swarm members
     this.initializeMembers(config);
@@ -48,30 +85,6 @@ export class SwarmAgent {
     this.initializeSwarm();
   }
 
-  private createVertexAILLM(): PatchedChatVertexAI {
-    const projectId = process.env.GOOGLE_CLOUD_PROJECT;
-    const model = process.env.VERTEX_AI_MODEL || 'gemini-1.5-flash';
-    const temperature = parseFloat(process.env.VERTEX_AI_TEMPERATURE || '0.7');
-    const maxOutputTokens = getVertexTokenLimit('agent');
-
-    if (!projectId) {
-      throw new Error('GOOGLE_CLOUD_PROJECT environment variable is required');
-    }
-
-    return new PatchedChatVertexAI({
-      model,
-      temperature,
-      maxOutputTokens,
-      authOptions: {
-        credentials: process.env.GOOGLE_APPLICATION_CREDENTIALS
-          ? undefined
-          : process.env.GOOGLE_CLOUD_CREDENTIALS
-            ? JSON.parse(Buffer.from(process.env.GOOGLE_CLOUD_CREDENTIALS, 'base64').toString())
-            : undefined,
-      },
-    });
-  }
-
   private initializeMembers(config: SwarmConfig): void {
     // If existing agents are provided, use them directly
     if (config.existingAgents && config.existingAgents.length > 0) {
@@ -103,13 +116,13 @@ export class SwarmAgent {
 
             if (useLangChainToolBuilder) {
               log(`[SwarmAgent] Creating LangChain-based ToolBuilderAgent for ${memberId}`);
-              agent = new LangChainToolBuilderAgent(memberId);
+              agent = new LangChainToolBuilderAgent(memberId, this.traits);
             } else {
               log(`[SwarmAgent] Creating custom ToolBuilderAgent for ${memberId}`);
-              agent = new ToolBuilderAgent(memberId);
+              agent = new ToolBuilderAgent(memberId, this.traits);
             }
           } else {
-            agent = createAgentForBlueprint(memberId, archetype);
+            agent = createAgentForBlueprint(memberId, archetype, this.traits);
           }
 
           this.members.push({
@@ -147,12 +160,29 @@ export class SwarmAgent {
     }
   }
 
-  async invoke(job: JobData): Promise<string> {
+  /**
+   * Runs the job through the selected members. `options.signal` is the job deadline: it is
+   * passed to every member and aborts the swarm with the signal's reason.
+   */
+  async invoke(job: JobData, options: AbortOptions = {}): Promise<string> {
+    return (await this.run(job, options)).artifact;
+  }
+
+  /**
+   * Like invoke, but also reports what each selected member did
+   */
+  async run(job: JobData, options: AbortOptions = {}): Promise<SwarmRun> {
     try {
+      throwIfAborted(options.signal);
       log(`[SwarmAgent] Swarm "${this.name}" processing job category: ${job.category}`);
 
       // Select the best agent(s) for this job type
-      const selectedAgents = this.selectAgentsForJob(job);
+      const selectedAgents = await withSpan(
+        'SwarmAgent.selectAgentsForJob',
+        'step',
+        async () => this.selectAgentsForJob(job),
+        { input: { category: job.category, members: this.members.map((m) => m.archetype) } }
+      );
 
       if (selectedAgents.length === 0) {
         if (this.members.length === 0) {
@@ -167,14 +197,19 @@ export class SwarmAgent {
       if (selectedAgents.length === 1) {
         const agent = selectedAgents[0];
         log(`[SwarmAgent] Single agent "${agent.archetype}" handling job`);
-        return await this.invokeAgent(agent, job);
+        const { output, run } = await this.invokeAgent(agent, job, options);
+        recordAgentRun(run.archetype, run.ok, run.durationMs);
+        return { artifact: output, members: [run], synthesized: false };
       }
 
       // For multiple agents, use collaborative approach
       log(`[SwarmAgent] Collaborative approach with ${selectedAgents.length} agents`);
-      const results = await Promise.all(
-        selectedAgents.map((agent) => this.invokeAgent(agent, job))
+      const outputs = await Promise.all(
+        selectedAgents.map((agent) => this.invokeAgent(agent, job, options))
       );
+      const results = outputs.map((o) => o.output);
+      const members = outputs.map((o) => o.run);
+      members.forEach((m) => recordAgentRun(m.archetype, m.ok, m.durationMs));
 
       // Filter out error responses - only keep successful results
       const successfulResults = results.filter(
@@ -195,10 +230,15 @@ export class SwarmAgent {
       );
 
       // Combine and synthesize only successful results
-      const synthesizedResult = await this.synthesizeResults(successfulResults, job);
+      const synthesizedResult = await withSpan(
+        'SwarmAgent.synthesizeResults',
+        'step',
+        () => this.synthesizeResults(successfulResults, job, options),
+        { attributes: { results: successfulResults.length } }
+      );
 
       log(`[SwarmAgent] Swarm "${this.name}" completed job`);
-      return synthesizedResult;
+      return { artifact: synthesizedResult, members, synthesized: successfulResults.length > 1 };
     } catch (error) {
       logError(`[SwarmAgent] Swarm "${this.name}" failed on job:`, error);
       throw error;
@@ -251,26 +291,70 @@ export class SwarmAgent {
     return suitable.slice(0, 3); // Limit to max 3 agents for efficiency
   }
 
-  private async invokeAgent(member: SwarmMember, job: JobData): Promise<string> {
+  private async invokeAgent(
+    member: SwarmMember,
+    job: JobData,
+    options: AbortOptions
+  ): Promise<{ output: string; run: MemberRun }> {
+    const started = Date.now();
+    const run: MemberRun = {
+      agentId: member.id,
+      name: member.name,
+      archetype: member.archetype,
+      ok: false,
+      stepsUsed: 0,
+      toolsUsed: false,
+      newToolsCreated: false,
+      selectedTool: null,
+      builderRationale: null,
+      durationMs: 0,
+    };
+
     try {
-      const result = await member.agent.handle(job);
+      const result = await withSpan(
+        `${member.archetype}.handle`,
+        'agent',
+        async () => {
+          setSpanAttributes({ agentId: member.id, agent: member.name });
+          const handled = await raceAbort<any>(member.agent.handle(job, options), options.signal);
+          if (handled?.ok === false) failSpan('Agent returned ok: false');
+          return handled;
+        },
+        { input: job.payload?.prompt ?? job.payload }
+      );
+      run.durationMs = Date.now() - started;
 
       // Handle both object responses and string responses
       if (typeof result === 'string') {
-        return result;
+        return { output: result, run: { ...run, ok: true } };
       } else if (result && typeof result === 'object') {
+        run.ok = result.ok !== false;
+        run.stepsUsed = Number(result.stepsUsed) || 0;
+        run.toolsUsed = Boolean(result.toolsUsed);
+        run.newToolsCreated = Boolean(result.newToolsCreated);
+        run.selectedTool = typeof result.selectedTool === 'string' ? result.selectedTool : null;
+        run.builderRationale = result.builderRationale ?? null;
         // Extract artifact from object response
-        return result.artifact || result.response || JSON.stringify(result);
+        return { output: result.artifact || result.response || JSON.stringify(result), run };
       }
 
-      return 'No response generated';
+      return { output: 'No response generated', run };
     } catch (error) {
+      throwIfAborted(options.signal);
       logError(`[SwarmAgent] Agent "${member.archetype}" failed:`, error);
-      return `Agent "${member.archetype}" encountered an error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        output: `Agent "${member.archetype}" encountered an error: ${message}`,
+        run: { ...run, durationMs: Date.now() - started, error: message },
+      };
     }
   }
 
-  private async synthesizeResults(allResults: string[], job: JobData): Promise<string> {
+  private async synthesizeResults(
+    allResults: string[],
+    job: JobData,
+    options: AbortOptions
+  ): Promise<string> {
     // Filter out error responses - use successful ones only
     const successfulResults = allResults.filter(
       (r) =>
@@ -308,11 +392,11 @@ Task: ${JSON.stringify(job.payload)}
 Successful Agent Responses:
 ${successfulResults.map((result, index) => `Agent ${index + 1}: ${result}`).join('\n\n')}
 
-Provide a unified, well-structured response that combines the best insights from all agents. Focus on delivering a complete, actionable answer to the task:`;
+Provide a unified, well-structured response that combines the best insights from all agents. Focus on delivering a complete, actionable answer to the task:${this.traits.promptFragment ? `\n\n${this.traits.promptFragment}` : ''}`;
 
     try {
-      const response = await this.llm.invoke(prompt);
-      let content = response.content as string;
+      const response = await raceAbort(this.llm.invoke(prompt), options.signal);
+      let content = response.content;
 
       // Clean up excessive whitespace that causes storage issues
       if (content) {
@@ -347,6 +431,7 @@ Provide a unified, well-structured response that combines the best insights from
 
       return content;
     } catch (error) {
+      throwIfAborted(options.signal);
       logError('[SwarmAgent] Failed to synthesize results:', error);
       // Fallback: return the first valid successful result (also cleaned)
       let fallback =
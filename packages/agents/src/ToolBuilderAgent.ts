@@ -2,17 +2,19 @@
  * Tool Builder Agent - Orchestrates tool creation and execution without LangChain's React agent.
  */
 
-import { JobData, log, logError } from '@soup/common';
+import { AbortOptions, AgentTraits, JobData, log, logError, throwIfAborted } from '@soup/common';
+import { z } from 'zod';
 import { CodeGeneratorTool } from './tools/codeGenerator';
 import { dynamicToolLoader } from './tools/dynamicToolLoader';
 import { builderPlan } from './toolBuilder/builder';
 import { runnerExecute } from './toolBuilder/runner';
-import { createToolBuilderLLM } from './toolBuilder/llm';
+import { withSpan } from './tracing/tracer';
+import { createToolBuilderLLM, LLMOptions } from './toolBuilder/llm';
+import { invokeStructured } from './llm/structured';
 import {
   extractErrorMessage,
   normalizeCodeGeneratorRequest,
   sanitizeToolInput,
-  toStringContent,
 } from './toolBuilder/utils';
 import { AvailableToolSummary } from './types';
 import { ToolMemoryService, AgentMemoryService } from './memory';
@@ -23,13 +25,18 @@ export class ToolBuilderAgent {
   public id: string;
   public archetype = 'tool-builder';
   private strictModeEnabled: boolean;
+  private traits: AgentTraits;
   private toolMemory: ToolMemoryService;
   private agentMemory: AgentMemoryService;
 
-  constructor(id: string) {
+  constructor(id: string, traits: AgentTraits = {}) {
     this.id = id;
+    this.traits = traits;
     const strictEnv = (process.env.TOOL_BUILDER_STRICT_MODE || 'true').toLowerCase();
-    this.strictModeEnabled = !(strictEnv === '0' || strictEnv === 'false' || strictEnv === 'off');
+    // The genome's toolBuilderStrict gene takes precedence over the env default
+    this.strictModeEnabled =
+      traits.toolBuilderStrict ??
+      !(strictEnv === '0' || strictEnv === 'false' || strictEnv === 'off');
 
     // Initialize memory services
     this.toolMemory = ToolMemoryService.getInstance();
@@ -39,6 +46,14 @@ export class ToolBuilderAgent {
     this.initializationPromise = this.initializeAgent();
   }
 
+  // Tool builder LLM with the genome's model/temperature applied
+  private createLLM = (options?: LLMOptions) =>
+    createToolBuilderLLM({
+      ...options,
+      model: this.traits.model,
+      temperature: this.traits.temperature,
+    });
+
   private async initializeAgent() {
     try {
       await this.reloadTools();
@@ -110,8 +125,9 @@ export class ToolBuilderAgent {
     }
   }
 
-  async handle(job: JobData & { dbJobId?: string }): Promise<any> {
+  async handle(job: JobData & { dbJobId?: string }, options: AbortOptions = {}): Promise<any> {
     await this.initializationPromise;
+    const { signal } = options;
 
     const jobPrompt =
       typeof job.payload === 'string'
@@ -126,15 +142,23 @@ export class ToolBuilderAgent {
         job.category || 'general'
       );
 
+      throwIfAborted(signal);
       const registryStats = dynamicToolLoader.getRegistryStats();
-      const plan = await builderPlan(
-        {
-          jobPrompt,
-          availableTools: this.availableTools,
-          strictMode: this.strictModeEnabled,
-          registrySuccessRate: registryStats.averageSuccessRate || 0,
-        },
-        createToolBuilderLLM
+      const plan = await withSpan(
+        'builderPlan',
+        'step',
+        () =>
+          builderPlan(
+            {
+              jobPrompt,
+              availableTools: this.availableTools,
+              strictMode: this.strictModeEnabled,
+              registrySuccessRate: registryStats.averageSuccessRate || 0,
+              signal,
+            },
+            this.createLLM
+          ),
+        { input: jobPrompt, attributes: { availableTools: this.availableTools.length } }
       );
 
       let newToolsCreated = false;
@@ -146,6 +170,7 @@ export class ToolBuilderAgent {
         log(`[ToolBuilderAgent] Using tool from memory: ${memoryTool}`);
       }
 
+      throwIfAborted(signal);
       if (plan.createTool) {
         const normalized = normalizeCodeGeneratorRequest({
           ...(plan.createTool as unknown as Record<string, unknown>),
@@ -155,7 +180,12 @@ export class ToolBuilderAgent {
         log(
           `[ToolBuilderAgent] Job ${jobId} generating tool ${normalized.toolName} with description: ${normalized.taskDescription}`
         );
-        const raw = await generator.invoke(normalized);
+        const raw = await withSpan(
+          'CodeGeneratorTool.invoke',
+          'tool',
+          () => generator.invoke(normalized),
+          { input: normalized }
+        );
         const parsed = JSON.parse(raw || '{}');
         if (
           !parsed ||
@@ -185,6 +215,7 @@ export class ToolBuilderAgent {
         }
       }
 
+      throwIfAborted(signal);
       const loadedTool = await dynamicToolLoader.ensureTool(toolUsed);
       const expectedInputs = loadedTool.manifest?.originalRequest?.expectedInputs || {};
 
@@ -200,6 +231,7 @@ export class ToolBuilderAgent {
         builderRationale: plan.rationale,
         currentArgs: initialArgObject,
         expectedInputs,
+        signal,
       });
 
       const sanitizedArgsRaw = sanitizeToolInput(enrichedArgs);
@@ -254,14 +286,21 @@ export class ToolBuilderAgent {
         };
       }
 
-      const runnerResult = await runnerExecute(
-        {
-          toolName: toolUsed,
-          args: sanitizedArgs,
-          jobPrompt,
-          builderRationale: plan.rationale,
-        },
-        createToolBuilderLLM
+      const runnerResult = await withSpan(
+        'runnerExecute',
+        'step',
+        () =>
+          runnerExecute(
+            {
+              toolName: toolUsed,
+              args: sanitizedArgs,
+              jobPrompt,
+              builderRationale: plan.rationale,
+              signal,
+            },
+            this.createLLM
+          ),
+        { input: sanitizedArgs, attributes: { tool: toolUsed, newTool: newToolsCreated } }
       );
 
       log(
@@ -321,6 +360,9 @@ export class ToolBuilderAgent {
         summarySource: runnerResult.summarySource,
       };
     } catch (error) {
+      // Deadline cancellations propagate to the swarm instead of becoming a failed artifact
+      throwIfAborted(signal);
+
       const errorMsg = extractErrorMessage(error, 'Unknown execution error');
       logError(`[ToolBuilderAgent] Agent ${this.id} failed on job ${jobId}: ${errorMsg}`, error);
 
@@ -378,8 +420,9 @@ export class ToolBuilderAgent {
     builderRationale: string;
     currentArgs: Record<string, unknown>;
     expectedInputs: Record<string, string>;
+    signal?: AbortSignal;
   }): Promise<Record<string, unknown>> {
-    const { toolName, jobPrompt, builderRationale, currentArgs, expectedInputs } = options;
+    const { toolName, jobPrompt, builderRationale, currentArgs, expectedInputs, signal } = options;
     const entries = Object.entries(expectedInputs || {});
 
     if (entries.length === 0) {
@@ -397,43 +440,35 @@ export class ToolBuilderAgent {
     const fieldsDescription = entries.map(([key, desc]) => `- ${key}: ${desc}`).join('\n');
 
     try {
-      const llm = createToolBuilderLLM({ responseMimeType: 'application/json' });
-      const response = await llm.invoke([
-        {
-          role: 'system',
-          content:
-            'You generate concrete JSON arguments to invoke a tool. ' +
-            'Return ONLY a JSON object mapping input names to usable values. ' +
-            'Numbers must be numeric (no quotes) and arrays must be proper JSON arrays.',
-        },
-        {
-          role: 'user',
-          content: [
-            `Tool: ${toolName}`,
-            `Job request:\n${jobPrompt}`,
-            `Builder rationale: ${builderRationale}`,
-            `Expected inputs:\n${fieldsDescription}`,
-            `Existing arguments: ${JSON.stringify(currentArgs)}`,
-            'Provide values for every expected input. Return ONLY JSON.',
-          ].join('\n\n'),
-        },
-      ]);
-
-      let raw = toStringContent(response.content).trim();
-      if (raw.startsWith('```')) {
-        raw = raw
-          .replace(/^```(?:json)?/i, '')
-          .replace(/```$/i, '')
-          .trim();
-      }
-
-      const parsed = JSON.parse(raw || '{}');
-      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
-        throw new Error('Synthesised arguments were not a JSON object');
-      }
+      const synthesised = await invokeStructured(
+        this.createLLM(),
+        [
+          {
+            role: 'system',
+            content:
+              'You generate concrete JSON arguments to invoke a tool. ' +
+              'Return ONLY a JSON object mapping input names to usable values. ' +
+              'Numbers must be numeric (no quotes) and arrays must be proper JSON arrays.',
+          },
+          {
+            role: 'user',
+            content: [
+              `Tool: ${toolName}`,
+              `Job request:\n${jobPrompt}`,
+              `Builder rationale: ${builderRationale}`,
+              `Expected inputs:\n${fieldsDescription}`,
+              `Existing arguments: ${JSON.stringify(currentArgs)}`,
+              'Provide values for every expected input. Return ONLY JSON.',
+            ].join('\n\n'),
+          },
+        ],
+        z.record(z.unknown()),
+        { component: 'tool_builder', signal }
+      );
 
-      return { ...currentArgs, ...(parsed as Record<string, unknown>) };
+      return { ...currentArgs, ...synthesised };
     } catch (error) {
+      throwIfAborted(signal);
       logError(
         `[ToolBuilderAgent] Failed to synthesise execution args for ${toolName}: ${extractErrorMessage(error)}`,
         error
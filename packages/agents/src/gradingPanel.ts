@@ -0,0 +1,200 @@
+/**
+ * Grading Panel
+ * Runs several LLM judges on each response and aggregates their grades. Judges come from
+ * LLM_CONFIG_RESULT_GRADER_<NAME> entries; without any, the panel is the single default grader.
+ */
+
+import fs from 'fs-extra';
+import YAML from 'yaml';
+import { z } from 'zod';
+import {
+  calibrationStats,
+  CalibrationCase,
+  CalibrationStats,
+  DEFAULT_PANEL_PARAMS,
+  detectDrift,
+  DriftReport,
+  JudgeGrade,
+  log,
+  PanelParams,
+  panelVerdict,
+  PanelVerdict,
+  Rubric,
+} from '@soup/common';
+import { createLLMProvider, parseComponentConfig } from './llm';
+import { GradeResult, LLMGrader } from './llmGrader';
+
+export interface PanelGradeResult extends GradeResult {
+  panel: PanelVerdict;
+  judges: JudgeGrade[];
+}
+
+export interface Judge {
+  name: string;
+  model: string;
+  grader: LLMGrader;
+}
+
+const JUDGE_CONFIG_PREFIX = 'LLM_CONFIG_RESULT_GRADER_';
+
+/**
+ * One judge per LLM_CONFIG_RESULT_GRADER_<NAME> entry (sorted by name), or the default grader
+ */
+export function createJudgesFromEnv(
+  env: Record<string, string | undefined> = process.env
+): Judge[] {
+  const keys = Object.keys(env)
+    .filter((key) => key.startsWith(JUDGE_CONFIG_PREFIX) && env[key])
+    .sort();
+
+  if (!keys.length) {
+    const llm = createLLMProvider('result_grader');
+    return [{ name: 'default', model: llm.getModel(), grader: new LLMGrader(llm) }];
+  }
+
+  return keys.map((key) => {
+    const llm = createLLMProvider('result_grader', parseComponentConfig(env[key]!));
+    return {
+      name: key.slice(JUDGE_CONFIG_PREFIX.length).toLowerCase(),
+      model: llm.getModel(),
+      grader: new LLMGrader(llm),
+    };
+  });
+}
+
+const calibrationSchema = z.object({
+  cases: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        prompt: z.string().min(1),
+        answer: z.string(),
+        expectedPass: z.boolean(),
+        expectedScore: z.number().min(0).max(100).optional(),
+      })
+    )
+    .min(1),
+});
+
+/**
+ * Reads a calibration set: reference answers with the grade a sound judge should give
+ */
+export async function loadCalibrationSet(file: string): Promise<CalibrationCase[]> {
+  const content = await fs.readFile(file, 'utf8');
+  const raw = file.endsWith('.json') ? JSON.parse(content) : YAML.parse(content);
+  return calibrationSchema.parse(raw).cases;
+}
+
+export class GradingPanel {
+  private judges?: Judge[];
+  private params: PanelParams = { ...DEFAULT_PANEL_PARAMS };
+  private baselines = new Map<string, CalibrationStats>(); // First calibration per judge
+
+  constructor(judges?: Judge[]) {
+    this.judges = judges;
+  }
+
+  configure(params: Partial<PanelParams>): void {
+    this.params = { ...this.params, ...params };
+  }
+
+  getJudges(): Judge[] {
+    this.judges ??= createJudgesFromEnv();
+    return this.judges;
+  }
+
+  /**
+   * Grades with every judge in parallel. A judge that fails is left out of the verdict; the
+   * grade fails only when no judge produced one.
+   */
+  async grade(
+    jobPrompt: string,
+    agentResponse: string,
+    rubric?: Rubric
+  ): Promise<PanelGradeResult> {
+    const judges = await this.gradeAll(jobPrompt, agentResponse, rubric);
+    const panel = panelVerdict(judges, this.params);
+
+    const scores = judges
+      .map((j) => `${j.judge}=${j.error ? 'error' : j.passed ? j.qualityScore : 'fail'}`)
+      .join(' ');
+    log(
+      `[GradingPanel] ${panel.passed ? 'PASS' : 'FAIL'}${panel.qualityScore ? ` (${panel.qualityScore}/100)` : ''} from ${scores}, spread ${panel.spread}${panel.flagged ? ' - flagged for review' : ''}`
+    );
+
+    return {
+      passed: panel.passed,
+      qualityScore: panel.qualityScore,
+      criteria: panel.criteria,
+      feedback: judges.find((j) => !j.error && j.passed === panel.passed)?.feedback,
+      panel,
+      judges,
+    };
+  }
+
+  /**
+   * Grades the calibration set and compares each judge (and the panel as a whole) with its
+   * first calibration run
+   */
+  async calibrate(cases: CalibrationCase[], biasThreshold: number): Promise<DriftReport[]> {
+    const results: { case: CalibrationCase; grades: JudgeGrade[] }[] = [];
+    for (const calibrationCase of cases) {
+      const judges = await this.gradeAll(calibrationCase.prompt, calibrationCase.answer);
+      let panel: JudgeGrade;
+      try {
+        const verdict = panelVerdict(judges, this.params);
+        panel = {
+          judge: 'panel',
+          model: 'panel',
+          passed: verdict.passed,
+          qualityScore: verdict.qualityScore,
+        };
+      } catch (error) {
+        panel = { judge: 'panel', model: 'panel', passed: false, error: String(error) };
+      }
+      results.push({ case: calibrationCase, grades: [...judges, panel] });
+    }
+
+    const names = [...this.getJudges().map((j) => j.name), 'panel'];
+    return names.map((name) => {
+      const stats = calibrationStats(
+        name,
+        results.map((r) => ({ case: r.case, grade: r.grades.find((g) => g.judge === name)! }))
+      );
+      if (!this.baselines.has(name) && stats.cases > 0) this.baselines.set(name, stats);
+      return detectDrift(this.baselines.get(name) ?? stats, stats, biasThreshold);
+    });
+  }
+
+  private gradeAll(
+    jobPrompt: string,
+    agentResponse: string,
+    rubric?: Rubric
+  ): Promise<JudgeGrade[]> {
+    return Promise.all(
+      this.getJudges().map(async (judge): Promise<JudgeGrade> => {
+        try {
+          const grade = await judge.grader.gradeResponse(jobPrompt, agentResponse, rubric);
+          return {
+            judge: judge.name,
+            model: judge.model,
+            passed: grade.passed,
+            qualityScore: grade.qualityScore,
+            criteria: grade.criteria,
+            feedback: grade.feedback,
+          };
+        } catch (error) {
+          return {
+            judge: judge.name,
+            model: judge.model,
+            passed: false,
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      })
+    );
+  }
+}
+
+// Singleton instance
+export const gradingPanel = new GradingPanel();
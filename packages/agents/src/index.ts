@@ -8,16 +8,43 @@ export type { AgentArchetype } from './SimpleReactAgent';
 
 // Job generation
 export { jobGenerator } from './jobGenerator';
-export type { Job } from './jobGenerator';
+export type { Job, JobRequest, BatchDiversity } from './jobGenerator';
 
 // LLM-based grading
 export { llmGrader, LLMGrader } from './llmGrader';
 export type { GradeResult } from './llmGrader';
+export {
+  gradingPanel,
+  GradingPanel,
+  createJudgesFromEnv,
+  loadCalibrationSet,
+} from './gradingPanel';
+export type { PanelGradeResult, Judge } from './gradingPanel';
+
+// Ground-truth job suites with programmatic checkers
+export { registerChecker, runChecker, parseSuite, SuiteRegistry, suiteRegistry } from './suites';
+export type { CheckerSpec, CheckResult, JobSuite, SuiteTask, SuiteTaskRef } from './suites';
 
 // Name generation
 export { NameGenerator } from './nameGenerator';
 export type { AgentName } from './nameGenerator';
 
+// LLM provider fallback chains and circuit breakers
+export {
+  configureLLMResilience,
+  llmCircuitBreakers,
+  isRetryableLLMError,
+} from './llm/resilientProvider';
+export type { RetryOptions } from './llm/resilientProvider';
+
+// Structured LLM output and its per-component failure stats
+export {
+  invokeStructured,
+  getStructuredOutputStats,
+  StructuredOutputError,
+} from './llm/structured';
+export type { StructuredOptions, StructuredOutputStats } from './llm/structured';
+
 // Model preloading
 export { ModelPreloader, preloadModels } from './llm/modelPreloader';
 export type { PreloadOptions, PreloadResult } from './llm/modelPreloader';
@@ -30,7 +57,41 @@ export { toolValidator } from './tools/toolValidator';
 
 // Swarm Agent
 export { SwarmAgent, createSwarmAgent } from './SwarmAgent';
-export type { SwarmConfig, SwarmMember } from './SwarmAgent';
+export type { SwarmConfig, SwarmMember, MemberRun, SwarmRun } from './SwarmAgent';
+
+// Lineage / phylogeny
+export { LineageService, lineageService } from './lineage/LineageService';
+export type {
+  LineageEntityType,
+  LineageRecord,
+  LineageNode,
+  LineageTree,
+} from './lineage/LineageService';
+
+// Metabolism (per-job energy accounting)
+export {
+  MetabolismMeter,
+  recordLLMUsage,
+  recordToolCall,
+  recordWebCall,
+  tokenBudget,
+} from './metabolism/meter';
+export type { MetabolismUsage, LLMUsage, LLMSource } from './metabolism/meter';
+
+// Per-job execution traces
+export {
+  JobTracer,
+  withSpan,
+  failSpan,
+  setSpanAttributes,
+  setSpanOutput,
+  recordSpanTokens,
+  subtreeTokens,
+} from './tracing/tracer';
+export type { Span, SpanKind, SpanOptions } from './tracing/tracer';
+
+// OpenTelemetry instrumentation (the runner installs the SDK)
+export { withOtelSpan, setOtelAttributes } from './tracing/otel';
 
 // Core utilities (kept for compatibility)
 export { memoryManager } from './agentMemory';
@@ -1,43 +1,255 @@
 /**
  * Job Generator
- * Creates realistic professional work assignments for AI agents
+ * Creates realistic professional work assignments for AI agents, one category per batch.
+ * Near-duplicates of recent jobs are dropped, and a batch with nothing new is re-rolled.
  */
 
-import { createLLMProvider, LLMProvider } from './llm';
-import { log, logError } from '@soup/common';
+import { z } from 'zod';
+import { createLLMProvider, invokeStructured, LLMProvider } from './llm';
+import { ToolMemoryService } from './memory';
+import { IndexedPrompt, JobSimilarityIndex, Neighbour } from './jobSimilarity';
+import {
+  clampDifficulty,
+  clampPayout,
+  DedupParams,
+  DEFAULT_CATEGORY_PAYOUTS,
+  DEFAULT_DEDUP_PARAMS,
+  DiversityStats,
+  JobCategory,
+  log,
+  logError,
+  PayoutRange,
+} from '@soup/common';
 
 export interface Job {
+  category: JobCategory;
+  difficulty: number; // Curriculum level 1-5
   prompt: string;
   payout: number;
   deadlineS: number;
 }
 
-interface JobBatch {
-  jobs: Job[];
+export interface JobRequest {
+  payoutRange?: PayoutRange; // Defaults to the category's default range
+  difficulty?: number; // Defaults to 3
 }
 
+export interface BatchDiversity extends DiversityStats {
+  ts: string;
+  category: JobCategory;
+  difficulty: number;
+}
+
+type GeneratedJob = Omit<Job, 'category' | 'difficulty'>;
+
+// The LLM's batch reply; payouts are clamped to the requested range afterwards
+const JOB_BATCH_SCHEMA = z.object({
+  jobs: z
+    .array(
+      z.object({
+        prompt: z.string().min(1),
+        payout: z.coerce.number(),
+        deadlineS: z.coerce.number().positive(),
+      })
+    )
+    .min(1),
+});
+
+interface Candidate {
+  job: GeneratedJob;
+  entry: IndexedPrompt;
+  nearest: Neighbour | null;
+}
+
+// Category-specific instructions for the batch prompt
+const CATEGORY_TEMPLATES: Record<JobCategory, string> = {
+  web_research: `WEB RESEARCH tasks: questions that require looking up current, verifiable facts - market figures, product and pricing comparisons, company facts, regulations, release histories. Each task must name exactly what to find and the format of the answer.`,
+  summarize: `SUMMARIZATION tasks: each prompt must CONTAIN the full source text to summarize (a realistic email thread, report excerpt, meeting notes or customer feedback of 150-400 words) and state a word limit for the summary.`,
+  classify: `CLASSIFICATION tasks: each prompt must contain the item or items to classify (support tickets, leads, transactions, reviews) and an explicit, fixed list of allowed labels. Ask for the label(s) only.`,
+  math: `COMPUTATIONAL tasks: financial and operational calculations with concrete numbers - ROI, NPV, CAGR, loan amortization, unit economics, statistics over a small dataset given in the prompt, capacity planning. Every number needed must be in the prompt, and there must be one exact numeric answer.`,
+};
+
+// Curriculum levels; the generator is steered toward the requested one
+const DIFFICULTY_TEMPLATES: Record<number, string> = {
+  1: 'Very easy: a single step with all information given; a junior assistant finishes it in minutes.',
+  2: 'Easy: two or three straightforward steps with little ambiguity.',
+  3: 'Moderate: several steps, some judgement, and a clearly specified deliverable.',
+  4: 'Hard: multi-part work that combines several sources or calculations and has tight constraints.',
+  5: 'Very hard: demanding multi-step work with competing constraints, edge cases and a precise, verifiable deliverable.',
+};
+
 export class JobGenerator {
   private llm: LLMProvider;
-  private jobQueue: Job[] = [];
+  private jobQueues = new Map<string, Job[]>(); // Keyed by category and difficulty
   private batchSize = 10;
+  private dedup: DedupParams = { ...DEFAULT_DEDUP_PARAMS };
+  private similarityIndex = new JobSimilarityIndex(
+    (text) => ToolMemoryService.getInstance().embed(text),
+    DEFAULT_DEDUP_PARAMS.window
+  );
+  private diversity: BatchDiversity[] = []; // Latest batches, newest last
 
   constructor() {
     this.llm = createLLMProvider('job_generator');
   }
 
-  async generateJob(): Promise<Job> {
-    // Return job from queue if available, otherwise generate new batch
-    if (this.jobQueue.length > 0) {
-      return this.jobQueue.shift()!;
+  configureDeduplication(params: Partial<DedupParams>): void {
+    this.dedup = { ...this.dedup, ...params };
+    this.similarityIndex.window = this.dedup.window;
+  }
+
+  /**
+   * Indexes prompts of jobs generated before this process started (oldest first), so a restart
+   * does not repeat them. Returns how many were indexed.
+   */
+  async seedDeduplication(prompts: string[]): Promise<number> {
+    const recent = prompts.slice(-this.dedup.window);
+    for (const prompt of recent) {
+      this.similarityIndex.add(await this.similarityIndex.fingerprint(prompt));
+    }
+    return recent.length;
+  }
+
+  /**
+   * Diversity stats of the latest batches (up to 100), oldest first
+   */
+  getDiversityStats(): BatchDiversity[] {
+    return [...this.diversity];
+  }
+
+  async generateJob(category: JobCategory, request: JobRequest = {}): Promise<Job> {
+    const payoutRange = request.payoutRange ?? DEFAULT_CATEGORY_PAYOUTS[category];
+    const difficulty = clampDifficulty(request.difficulty ?? 3);
+
+    // Return job from the matching queue if available, otherwise generate new batch
+    const key = `${category}:${difficulty}`;
+    const queue = this.jobQueues.get(key) ?? [];
+    this.jobQueues.set(key, queue);
+    if (queue.length === 0) {
+      await this.generateJobBatch(category, difficulty, payoutRange, queue);
+    }
+
+    const job = queue.shift()!;
+    return { ...job, payout: clampPayout(job.payout, payoutRange) };
+  }
+
+  /**
+   * Fills the queue with the batch's jobs that are not near-duplicates of recent jobs (or of
+   * each other). A batch with no new jobs is re-rolled with the duplicates listed for the LLM to
+   * avoid; once re-rolls run out, the least similar job is taken so generation never stalls.
+   */
+  private async generateJobBatch(
+    category: JobCategory,
+    difficulty: number,
+    payoutRange: PayoutRange,
+    queue: Job[]
+  ): Promise<void> {
+    const accepted: Candidate[] = [];
+    const avoid: string[] = [];
+    let leastSimilar: Candidate | null = null;
+    let generated = 0;
+    let rerolls = 0;
+
+    for (let attempt = 0; attempt <= this.dedup.maxRerolls && !accepted.length; attempt++) {
+      if (attempt > 0) {
+        rerolls++;
+        log(`[JobGenerator] Every ${category} job was a near-duplicate, re-rolling the batch`);
+      }
+
+      const jobs = await this.requestJobBatch(category, difficulty, payoutRange, avoid);
+      for (const job of jobs) {
+        generated++;
+        const entry = await this.similarityIndex.fingerprint(job.prompt);
+        const nearest = this.similarityIndex.nearest(
+          entry,
+          accepted.map((c) => c.entry)
+        );
+        const candidate = { job, entry, nearest };
+
+        if (nearest && nearest.similarity >= this.thresholdFor(nearest)) {
+          avoid.push(job.prompt);
+          if (!leastSimilar || nearest.similarity < leastSimilar.nearest!.similarity) {
+            leastSimilar = candidate;
+          }
+          continue;
+        }
+        accepted.push(candidate);
+      }
+    }
+
+    if (!accepted.length && leastSimilar) {
+      log(
+        `[JobGenerator] No distinct ${category} jobs after ${rerolls} re-rolls, keeping the least similar (${leastSimilar.nearest!.similarity.toFixed(2)})`
+      );
+      accepted.push(leastSimilar);
+    }
+
+    for (const { job, entry } of accepted) {
+      this.similarityIndex.add(entry);
+      queue.push({ ...job, category, difficulty });
+    }
+    this.recordDiversity(category, difficulty, accepted, generated, rerolls);
+  }
+
+  private thresholdFor(neighbour: Neighbour): number {
+    return neighbour.method === 'embedding' ? this.dedup.threshold : this.dedup.lexicalThreshold;
+  }
+
+  private recordDiversity(
+    category: JobCategory,
+    difficulty: number,
+    accepted: Candidate[],
+    generated: number,
+    rerolls: number
+  ): void {
+    const mean = (values: number[]) =>
+      values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+    const pairwise: number[] = [];
+    for (let i = 0; i < accepted.length; i++) {
+      for (let j = i + 1; j < accepted.length; j++) {
+        pairwise.push(
+          this.similarityIndex.similarity(accepted[i].entry, accepted[j].entry).similarity
+        );
+      }
     }
 
-    // Generate new batch of jobs
-    await this.generateJobBatch();
-    return this.jobQueue.shift()!;
+    const stats: BatchDiversity = {
+      ts: new Date().toISOString(),
+      category,
+      difficulty,
+      generated,
+      accepted: accepted.length,
+      rejected: generated - accepted.length,
+      rerolls,
+      meanPairwiseSimilarity: mean(pairwise),
+      meanNearestSimilarity: mean(
+        accepted.filter((c) => c.nearest).map((c) => c.nearest!.similarity)
+      ),
+      method: accepted.every((c) => c.entry.embedding) ? 'embedding' : 'lexical',
+    };
+    this.diversity.push(stats);
+    if (this.diversity.length > 100) this.diversity.shift();
+
+    const fmt = (x: number | null) => (x === null ? 'n/a' : x.toFixed(2));
+    log(
+      `[JobGenerator] Diversity (${category}, difficulty ${difficulty}): ${stats.accepted}/${generated} accepted, ${stats.rejected} near-duplicates, ${rerolls} re-rolls, mean pairwise ${fmt(stats.meanPairwiseSimilarity)}, mean nearest ${fmt(stats.meanNearestSimilarity)} (${stats.method})`
+    );
   }
 
-  private async generateJobBatch(): Promise<void> {
-    const prompt = `Generate exactly 10 realistic work assignments that people would actually delegate to a professional AI assistant or agent. Return them in JSON format.
+  private async requestJobBatch(
+    category: JobCategory,
+    difficulty: number,
+    [minPayout, maxPayout]: PayoutRange,
+    avoid: string[]
+  ): Promise<GeneratedJob[]> {
+    const prompt = `Generate exactly ${this.batchSize} realistic work assignments that people would actually delegate to a professional AI assistant or agent. Return them in JSON format.
+
+CATEGORY:
+All tasks in this batch are ${CATEGORY_TEMPLATES[category]}
+
+DIFFICULTY (level ${difficulty} of 5):
+${DIFFICULTY_TEMPLATES[difficulty]}
 
 REALISM REQUIREMENTS:
 Create tasks that mirror real professional work scenarios - the kind of assignments managers, executives, entrepreneurs, researchers, and consultants actually delegate to assistants. These should feel like genuine workplace requests.
@@ -65,45 +277,39 @@ TASK COMPLETENESS:
 CRITICAL: Respond with ONLY valid JSON in this exact format (ensure all strings are properly quoted):
 {
   "jobs": [
-    {"prompt": "task description here", "payout": 7, "deadlineS": 60},
-    {"prompt": "another task description", "payout": 6, "deadlineS": 60}
+    {"prompt": "task description here", "payout": ${maxPayout}, "deadlineS": 60},
+    {"prompt": "another task description", "payout": ${minPayout}, "deadlineS": 60}
   ]
 }
-Generate exactly 10 jobs in the array.
+Generate exactly ${this.batchSize} jobs in the array.
 
-Payouts should be an number between 1-10 and be based on the percived complexity of the tassk. 
+Payouts should be a number between ${minPayout}-${maxPayout} and be based on the perceived complexity of the task.
 
 IMPORTANT: 
 - Do NOT wrap in markdown code blocks (no backticks)
 - Do NOT include any text before or after the JSON
 - Return only the raw JSON object
-- Start with { and end with }`;
-
-    try {
-      log('[JobGenerator] Requesting job batch from LLM...');
+- Start with { and end with }${
+      avoid.length
+        ? `
 
-      const response = await this.llm.invoke(prompt);
-      let jsonResponse = response.content as string;
+AVOID DUPLICATES: these tasks were already assigned. Generate clearly different ones:
+${avoid
+  .slice(-5)
+  .map((p) => `- ${p.substring(0, 150)}`)
+  .join('\n')}`
+        : ''
+    }`;
 
-      // Clean up LLM response - remove markdown code blocks
-      jsonResponse = jsonResponse
-        .replace(/```json\s*/, '')
-        .replace(/```\s*$/, '')
-        .trim();
-
-      log('[JobGenerator] JSON response length:', jsonResponse.length, 'characters');
-
-      // Parse JSON response
-      const jobBatch: JobBatch = JSON.parse(jsonResponse);
-
-      if (!jobBatch.jobs || !Array.isArray(jobBatch.jobs)) {
-        throw new Error('Invalid JSON response format');
-      }
+    try {
+      log(`[JobGenerator] Requesting ${category} job batch (difficulty ${difficulty}) from LLM...`);
 
-      // Add jobs to queue
-      this.jobQueue.push(...jobBatch.jobs);
+      const { jobs } = await invokeStructured(this.llm, prompt, JOB_BATCH_SCHEMA, {
+        component: 'job_generator',
+      });
 
-      log(`[JobGenerator] Generated ${jobBatch.jobs.length} jobs in batch`);
+      log(`[JobGenerator] Generated ${jobs.length} ${category} jobs in batch`);
+      return jobs;
     } catch (error) {
       logError('[JobGenerator] Failed to generate job batch:', error);
       throw error;
@@ -0,0 +1,67 @@
+/**
+ * Job Similarity Index
+ * Remembers the most recent accepted job prompts and finds a new prompt's nearest neighbour,
+ * using MiniLM embeddings when available and word shingles otherwise
+ */
+
+import { cosineSimilarity, jaccardSimilarity, shingles } from '@soup/common';
+
+export interface IndexedPrompt {
+  prompt: string;
+  embedding: number[] | null;
+  shingles: Set<string>;
+}
+
+export interface Neighbour {
+  prompt: string;
+  similarity: number;
+  method: 'embedding' | 'lexical';
+}
+
+export type Embedder = (text: string) => Promise<number[] | null>;
+
+export class JobSimilarityIndex {
+  private entries: IndexedPrompt[] = [];
+
+  constructor(
+    private embedder: Embedder,
+    public window = 200
+  ) {}
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  async fingerprint(prompt: string): Promise<IndexedPrompt> {
+    return { prompt, embedding: await this.embedder(prompt), shingles: shingles(prompt) };
+  }
+
+  /**
+   * Embedding cosine similarity when both prompts have embeddings, shingle Jaccard otherwise
+   */
+  similarity(a: IndexedPrompt, b: IndexedPrompt): Omit<Neighbour, 'prompt'> {
+    if (a.embedding && b.embedding) {
+      return { similarity: cosineSimilarity(a.embedding, b.embedding), method: 'embedding' };
+    }
+    return { similarity: jaccardSimilarity(a.shingles, b.shingles), method: 'lexical' };
+  }
+
+  /**
+   * Most similar prompt among the indexed ones plus `extra` (e.g. earlier jobs of the same batch)
+   */
+  nearest(entry: IndexedPrompt, extra: IndexedPrompt[] = []): Neighbour | null {
+    let best: Neighbour | null = null;
+    for (const other of [...this.entries, ...extra]) {
+      const match = this.similarity(entry, other);
+      if (!best || match.similarity > best.similarity) best = { prompt: other.prompt, ...match };
+    }
+    return best;
+  }
+
+  add(entry: IndexedPrompt): void {
+    this.entries.push(entry);
+    if (this.entries.length > this.window) {
+      this.entries.splice(0, this.entries.length - this.window);
+    }
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Lineage Service - Records parent -> child links for swarms and generated tools
+ * and resolves ancestor/descendant trees for the phylogeny view
+ */
+
+import { log, logError } from '@soup/common';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export type LineageEntityType = 'swarm' | 'tool';
+
+export interface LineageRecord {
+  entityType: LineageEntityType;
+  parentId: string | null; // null marks a root (seeded or first version)
+  childId: string;
+  mutation?: Record<string, unknown>;
+}
+
+export interface LineageNode {
+  id: string;
+  entityType: LineageEntityType;
+  mutation: Record<string, unknown> | null; // Mutation that produced this node from its parent
+  createdAt: Date | null;
+  parents?: LineageNode[];
+  children?: LineageNode[];
+}
+
+export interface LineageTree {
+  id: string;
+  entityType: LineageEntityType | null;
+  mutation: Record<string, unknown> | null; // Mutation that produced the entity itself
+  ancestors: LineageNode[];
+  descendants: LineageNode[];
+}
+
+const DEFAULT_MAX_DEPTH = 25;
+
+function parseMutation(mutation: string | null): Record<string, unknown> | null {
+  if (!mutation) return null;
+  try {
+    return JSON.parse(mutation);
+  } catch {
+    return { raw: mutation };
+  }
+}
+
+export class LineageService {
+  private static instance: LineageService;
+
+  private constructor() {}
+
+  static getInstance(): LineageService {
+    if (!LineageService.instance) {
+      LineageService.instance = new LineageService();
+    }
+    return LineageService.instance;
+  }
+
+  /**
+   * Records a birth. Failures are logged and swallowed so lineage never blocks evolution.
+   */
+  async record(record: LineageRecord): Promise<void> {
+    try {
+      await prisma.lineage.create({
+        data: {
+          entityType: record.entityType,
+          parentId: record.parentId,
+          childId: record.childId,
+          mutation: record.mutation ? JSON.stringify(record.mutation) : null,
+        },
+      });
+      log(`[Lineage] ${record.entityType} ${record.parentId ?? '(root)'} -> ${record.childId}`);
+    } catch (error) {
+      logError(`[Lineage] Failed to record ${record.entityType} ${record.childId}:`, error);
+    }
+  }
+
+  /**
+   * Returns the ancestor tree (via parents) and descendant tree (via children) of an entity
+   */
+  async getTree(id: string, maxDepth: number = DEFAULT_MAX_DEPTH): Promise<LineageTree> {
+    const births = await prisma.lineage.findMany({ where: { childId: id } });
+    const asParent = births.length
+      ? []
+      : await prisma.lineage.findMany({ where: { parentId: id }, take: 1 });
+
+    return {
+      id,
+      entityType: (births[0]?.entityType ??
+        asParent[0]?.entityType ??
+        null) as LineageEntityType | null,
+      mutation: parseMutation(births[0]?.mutation ?? null),
+      ancestors: await this.resolveAncestors(id, maxDepth, new Set([id])),
+      descendants: await this.resolveDescendants(id, maxDepth, new Set([id])),
+    };
+  }
+
+  private async resolveAncestors(
+    id: string,
+    depth: number,
+    visited: Set<string>
+  ): Promise<LineageNode[]> {
+    if (depth <= 0) return [];
+
+    const births = await prisma.lineage.findMany({
+      where: { childId: id, parentId: { not: null } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const parents: LineageNode[] = [];
+    for (const birth of births) {
+      const parentId = birth.parentId as string;
+      if (visited.has(parentId)) continue;
+      visited.add(parentId);
+
+      const parentBirth = await prisma.lineage.findFirst({ where: { childId: parentId } });
+      parents.push({
+        id: parentId,
+        entityType: birth.entityType as LineageEntityType,
+        mutation: parseMutation(parentBirth?.mutation ?? null),
+        createdAt: parentBirth?.createdAt ?? null,
+        parents: await this.resolveAncestors(parentId, depth - 1, visited),
+      });
+    }
+    return parents;
+  }
+
+  private async resolveDescendants(
+    id: string,
+    depth: number,
+    visited: Set<string>
+  ): Promise<LineageNode[]> {
+    if (depth <= 0) return [];
+
+    const births = await prisma.lineage.findMany({
+      where: { parentId: id },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const children: LineageNode[] = [];
+    for (const birth of births) {
+      if (visited.has(birth.childId)) continue;
+      visited.add(birth.childId);
+
+      children.push({
+        id: birth.childId,
+        entityType: birth.entityType as LineageEntityType,
+        mutation: parseMutation(birth.mutation),
+        createdAt: birth.createdAt,
+        children: await this.resolveDescendants(birth.childId, depth - 1, visited),
+      });
+    }
+    return children;
+  }
+}
+
+export const lineageService = LineageService.getInstance();
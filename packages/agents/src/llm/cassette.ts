@@ -0,0 +1,319 @@
+/**
+ * LLM Cassette - record-and-replay layer for LLM calls
+ * LLM_CASSETTE=record appends every response to a JSONL cassette; LLM_CASSETTE=replay serves
+ * responses from that cassette instead of calling the provider, so whole runs can be re-played.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { AIMessage, coerceMessageLikeToMessage } from '@langchain/core/messages';
+import type { BaseMessage } from '@langchain/core/messages';
+import type { ToolCall } from '@langchain/core/messages/tool';
+import type { ChatResult } from '@langchain/core/outputs';
+import { log } from '@soup/common';
+import {
+  ChatMessage,
+  ChatOptions,
+  ChatResponse,
+  ComponentType,
+  LLMConfig,
+  LLMProvider,
+  LLMProviderType,
+  LLMResponse,
+} from './types';
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export interface CassetteEntry {
+  key: string;
+  component: ComponentType;
+  provider: LLMProviderType;
+  model: string;
+  temperature: number;
+  promptHash: string;
+  promptPreview: string;
+  response: {
+    content: unknown;
+    toolCalls?: ToolCall[];
+  };
+  recordedAt: string;
+}
+
+type CassetteKeyConfig = Pick<LLMConfig, 'provider' | 'model' | 'temperature'>;
+
+/**
+ * Gets the cassette mode from LLM_CASSETTE (anything other than record/replay is off)
+ */
+export function getCassetteMode(): CassetteMode {
+  const mode = process.env.LLM_CASSETTE?.toLowerCase();
+  return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
+
+/**
+ * Gets the cassette file path from LLM_CASSETTE_FILE with a working-directory fallback
+ */
+export function getCassettePath(): string {
+  return path.resolve(process.env.LLM_CASSETTE_FILE || 'llm-cassette.jsonl');
+}
+
+class Cassette {
+  private filePath?: string;
+  private tracks = new Map<string, CassetteEntry[]>();
+
+  private load(): void {
+    const filePath = getCassettePath();
+    if (this.filePath === filePath) return;
+
+    this.filePath = filePath;
+    this.tracks.clear();
+
+    if (getCassetteMode() !== 'replay') return;
+
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`LLM cassette not found for replay: ${filePath}`);
+    }
+
+    const lines = fs
+      .readFileSync(filePath, 'utf8')
+      .split('\n')
+      .filter((line) => line.trim().length > 0);
+
+    for (const line of lines) {
+      const entry = JSON.parse(line) as CassetteEntry;
+      const track = this.tracks.get(entry.key) ?? [];
+      track.push(entry);
+      this.tracks.set(entry.key, track);
+    }
+
+    log(`[LLMCassette] Loaded ${lines.length} recorded responses from ${filePath}`);
+  }
+
+  /**
+   * Returns the next recorded response for a key (FIFO per key, so repeated prompts replay in order)
+   */
+  take(key: string): CassetteEntry {
+    this.load();
+    const entry = this.tracks.get(key)?.shift();
+    if (!entry) {
+      throw new Error(`LLM cassette miss for ${key} in ${this.filePath}`);
+    }
+    return entry;
+  }
+
+  record(entry: CassetteEntry): void {
+    this.load();
+    fs.ensureDirSync(path.dirname(this.filePath!));
+    fs.appendFileSync(this.filePath!, JSON.stringify(entry) + '\n', 'utf8');
+  }
+}
+
+const cassette = new Cassette();
+
+function buildEntry(
+  component: ComponentType,
+  config: CassetteKeyConfig,
+  promptText: string
+): Omit<CassetteEntry, 'response' | 'recordedAt'> {
+  const promptHash = crypto.createHash('sha256').update(promptText).digest('hex');
+  return {
+    key: `${component}|${config.model}|${config.temperature}|${promptHash}`,
+    component,
+    provider: config.provider,
+    model: config.model,
+    temperature: config.temperature,
+    promptHash,
+    promptPreview: promptText.slice(0, 200),
+  };
+}
+
+/**
+ * Normalises any LangChain chat input (string, message list or prompt value) into messages
+ */
+function toMessages(input: any): BaseMessage[] {
+  if (typeof input === 'string') {
+    return [coerceMessageLikeToMessage(input)];
+  }
+  if (input && typeof input.toChatMessages === 'function') {
+    return input.toChatMessages();
+  }
+  if (Array.isArray(input)) {
+    return input.map((message) => coerceMessageLikeToMessage(message));
+  }
+  return [coerceMessageLikeToMessage(input)];
+}
+
+function serializeMessages(messages: BaseMessage[]): string {
+  return JSON.stringify(
+    messages.map((message) => ({
+      type: message._getType(),
+      content: message.content,
+      tool_calls: (message as AIMessage).tool_calls?.length
+        ? (message as AIMessage).tool_calls
+        : undefined,
+      tool_call_id: (message as any).tool_call_id,
+    }))
+  );
+}
+
+/**
+ * Provider wrapper that records or replays every invoke call.
+ * In replay mode no underlying provider is needed, so replays run without credentials.
+ */
+export class CassetteProvider implements LLMProvider {
+  private config: LLMConfig;
+  private component: ComponentType;
+  private inner?: LLMProvider;
+
+  constructor(config: LLMConfig, component: ComponentType, inner?: LLMProvider) {
+    this.config = config;
+    this.component = component;
+    this.inner = inner;
+  }
+
+  async invoke(prompt: string): Promise<LLMResponse> {
+    const base = buildEntry(this.component, this.config, prompt);
+
+    if (getCassetteMode() === 'replay') {
+      return { content: String(cassette.take(base.key).response.content) };
+    }
+
+    if (!this.inner) {
+      throw new Error(`No provider available to record ${this.component} calls`);
+    }
+
+    const response = await this.inner.invoke(prompt);
+    cassette.record({
+      ...base,
+      response: { content: response.content },
+      recordedAt: new Date().toISOString(),
+    });
+    return response;
+  }
+
+  /**
+   * Chat calls are keyed by the whole conversation plus the tools and response format offered
+   */
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResponse> {
+    const base = buildEntry(
+      this.component,
+      this.config,
+      JSON.stringify({ messages, tools: options.tools, responseFormat: options.responseFormat })
+    );
+
+    if (getCassetteMode() === 'replay') {
+      const { response } = cassette.take(base.key);
+      return {
+        content: String(response.content),
+        toolCalls: (response.toolCalls ?? []).map((call, index) => ({
+          id: call.id || `call_${index}`,
+          name: call.name,
+          args: call.args,
+        })),
+      };
+    }
+
+    if (!this.inner) {
+      throw new Error(`No provider available to record ${this.component} calls`);
+    }
+
+    const response = await this.inner.chat(messages, options);
+    cassette.record({
+      ...base,
+      response: {
+        content: response.content,
+        toolCalls: response.toolCalls.length ? response.toolCalls : undefined,
+      },
+      recordedAt: new Date().toISOString(),
+    });
+    return response;
+  }
+
+  getModel(): string {
+    return this.config.model;
+  }
+
+  getProvider(): LLMProviderType {
+    return this.inner?.getProvider() ?? this.config.provider;
+  }
+
+  getConfig(): LLMConfig {
+    return { ...this.config };
+  }
+
+  getLangChainModel(): any {
+    if (getCassetteMode() === 'replay') {
+      return wrapLangChainModel(new ReplayChatModel(), this.component, this.config);
+    }
+
+    if (this.inner && 'getLangChainModel' in this.inner) {
+      return wrapLangChainModel(
+        (this.inner as any).getLangChainModel(),
+        this.component,
+        this.config
+      );
+    }
+
+    throw new Error(`LangChain model access not available for provider: ${this.getProvider()}`);
+  }
+}
+
+/**
+ * Patches a LangChain chat model's invoke so calls are recorded to or replayed from the cassette.
+ * Tool-bound copies (bindTools) delegate to the instance invoke, so ReAct agents are covered too.
+ */
+export function wrapLangChainModel<T extends { invoke: (...args: any[]) => Promise<any> }>(
+  model: T,
+  component: ComponentType,
+  config: CassetteKeyConfig
+): T {
+  if (getCassetteMode() === 'off') return model;
+
+  const originalInvoke = model.invoke.bind(model);
+  model.invoke = (async (input: any, options?: any) => {
+    const base = buildEntry(component, config, serializeMessages(toMessages(input)));
+
+    if (getCassetteMode() === 'replay') {
+      const { response } = cassette.take(base.key);
+      return new AIMessage({
+        content: response.content as any,
+        tool_calls: response.toolCalls ?? [],
+      });
+    }
+
+    const result = await originalInvoke(input, options);
+    cassette.record({
+      ...base,
+      response: {
+        content: result?.content,
+        toolCalls: result?.tool_calls?.length ? result.tool_calls : undefined,
+      },
+      recordedAt: new Date().toISOString(),
+    });
+    return result;
+  }) as T['invoke'];
+
+  return model;
+}
+
+/**
+ * Placeholder chat model used in replay mode; every call is answered by the cassette patch.
+ */
+class ReplayChatModel extends BaseChatModel {
+  constructor() {
+    super({});
+  }
+
+  _llmType(): string {
+    return 'cassette-replay';
+  }
+
+  bindTools(): this {
+    return this;
+  }
+
+  async _generate(): Promise<ChatResult> {
+    throw new Error('Replay model must be invoked through the LLM cassette');
+  }
+}
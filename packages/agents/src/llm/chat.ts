@@ -0,0 +1,83 @@
+/**
+ * Helpers shared by the providers' chat() implementations
+ */
+
+import {
+  AIMessage,
+  BaseMessage,
+  HumanMessage,
+  SystemMessage,
+  ToolMessage,
+} from '@langchain/core/messages';
+import { ChatMessage, LLMToolCall } from './types';
+
+/**
+ * Flattens a conversation into one prompt: used for logging, token estimates, cassette keys and
+ * providers without a native chat endpoint
+ */
+export function chatPromptText(messages: ChatMessage[]): string {
+  return messages
+    .map((message) => {
+      const calls = message.toolCalls?.length
+        ? `\n[tool calls: ${JSON.stringify(message.toolCalls)}]`
+        : '';
+      return `${message.role}: ${message.content}${calls}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Tool call arguments arrive as an object (Ollama, LangChain) or a JSON string (OpenAI)
+ */
+export function parseToolArgs(raw: unknown): Record<string, unknown> {
+  if (raw && typeof raw === 'object' && !Array.isArray(raw)) return raw as Record<string, unknown>;
+  if (typeof raw === 'string' && raw.trim()) {
+    try {
+      const parsed = JSON.parse(raw);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed;
+    } catch {
+      // Malformed arguments: surfaced as an empty call rather than failing the whole turn
+    }
+  }
+  return {};
+}
+
+export function toLangChainMessages(messages: ChatMessage[]): BaseMessage[] {
+  return messages.map((message) => {
+    switch (message.role) {
+      case 'system':
+        return new SystemMessage(message.content);
+      case 'assistant':
+        return new AIMessage({
+          content: message.content,
+          tool_calls: message.toolCalls?.map((call) => ({ ...call, type: 'tool_call' as const })),
+        });
+      case 'tool':
+        return new ToolMessage({
+          content: message.content,
+          tool_call_id: message.toolCallId ?? '',
+        });
+      default:
+        return new HumanMessage(message.content);
+    }
+  });
+}
+
+/**
+ * Text of a LangChain message content (a string, or a list of content parts)
+ */
+export function contentText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content.map((part) => (typeof part === 'string' ? part : (part?.text ?? ''))).join('');
+  }
+  return content == null ? '' : String(content);
+}
+
+export function fromLangChainToolCalls(message: AIMessage): LLMToolCall[] {
+  return (message.tool_calls ?? []).map((call, index) => ({
+    id: call.id || `call_${index}`,
+    name: call.name,
+    args: parseToolArgs(call.args),
+  }));
+}
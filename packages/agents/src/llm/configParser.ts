@@ -2,7 +2,7 @@
  * LLM Configuration Parser and Resolution
  */
 
-import { ComponentType, ParsedLLMConfig, LLMConfig, LLMProviderType } from './types';
+import { ComponentType, ParsedLLMConfig, LLMConfig, LLMProviderType, LLMOverrides } from './types';
 import { getVertexTokenLimit } from '@soup/common';
 
 /**
@@ -11,7 +11,9 @@ import { getVertexTokenLimit } from '@soup/common';
  * Examples:
  *   "ollama:llama3.2:7b:0.8:2000"       (Ollama model with parameter size)
  *   "vertex:gemini-1.5-pro:0.9:4000"    (Vertex AI model)
+ *   "openai:qwen2.5-7b-instruct:0.2:"   (OpenAI-compatible server, e.g. vLLM)
  *   "auto:granite3.1-dense:8b:0.1:"     (Auto with empty maxTokens)
+ *   "mock"                              (Offline mock provider with defaults)
  *
  * Note: Parses right-to-left to handle Ollama model names with colons (e.g., "llama3.2:7b")
  */
@@ -103,6 +105,10 @@ function getDefaultModel(provider: LLMProviderType): string {
       return process.env.VERTEX_AI_MODEL || 'gemini-1.5-flash';
     case 'ollama':
       return process.env.OLLAMA_MODEL || 'llama3.2';
+    case 'openai':
+      return process.env.OPENAI_MODEL || 'default';
+    case 'mock':
+      return process.env.LLM_MOCK_MODEL || 'mock';
     case 'auto':
       return process.env.DEFAULT_MODEL || 'gemini-1.5-flash';
     default:
@@ -116,7 +122,13 @@ function getDefaultModel(provider: LLMProviderType): string {
 function resolveGlobalProvider(): LLMProviderType {
   // Check new LLM_PROVIDER variable first
   const provider = process.env.LLM_PROVIDER?.toLowerCase();
-  if (provider === 'vertex' || provider === 'ollama' || provider === 'auto') {
+  if (
+    provider === 'vertex' ||
+    provider === 'ollama' ||
+    provider === 'openai' ||
+    provider === 'mock' ||
+    provider === 'auto'
+  ) {
     return provider as LLMProviderType;
   }
 
@@ -132,7 +144,7 @@ function resolveGlobalProvider(): LLMProviderType {
 /**
  * Resolves complete LLM configuration for a component
  */
-export function resolveLLMConfig(component: ComponentType): LLMConfig {
+export function resolveLLMConfig(component: ComponentType, overrides?: LLMOverrides): LLMConfig {
   // Step 1: Get component-specific configuration if available
   const componentConfigKey = `LLM_CONFIG_${component.toUpperCase()}`;
   const componentConfigString = process.env[componentConfigKey];
@@ -142,16 +154,17 @@ export function resolveLLMConfig(component: ComponentType): LLMConfig {
     parsedConfig = parseComponentConfig(componentConfigString);
   }
 
-  // Step 2: Resolve provider (component-specific > global > fallback)
-  const provider = parsedConfig.provider || resolveGlobalProvider();
+  // Step 2: Resolve provider (override > component-specific > global > fallback)
+  const provider = overrides?.provider || parsedConfig.provider || resolveGlobalProvider();
 
-  // Step 3: Resolve model (component-specific > provider-default > fallback)
-  const model = parsedConfig.model || getDefaultModel(provider);
+  // Step 3: Resolve model (override > component-specific > provider-default > fallback)
+  const model = overrides?.model || parsedConfig.model || getDefaultModel(provider);
 
-  // Step 4: Resolve temperature (component-specific > component-default)
-  const temperature = parsedConfig.temperature ?? getDefaultTemperature(component);
+  // Step 4: Resolve temperature (override > component-specific > component-default)
+  const temperature =
+    overrides?.temperature ?? parsedConfig.temperature ?? getDefaultTemperature(component);
 
-  // Step 5: Resolve token limit (component-specific > existing system limits)
+  // Step 5: Resolve token limit (override > component-specific > existing system limits)
   // Map new components to existing ones for backward compatibility
   const tokenLimitComponent =
     component === 'result_grader'
@@ -159,7 +172,10 @@ export function resolveLLMConfig(component: ComponentType): LLMConfig {
       : component === 'swarm_synthesizer'
         ? 'agent'
         : component;
-  const maxOutputTokens = parsedConfig.maxOutputTokens ?? getVertexTokenLimit(tokenLimitComponent);
+  const maxOutputTokens =
+    overrides?.maxOutputTokens ??
+    parsedConfig.maxOutputTokens ??
+    getVertexTokenLimit(tokenLimitComponent);
 
   const finalConfig: LLMConfig = {
     provider,
@@ -177,3 +193,37 @@ export function resolveLLMConfig(component: ComponentType): LLMConfig {
 export function getOllamaUrl(): string {
   return process.env.OLLAMA_URL || 'http://localhost:11434';
 }
+
+/**
+ * Gets the OpenAI-compatible base URL (including /v1) from environment with fallback
+ */
+export function getOpenAIBaseUrl(): string {
+  return process.env.OPENAI_BASE_URL || 'http://localhost:8080/v1';
+}
+
+/**
+ * Resolves the fallback chain configured for a component (LLM_FALLBACK_<COMPONENT>): a
+ * comma-separated list of component configs tried in order after the primary. Fields an entry
+ * leaves out are taken from the primary (the model only when the provider matches).
+ */
+export function resolveFallbackConfigs(component: ComponentType, primary: LLMConfig): LLMConfig[] {
+  const fallbackString = process.env[`LLM_FALLBACK_${component.toUpperCase()}`];
+  if (!fallbackString) return [];
+
+  return fallbackString
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const parsed = parseComponentConfig(entry);
+      const provider = parsed.provider || primary.provider;
+      return {
+        provider,
+        model:
+          parsed.model ||
+          (provider === primary.provider ? primary.model : getDefaultModel(provider)),
+        temperature: parsed.temperature ?? primary.temperature,
+        maxOutputTokens: parsed.maxOutputTokens ?? primary.maxOutputTokens,
+      };
+    });
+}
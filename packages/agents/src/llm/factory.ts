@@ -2,42 +2,46 @@
  * LLM Provider Factory - Main entry point for creating LLM providers
  */
 
-import { LLMProvider, ComponentType, LLMConfig } from './types';
+import { LLMProvider, ComponentType, LLMConfig, LLMOverrides } from './types';
 import { VertexAIProvider } from './vertexProvider';
 import { OllamaProvider } from './ollamaProvider';
-import { resolveLLMConfig, getOllamaUrl } from './configParser';
+import { OpenAIProvider } from './openaiProvider';
+import { MockProvider } from './mockProvider';
+import { CassetteProvider, getCassetteMode } from './cassette';
+import { MeteredProvider } from './meteredProvider';
+import { ResilientProvider, breakerKey } from './resilientProvider';
+import {
+  resolveLLMConfig,
+  resolveFallbackConfigs,
+  getOllamaUrl,
+  getOpenAIBaseUrl,
+} from './configParser';
 import { log, logError } from '@soup/common';
 
 /**
  * Creates an LLM provider for a specific component
  * Handles configuration resolution, provider selection, and error handling
  */
-export function createLLMProvider(component: ComponentType): LLMProvider {
+export function createLLMProvider(component: ComponentType, overrides?: LLMOverrides): LLMProvider {
   try {
     // Resolve complete configuration for this component
-    const config = resolveLLMConfig(component);
+    const config = resolveLLMConfig(component, overrides);
 
     log(
       `[LLMFactory] Creating ${config.provider} provider for ${component}: ${config.model} (temp=${config.temperature})`
     );
 
-    // Create provider based on resolved configuration
-    switch (config.provider) {
-      case 'vertex':
-        return new VertexAIProvider(config);
-
-      case 'ollama': {
-        const ollamaUrl = getOllamaUrl();
-        return new OllamaProvider(config, ollamaUrl);
-      }
-
-      case 'auto':
-        // Auto provider tries vertex first, then ollama as fallback
-        return createAutoProvider(config, component);
-
-      default:
-        throw new Error(`Unknown provider: ${config.provider}`);
+    // Replay serves every response from the cassette, so no real provider is needed
+    const cassetteMode = getCassetteMode();
+    if (cassetteMode === 'replay') {
+      return new MeteredProvider(new CassetteProvider(config, component), component);
     }
+
+    const provider = createProviderChain(config, component);
+    return new MeteredProvider(
+      cassetteMode === 'record' ? new CassetteProvider(config, component, provider) : provider,
+      component
+    );
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : 'Unknown factory error';
     logError(`[LLMFactory] Failed to create provider for ${component}: ${errorMsg}`);
@@ -46,30 +50,69 @@ export function createLLMProvider(component: ComponentType): LLMProvider {
 }
 
 /**
- * Auto provider implementation - tries Vertex AI first, then Ollama
+ * Creates the concrete provider for a resolved configuration ("auto" is expanded by the chain)
  */
-function createAutoProvider(config: LLMConfig, component: ComponentType): LLMProvider {
-  try {
-    // First try Vertex AI
-    log(`[LLMFactory] Auto provider trying Vertex AI for ${component}`);
-    const vertexConfig = { ...config, provider: 'vertex' as const };
-    return new VertexAIProvider(vertexConfig);
-  } catch (vertexError) {
-    log(
-      `[LLMFactory] Vertex AI failed for ${component}, trying Ollama: ${vertexError instanceof Error ? vertexError.message : 'Unknown error'}`
-    );
+function createBaseProvider(config: LLMConfig, component: ComponentType): LLMProvider {
+  switch (config.provider) {
+    case 'vertex':
+      return new VertexAIProvider(config);
 
-    try {
-      // Fallback to Ollama
-      const ollamaConfig = { ...config, provider: 'ollama' as const };
+    case 'ollama': {
       const ollamaUrl = getOllamaUrl();
-      return new OllamaProvider(ollamaConfig, ollamaUrl);
-    } catch (ollamaError) {
-      throw new Error(
-        `Auto provider failed - Vertex AI: ${vertexError instanceof Error ? vertexError.message : 'Unknown error'}, Ollama: ${ollamaError instanceof Error ? ollamaError.message : 'Unknown error'}`
-      );
+      return new OllamaProvider(config, ollamaUrl);
+    }
+
+    case 'openai':
+      // Any /v1/chat/completions server (llama.cpp, vLLM, LM Studio, OpenAI)
+      return new OpenAIProvider(config, getOpenAIBaseUrl(), process.env.OPENAI_API_KEY || '');
+
+    case 'mock':
+      // Deterministic offline provider (fixtures + seeded fallback)
+      return new MockProvider(config, component);
+
+    default:
+      throw new Error(`Unknown provider: ${config.provider}`);
+  }
+}
+
+/**
+ * Builds the provider chain for a component: the primary config, then its LLM_FALLBACK_<COMPONENT>
+ * entries, with "auto" expanding to Vertex AI then Ollama. Providers that cannot be constructed
+ * (e.g. Vertex AI without a project) are left out. Anything but a lone mock provider is wrapped in
+ * a ResilientProvider for retries, fallback and circuit breaking.
+ */
+function createProviderChain(config: LLMConfig, component: ComponentType): LLMProvider {
+  const configs = [config, ...resolveFallbackConfigs(component, config)].flatMap((c) =>
+    c.provider === 'auto'
+      ? [
+          { ...c, provider: 'vertex' as const },
+          { ...c, provider: 'ollama' as const },
+        ]
+      : [c]
+  );
+
+  const chain: LLMProvider[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  for (const entry of configs) {
+    const key = breakerKey(entry.provider, entry.model);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    try {
+      chain.push(createBaseProvider(entry, component));
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      log(`[LLMFactory] Skipping ${key} for ${component}: ${errorMsg}`);
+      errors.push(`${key}: ${errorMsg}`);
     }
   }
+
+  if (!chain.length) throw new Error(errors.join('; '));
+  if (chain.length === 1 && chain[0].getProvider() === 'mock') return chain[0];
+
+  const provider = new ResilientProvider(chain, component);
+  if (chain.length > 1) log(`[LLMFactory] Provider chain for ${component}: ${provider.describe()}`);
+  return provider;
 }
 
 /**
@@ -82,10 +125,13 @@ export function createVertexAILLM(component: ComponentType = 'agent'): LLMProvid
 
 /**
  * Creates a LangChain-compatible LLM instance for tools requiring the underlying model
- * Note: This works with Vertex AI and Ollama providers that implement LangChain compatibility
+ * Note: This works with Vertex AI, Ollama, OpenAI-compatible and mock providers that implement LangChain compatibility
  */
-export function createVertexAILangChainLLM(component: ComponentType = 'agent'): any {
-  const provider = createLLMProvider(component);
+export function createVertexAILangChainLLM(
+  component: ComponentType = 'agent',
+  overrides?: LLMOverrides
+): any {
+  const provider = createLLMProvider(component, overrides);
 
   // Check if this provider has LangChain model access
   if ('getLangChainModel' in provider) {
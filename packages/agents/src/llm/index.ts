@@ -7,17 +7,52 @@ export type {
   LLMProvider,
   LLMConfig,
   LLMResponse,
+  TokenUsage,
+  ChatRole,
+  ChatMessage,
+  ChatOptions,
+  ChatResponse,
+  ToolDefinition,
+  LLMToolCall,
+  ResponseFormat,
   ComponentType,
   LLMProviderType,
   ParsedLLMConfig,
+  LLMOverrides,
 } from './types';
 
 // Provider implementations
 export { VertexAIProvider } from './vertexProvider';
 export { OllamaProvider } from './ollamaProvider';
+export { OpenAIProvider } from './openaiProvider';
+export { MockProvider, MockChatModel } from './mockProvider';
+export type { MockFixtureRule, MockFixtureFile } from './mockProvider';
+
+// Chat message helpers
+export { chatPromptText, parseToolArgs, toLangChainMessages } from './chat';
+
+// Structured output with schema validation and repair
+export type {
+  StructuredOptions,
+  StructuredFailureReason,
+  StructuredOutputStats,
+} from './structured';
+export {
+  invokeStructured,
+  extractJson,
+  getStructuredOutputStats,
+  StructuredOutputError,
+  DEFAULT_MAX_REPAIRS,
+} from './structured';
 
 // Configuration and factory
-export { parseComponentConfig, resolveLLMConfig, getOllamaUrl } from './configParser';
+export {
+  parseComponentConfig,
+  resolveLLMConfig,
+  resolveFallbackConfigs,
+  getOllamaUrl,
+  getOpenAIBaseUrl,
+} from './configParser';
 
 export {
   createLLMProvider,
@@ -26,6 +61,21 @@ export {
   testProviderConfiguration,
 } from './factory';
 
+// Fallback chains with retries and circuit breakers
+export type { RetryOptions } from './resilientProvider';
+export {
+  ResilientProvider,
+  DEFAULT_RETRY_OPTIONS,
+  llmCircuitBreakers,
+  configureLLMResilience,
+  breakerKey,
+  isRetryableLLMError,
+} from './resilientProvider';
+
+// Record-and-replay cassette
+export type { CassetteMode, CassetteEntry } from './cassette';
+export { CassetteProvider, getCassetteMode, getCassettePath, wrapLangChainModel } from './cassette';
+
 // Convenience exports for backward compatibility
 export { createLLMProvider as createLLM } from './factory';
 
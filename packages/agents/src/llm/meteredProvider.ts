@@ -0,0 +1,103 @@
+/**
+ * Provider wrapper that enforces the token budget, reports token usage to the metabolism meter,
+ * traces each call and records its OTel metrics
+ */
+
+import {
+  LLMProvider,
+  LLMConfig,
+  LLMResponse,
+  LLMProviderType,
+  ComponentType,
+  ChatMessage,
+  ChatOptions,
+  ChatResponse,
+} from './types';
+import { chatPromptText } from './chat';
+import {
+  assertTokenBudget,
+  chargeLLMCall,
+  estimateTokens,
+  llmAttributes,
+  LLMSource,
+  meterLangChainModel,
+} from '../metabolism/meter';
+import { setSpanAttributes, setSpanOutput, withSpan } from '../tracing/tracer';
+import { measureLLMCall } from '../tracing/otel';
+
+export class MeteredProvider implements LLMProvider {
+  constructor(
+    private inner: LLMProvider,
+    private component: ComponentType
+  ) {}
+
+  invoke(prompt: string): Promise<LLMResponse> {
+    return this.metered(prompt, () => this.inner.invoke(prompt));
+  }
+
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
+    return this.metered(
+      chatPromptText(messages),
+      () => this.inner.chat(messages, options),
+      (response) =>
+        response.toolCalls.length ? JSON.stringify(response.toolCalls) : response.content
+    );
+  }
+
+  private metered<T extends LLMResponse>(
+    prompt: string,
+    call: () => Promise<T>,
+    output: (response: T) => string = (response) => response.content ?? ''
+  ): Promise<T> {
+    return withSpan(
+      `llm:${this.component}`,
+      'llm',
+      async () => {
+        setSpanAttributes({ provider: this.getProvider(), model: this.getModel() });
+        const source = this.source();
+        assertTokenBudget(source);
+        const response = await measureLLMCall(llmAttributes(source, this.component), call);
+        const text = output(response);
+        const inputTokens = response.usage?.inputTokens ?? estimateTokens(prompt);
+        const outputTokens = response.usage?.outputTokens ?? estimateTokens(text);
+        // A fallback chain may have been served by a later provider: charge that one's pool
+        const served = response.provider
+          ? { provider: response.provider, model: response.model ?? source.model }
+          : source;
+        if (served !== source)
+          setSpanAttributes({ provider: served.provider, model: served.model });
+        chargeLLMCall(served, this.component, inputTokens, outputTokens);
+        setSpanOutput(text);
+        return response;
+      },
+      { input: prompt }
+    );
+  }
+
+  getModel(): string {
+    return this.inner.getModel();
+  }
+
+  getProvider(): LLMProviderType {
+    return this.inner.getProvider();
+  }
+
+  getConfig(): LLMConfig {
+    return this.inner.getConfig();
+  }
+
+  getLangChainModel(): any {
+    if (!('getLangChainModel' in this.inner)) {
+      throw new Error(
+        `LangChain model access not available for provider: ${this.inner.getProvider()}`
+      );
+    }
+    return meterLangChainModel((this.inner as any).getLangChainModel(), this.component, () =>
+      this.source()
+    );
+  }
+
+  private source(): LLMSource {
+    return { provider: this.getProvider(), model: this.getModel() };
+  }
+}
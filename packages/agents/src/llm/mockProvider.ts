@@ -0,0 +1,300 @@
+/**
+ * Mock Provider Implementation
+ * Deterministic, fully offline provider driven by a fixture file of prompt-pattern rules
+ * with a seeded fallback generator for anything the fixtures do not cover.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { AIMessage } from '@langchain/core/messages';
+import type { BaseMessage } from '@langchain/core/messages';
+import type { ChatResult } from '@langchain/core/outputs';
+import { log, logError, seededRandom } from '@soup/common';
+import {
+  ChatMessage,
+  ChatOptions,
+  ChatResponse,
+  ComponentType,
+  LLMConfig,
+  LLMProvider,
+  LLMResponse,
+} from './types';
+export interface MockFixtureRule {
+  /** Regular expression source matched against the full prompt text */
+  pattern: string;
+  flags?: string;
+  /** Restrict the rule to a single component (matches every component when omitted) */
+  component?: ComponentType;
+  response: string;
+}
+
+export interface MockFixtureFile {
+  seed?: number;
+  rules: MockFixtureRule[];
+}
+
+interface CompiledRule {
+  regex: RegExp;
+  component?: ComponentType;
+  response: string;
+}
+
+const fixtureCache = new Map<string, { seed?: number; rules: CompiledRule[] }>();
+
+function loadFixtures(fixturePath: string): { seed?: number; rules: CompiledRule[] } {
+  const resolved = path.resolve(fixturePath);
+  const cached = fixtureCache.get(resolved);
+  if (cached) return cached;
+
+  const raw = fs.readJsonSync(resolved) as MockFixtureFile;
+  if (!raw || !Array.isArray(raw.rules)) {
+    throw new Error(`Mock fixture file ${resolved} must contain a "rules" array`);
+  }
+
+  const compiled = {
+    seed: raw.seed,
+    rules: raw.rules.map((rule, index) => {
+      if (typeof rule.pattern !== 'string' || typeof rule.response !== 'string') {
+        throw new Error(`Mock fixture rule #${index} needs string "pattern" and "response" fields`);
+      }
+      return {
+        regex: new RegExp(rule.pattern, rule.flags ?? 'i'),
+        component: rule.component,
+        response: rule.response,
+      };
+    }),
+  };
+
+  fixtureCache.set(resolved, compiled);
+  log(`[MockProvider] Loaded ${compiled.rules.length} fixture rules from ${resolved}`);
+  return compiled;
+}
+
+/**
+ * Seed for the fallback's PRNG, so fallback output only depends on the seed and its inputs
+ */
+function hashToSeed(...parts: Array<string | number>): number {
+  const digest = crypto.createHash('sha256').update(parts.join('\u0000')).digest();
+  return digest.readUInt32BE(0);
+}
+
+const pick = <T>(rng: () => number, items: readonly T[]): T =>
+  items[Math.floor(rng() * items.length)];
+
+const JOB_SUBJECTS = [
+  'Shopify Plus migration for a 40-person apparel brand',
+  'Q3 churn analysis for a B2B SaaS company on HubSpot',
+  'AWS cost review for a fintech startup spending $48k/month',
+  'vendor comparison of Zendesk and Freshdesk for a 25-agent support team',
+  'Salesforce pipeline hygiene audit for a regional logistics firm',
+  'Slack channel governance policy for a 600-employee company',
+  'pricing page teardown for a developer tools startup',
+  'hiring plan for a 12-person data engineering team',
+];
+
+const JOB_TASKS = [
+  'Write a one-page executive summary covering',
+  'Produce a prioritised checklist of next steps for the',
+  'Draft a stakeholder email summarising the risks of the',
+  'Calculate the expected ROI and payback period for the',
+  'Classify the main risks (low/medium/high) involved in the',
+  'Research current best practices and recommend an approach for the',
+];
+
+const NAME_FIRSTS = [
+  'Zephyr',
+  'Mordak',
+  'Luna',
+  'Bramble',
+  'Quill',
+  'Thistle',
+  'Orrin',
+  'Vesper',
+  'Kestrel',
+  'Marlow',
+];
+
+const NAME_TRAITS = [
+  'Code-Weaver',
+  'Wiki-Wanderer',
+  'Calculation-Crusher',
+  'Browser-Breaker',
+  'Question-Quencher',
+  'Trend-Tracker',
+  'Fact-Finder',
+  'Budget-Bender',
+];
+
+export class MockProvider implements LLMProvider {
+  private config: LLMConfig;
+  private component: ComponentType;
+  private seed: number;
+  private rules: CompiledRule[] = [];
+  private occurrences = new Map<string, number>();
+  private langChainModel?: MockChatModel;
+
+  constructor(config: LLMConfig, component: ComponentType) {
+    this.config = config;
+    this.component = component;
+
+    const fixturePath = process.env.LLM_MOCK_FIXTURES;
+    let fixtureSeed: number | undefined;
+    if (fixturePath) {
+      try {
+        const fixtures = loadFixtures(fixturePath);
+        this.rules = fixtures.rules;
+        fixtureSeed = fixtures.seed;
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown fixture error';
+        logError(`[MockProvider] Failed to load fixtures from ${fixturePath}: ${errorMsg}`);
+        throw new Error(`Mock provider failed to load fixtures: ${errorMsg}`);
+      }
+    }
+
+    const envSeed = Number(process.env.LLM_MOCK_SEED);
+    this.seed =
+      Number.isFinite(envSeed) && process.env.LLM_MOCK_SEED ? envSeed : (fixtureSeed ?? 42);
+  }
+
+  async invoke(prompt: string): Promise<LLMResponse> {
+    return { content: this.respond(prompt) };
+  }
+
+  /**
+   * Responds to the flattened conversation. Never calls tools; in JSON mode a non-JSON response
+   * is wrapped as {"response": ...} so callers always get an object.
+   */
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResponse> {
+    // Matched like MockChatModel: message contents joined with blank lines
+    const content = this.respond(messages.map((message) => message.content).join('\n\n'));
+    if (options.responseFormat !== 'json') return { content, toolCalls: [] };
+    try {
+      JSON.parse(content);
+      return { content, toolCalls: [] };
+    } catch {
+      return { content: JSON.stringify({ response: content }), toolCalls: [] };
+    }
+  }
+
+  /**
+   * Resolves a response for a prompt: first matching fixture rule, otherwise the seeded fallback.
+   * Identical prompts are numbered so repeated calls vary while staying reproducible.
+   */
+  respond(prompt: string): string {
+    for (const rule of this.rules) {
+      if (rule.component && rule.component !== this.component) continue;
+      if (rule.regex.test(prompt)) {
+        return rule.response;
+      }
+    }
+
+    const promptHash = crypto.createHash('sha256').update(prompt).digest('hex');
+    const occurrence = this.occurrences.get(promptHash) ?? 0;
+    this.occurrences.set(promptHash, occurrence + 1);
+
+    const rng = seededRandom(hashToSeed(this.seed, this.component, promptHash, occurrence));
+    return this.generateFallback(prompt, rng);
+  }
+
+  private generateFallback(prompt: string, rng: () => number): string {
+    switch (this.component) {
+      case 'job_generator': {
+        const requested = Number(prompt.match(/exactly (\d+)/i)?.[1] ?? 10);
+        const [, min = '1', max = '10'] = prompt.match(/between (\d+)-(\d+)/i) ?? [];
+        const jobs = Array.from({ length: requested }, () => ({
+          prompt: `${pick(rng, JOB_TASKS)} ${pick(rng, JOB_SUBJECTS)}.`,
+          payout: Number(min) + Math.floor(rng() * (Number(max) - Number(min) + 1)),
+          deadlineS: 60,
+        }));
+        return JSON.stringify({ jobs });
+      }
+
+      case 'result_grader': {
+        const pass = rng() < 0.85;
+        if (!pass) return JSON.stringify({ pass, feedback: 'Mock rejection (seeded)' });
+
+        // Score every rubric criterion listed in the prompt around the overall score
+        const score = 20 + Math.floor(rng() * 71);
+        const criteria = Object.fromEntries(
+          [...prompt.matchAll(/^- (\w+) \(weight/gm)].map(([, name]) => [
+            name,
+            Math.max(1, Math.min(100, score - 15 + Math.floor(rng() * 31))),
+          ])
+        );
+        return JSON.stringify({ pass, criteria, score, feedback: 'Mock grade (seeded)' });
+      }
+
+      case 'name_generator': {
+        const requested = Number(prompt.match(/exactly (\d+)/i)?.[1] ?? 1);
+        const names = Array.from(
+          { length: requested },
+          () => `${pick(rng, NAME_FIRSTS)} the ${pick(rng, NAME_TRAITS)}`
+        );
+        return JSON.stringify({ names });
+      }
+
+      default: {
+        const excerpt = prompt.replace(/\s+/g, ' ').trim().slice(-160);
+        const reference = Math.floor(rng() * 1_000_000)
+          .toString(36)
+          .padStart(4, '0');
+        return `Mock response ${reference} from ${this.config.model}. Addressing the request: ${excerpt}`;
+      }
+    }
+  }
+
+  getModel(): string {
+    return this.config.model;
+  }
+
+  getProvider() {
+    return 'mock' as const;
+  }
+
+  getConfig(): LLMConfig {
+    return { ...this.config };
+  }
+
+  getLangChainModel(): MockChatModel {
+    if (!this.langChainModel) {
+      this.langChainModel = new MockChatModel(this);
+    }
+    return this.langChainModel;
+  }
+}
+
+/**
+ * LangChain chat model backed by a MockProvider so ReAct agents can run offline.
+ * It never emits tool calls, so agents finish after a single model step.
+ */
+export class MockChatModel extends BaseChatModel {
+  private provider: MockProvider;
+
+  constructor(provider: MockProvider) {
+    super({});
+    this.provider = provider;
+  }
+
+  _llmType(): string {
+    return 'mock';
+  }
+
+  bindTools(): this {
+    return this;
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const prompt = messages
+      .map((message) =>
+        typeof message.content === 'string' ? message.content : JSON.stringify(message.content)
+      )
+      .join('\n\n');
+    const text = this.provider.respond(prompt);
+
+    return {
+      generations: [{ text, message: new AIMessage(text) }],
+    };
+  }
+}
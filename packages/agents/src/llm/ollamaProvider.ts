@@ -2,15 +2,26 @@
  * Ollama Provider Implementation
  */
 
-import { LLMProvider, LLMConfig, LLMResponse } from './types';
+import {
+  LLMProvider,
+  LLMConfig,
+  LLMResponse,
+  ChatMessage,
+  ChatOptions,
+  ChatResponse,
+  TokenUsage,
+} from './types';
+import { chatPromptText, parseToolArgs } from './chat';
 import { log, logError } from '@soup/common';
 import { ChatOllama } from '@langchain/ollama';
+import { SpanKind } from '@opentelemetry/api';
 import {
   logTimeoutError,
   logSuccessfulRequest,
   createTimeoutError,
   TimeoutErrorContext,
 } from './timeoutLogger';
+import { setOtelAttributes, withOtelSpan } from '../tracing/otel';
 
 export class OllamaProvider implements LLMProvider {
   private config: LLMConfig;
@@ -22,25 +33,113 @@ export class OllamaProvider implements LLMProvider {
     this.ollamaUrl = ollamaUrl;
   }
 
-  async invoke(prompt: string): Promise<LLMResponse> {
+  invoke(prompt: string): Promise<LLMResponse> {
+    return withOtelSpan(
+      'ollama.generate',
+      this.spanAttributes(),
+      () => this.generate(prompt),
+      SpanKind.CLIENT
+    );
+  }
+
+  /**
+   * Chat through /api/chat: native tool calling and JSON mode (format: "json")
+   */
+  chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResponse> {
+    return withOtelSpan(
+      'ollama.chat',
+      this.spanAttributes(),
+      () => this.generateChat(messages, options),
+      SpanKind.CLIENT
+    );
+  }
+
+  private async generate(prompt: string): Promise<LLMResponse> {
+    const data = await this.post(
+      '/api/generate',
+      { model: this.config.model, prompt, stream: false, options: this.modelOptions() },
+      prompt
+    );
+
+    if (!data.response) {
+      logError(`[OllamaProvider] No response content:`, {
+        dataKeys: Object.keys(data),
+        data: JSON.stringify(data).substring(0, 500),
+      });
+      throw new Error('Ollama provider failed: No response content from Ollama');
+    }
+
+    return { content: data.response, usage: this.usageOf(data) };
+  }
+
+  private async generateChat(messages: ChatMessage[], options: ChatOptions): Promise<ChatResponse> {
+    const data = await this.post(
+      '/api/chat',
+      {
+        model: this.config.model,
+        messages: messages.map((message) => ({
+          role: message.role,
+          content: message.content,
+          ...(message.toolCalls?.length && {
+            tool_calls: message.toolCalls.map((call) => ({
+              function: { name: call.name, arguments: call.args },
+            })),
+          }),
+        })),
+        ...(options.tools?.length && {
+          tools: options.tools.map((tool) => ({
+            type: 'function',
+            function: {
+              name: tool.name,
+              description: tool.description,
+              parameters: tool.parameters,
+            },
+          })),
+        }),
+        ...(options.responseFormat === 'json' && { format: 'json' }),
+        stream: false,
+        options: this.modelOptions(),
+      },
+      chatPromptText(messages),
+      options.signal
+    );
+
+    const message = data.message ?? {};
+    const toolCalls = (message.tool_calls ?? []).map((call: any, index: number) => ({
+      id: call.id || `call_${index}`,
+      name: call.function?.name ?? '',
+      args: parseToolArgs(call.function?.arguments),
+    }));
+
+    if (!message.content && !toolCalls.length) {
+      logError(`[OllamaProvider] No chat content:`, {
+        data: JSON.stringify(data).substring(0, 500),
+      });
+      throw new Error('Ollama provider failed: No response content from Ollama');
+    }
+
+    return { content: message.content ?? '', toolCalls, usage: this.usageOf(data) };
+  }
+
+  /**
+   * POSTs to an Ollama endpoint with timeout/HTTP error logging; returns the parsed body
+   */
+  private async post(
+    endpoint: string,
+    body: Record<string, unknown>,
+    prompt: string,
+    signal?: AbortSignal
+  ): Promise<any> {
     const requestId = Math.random().toString(36).substring(2, 8);
     const startTime = Date.now();
+    const url = `${this.ollamaUrl.replace(/\/$/, '')}${endpoint}`;
 
     try {
       log(
-        `[OllamaProvider:${requestId}] Invoking ${this.config.model} with prompt length: ${prompt.length}`
+        `[OllamaProvider:${requestId}] Invoking ${this.config.model} (${endpoint}) with prompt length: ${prompt.length}`
       );
 
-      const url = `${this.ollamaUrl.replace(/\/$/, '')}/api/generate`;
-      const requestBody = JSON.stringify({
-        model: this.config.model,
-        prompt,
-        stream: false,
-        options: {
-          temperature: this.config.temperature,
-          num_predict: this.config.maxOutputTokens || -1, // -1 means no limit in Ollama
-        },
-      });
+      const requestBody = JSON.stringify(body);
 
       // Enhanced logging with request details
       const isRemote = this.ollamaUrl.includes('https://');
@@ -66,10 +165,14 @@ export class OllamaProvider implements LLMProvider {
           'User-Agent': 'OllamaProvider/1.0',
         },
         body: requestBody,
-        signal: AbortSignal.timeout(120000), // 2 minute timeout
+        // 2 minute timeout, or sooner if the caller aborts (e.g. the job deadline)
+        signal: signal
+          ? AbortSignal.any([signal, AbortSignal.timeout(120000)])
+          : AbortSignal.timeout(120000),
       });
 
       const responseTime = Date.now() - startTime;
+      setOtelAttributes({ 'http.response.status_code': response.status });
 
       if (!response.ok) {
         // Enhanced error logging with request context
@@ -87,6 +190,7 @@ export class OllamaProvider implements LLMProvider {
           errorBody: errorText,
           headers: Object.fromEntries(response.headers.entries()),
           component: 'OllamaProvider',
+          provider: 'ollama',
           config: {
             temperature: this.config.temperature,
             maxTokens: this.config.maxOutputTokens,
@@ -108,7 +212,11 @@ export class OllamaProvider implements LLMProvider {
       }
 
       const data = await response.json();
-      const responseLength = data.response?.length || 0;
+      const responseLength = (data.response ?? data.message?.content ?? '').length;
+      setOtelAttributes({
+        'gen_ai.usage.input_tokens': data.prompt_eval_count ?? 0,
+        'gen_ai.usage.output_tokens': data.eval_count ?? 0,
+      });
 
       // Log successful requests for monitoring
       logSuccessfulRequest({
@@ -121,33 +229,25 @@ export class OllamaProvider implements LLMProvider {
         component: 'OllamaProvider',
       });
 
-      if (!data.response) {
-        logError(`[OllamaProvider:${requestId}] No response content:`, {
-          responseTime,
-          dataKeys: Object.keys(data),
-          data: JSON.stringify(data).substring(0, 500),
-        });
-        throw new Error('No response content from Ollama');
-      }
-
-      return { content: data.response };
+      return data;
     } catch (error) {
       const responseTime = Date.now() - startTime;
       const errorMsg = error instanceof Error ? error.message : 'Unknown Ollama error';
 
-      // Check if this is already a timeout error from our enhanced handling
-      if ((error as any).isTimeout) {
+      // Check if this is already a timeout error from our enhanced handling, or the caller aborted
+      if ((error as any).isTimeout || signal?.aborted) {
         throw error;
       }
 
       const timeoutContext: TimeoutErrorContext = {
         requestId,
-        url: `${this.ollamaUrl}/api/generate`,
+        url,
         model: this.config.model,
         promptLength: prompt.length,
         promptPreview: prompt.substring(0, 200),
         responseTime,
         component: 'OllamaProvider',
+        provider: 'ollama',
         config: {
           temperature: this.config.temperature,
           maxTokens: this.config.maxOutputTokens,
@@ -172,7 +272,7 @@ export class OllamaProvider implements LLMProvider {
         error: errorMsg,
         errorType: error instanceof Error ? error.constructor.name : 'Unknown',
         responseTime,
-        url: `${this.ollamaUrl}/api/generate`,
+        url,
         model: this.config.model,
         promptLength: prompt.length,
         promptPreview: prompt.substring(0, 200),
@@ -199,6 +299,27 @@ export class OllamaProvider implements LLMProvider {
     }
   }
 
+  private spanAttributes() {
+    return {
+      'gen_ai.system': 'ollama',
+      'gen_ai.request.model': this.config.model,
+      'server.address': this.ollamaUrl,
+    };
+  }
+
+  private modelOptions() {
+    return {
+      temperature: this.config.temperature,
+      num_predict: this.config.maxOutputTokens || -1, // -1 means no limit in Ollama
+    };
+  }
+
+  private usageOf(data: any): TokenUsage | undefined {
+    return typeof data.prompt_eval_count === 'number' && typeof data.eval_count === 'number'
+      ? { inputTokens: data.prompt_eval_count, outputTokens: data.eval_count }
+      : undefined;
+  }
+
   getModel(): string {
     return this.config.model;
   }
@@ -0,0 +1,253 @@
+/**
+ * OpenAI-compatible Provider Implementation
+ * Talks to any server exposing /v1/chat/completions (llama.cpp, vLLM, LM Studio, OpenAI itself)
+ */
+
+import {
+  LLMProvider,
+  LLMConfig,
+  LLMResponse,
+  ChatMessage,
+  ChatOptions,
+  ChatResponse,
+} from './types';
+import { chatPromptText, parseToolArgs } from './chat';
+import { log, logError } from '@soup/common';
+import { ChatOpenAI } from '@langchain/openai';
+import { SpanKind } from '@opentelemetry/api';
+import {
+  logTimeoutError,
+  logSuccessfulRequest,
+  createTimeoutError,
+  TimeoutErrorContext,
+} from './timeoutLogger';
+import { setOtelAttributes, withOtelSpan } from '../tracing/otel';
+
+export class OpenAIProvider implements LLMProvider {
+  private config: LLMConfig;
+  private baseUrl: string;
+  private apiKey: string;
+  private langChainModel?: ChatOpenAI;
+
+  constructor(config: LLMConfig, baseUrl = 'http://localhost:8080/v1', apiKey = '') {
+    this.config = config;
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.apiKey = apiKey;
+  }
+
+  async invoke(prompt: string): Promise<LLMResponse> {
+    const { content, usage } = await this.chat([{ role: 'user', content: prompt }]);
+    return { content, usage };
+  }
+
+  /**
+   * Chat completion with native tool calling and JSON mode (response_format: json_object)
+   */
+  chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResponse> {
+    return withOtelSpan(
+      'openai.chat',
+      {
+        'gen_ai.system': 'openai',
+        'gen_ai.request.model': this.config.model,
+        'server.address': this.baseUrl,
+      },
+      () => this.complete(messages, options),
+      SpanKind.CLIENT
+    );
+  }
+
+  private async complete(messages: ChatMessage[], options: ChatOptions): Promise<ChatResponse> {
+    const prompt = chatPromptText(messages);
+    const requestId = Math.random().toString(36).substring(2, 8);
+    const startTime = Date.now();
+    const url = `${this.baseUrl}/chat/completions`;
+    const timeoutContext: TimeoutErrorContext = {
+      requestId,
+      url,
+      model: this.config.model,
+      promptLength: prompt.length,
+      promptPreview: prompt.substring(0, 200),
+      responseTime: 0,
+      component: 'OpenAIProvider',
+      provider: 'openai',
+      config: {
+        temperature: this.config.temperature,
+        maxTokens: this.config.maxOutputTokens,
+      },
+    };
+
+    log(
+      `[OpenAIProvider:${requestId}] Invoking ${this.config.model} at ${url} with prompt length: ${prompt.length}`
+    );
+
+    let response: Awaited<ReturnType<typeof fetch>>;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+          ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+        },
+        body: JSON.stringify({
+          model: this.config.model,
+          messages: messages.map(toOpenAIMessage),
+          temperature: this.config.temperature,
+          ...(this.config.maxOutputTokens && { max_tokens: this.config.maxOutputTokens }),
+          ...(options.tools?.length && {
+            tools: options.tools.map((tool) => ({
+              type: 'function',
+              function: {
+                name: tool.name,
+                description: tool.description,
+                parameters: tool.parameters,
+              },
+            })),
+          }),
+          ...(options.responseFormat === 'json' && { response_format: { type: 'json_object' } }),
+          stream: false,
+        }),
+        // 2 minute timeout, as for Ollama, or sooner if the caller aborts
+        signal: options.signal
+          ? AbortSignal.any([options.signal, AbortSignal.timeout(120000)])
+          : AbortSignal.timeout(120000),
+      });
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      const responseTime = Date.now() - startTime;
+      const errorMsg = error instanceof Error ? error.message : 'Unknown OpenAI error';
+
+      if (error instanceof Error && (error.name === 'TimeoutError' || /timeout/i.test(errorMsg))) {
+        logTimeoutError({
+          ...timeoutContext,
+          responseTime,
+          statusText: 'Client Timeout',
+          errorBody: errorMsg,
+        }); // Fire and forget async logging
+        throw createTimeoutError({ ...timeoutContext, responseTime });
+      }
+
+      logError(`[OpenAIProvider:${requestId}] Request failed after ${responseTime}ms:`, {
+        error: errorMsg,
+        url,
+      });
+      throw new Error(
+        `OpenAI provider failed: Cannot connect to ${this.baseUrl} (${errorMsg}). Please ensure the server is running.`
+      );
+    }
+
+    const responseTime = Date.now() - startTime;
+    setOtelAttributes({ 'http.response.status_code': response.status });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      const context: TimeoutErrorContext = {
+        ...timeoutContext,
+        responseTime,
+        httpStatus: response.status,
+        statusText: response.statusText,
+        errorBody: errorText,
+      };
+
+      if (response.status === 524 || response.status === 504) {
+        logTimeoutError(context); // Fire and forget async logging
+        throw createTimeoutError(context);
+      }
+
+      logError(
+        `[OpenAIProvider:${requestId}] HTTP ${response.status} Error after ${responseTime}ms:`,
+        { url, model: this.config.model, errorBody: errorText.substring(0, 500) }
+      );
+      const error = new Error(
+        `OpenAI provider failed: HTTP ${response.status}: ${errorText.substring(0, 200) || response.statusText}`
+      );
+      (error as any).httpStatus = response.status; // Lets retries tell 429/5xx from 4xx
+      throw error;
+    }
+
+    const data = await response.json();
+    const message = data.choices?.[0]?.message ?? {};
+    const content = message.content ?? (message.tool_calls?.length ? '' : undefined);
+    const toolCalls = (message.tool_calls ?? []).map((call: any, index: number) => ({
+      id: call.id || `call_${index}`,
+      name: call.function?.name ?? '',
+      args: parseToolArgs(call.function?.arguments),
+    }));
+    const usage = data.usage;
+    setOtelAttributes({
+      'gen_ai.response.model': data.model ?? this.config.model,
+      'gen_ai.usage.input_tokens': usage?.prompt_tokens ?? 0,
+      'gen_ai.usage.output_tokens': usage?.completion_tokens ?? 0,
+    });
+
+    if (typeof content !== 'string') {
+      logError(`[OpenAIProvider:${requestId}] No response content:`, {
+        responseTime,
+        data: JSON.stringify(data).substring(0, 500),
+      });
+      throw new Error('OpenAI provider failed: No response content');
+    }
+
+    logSuccessfulRequest({
+      requestId,
+      url,
+      model: this.config.model,
+      promptLength: prompt.length,
+      responseTime,
+      responseLength: content.length,
+      component: 'OpenAIProvider',
+    });
+
+    return {
+      content,
+      toolCalls,
+      usage:
+        typeof usage?.prompt_tokens === 'number' && typeof usage?.completion_tokens === 'number'
+          ? { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens }
+          : undefined,
+    };
+  }
+
+  getModel(): string {
+    return this.config.model;
+  }
+
+  getProvider() {
+    return 'openai' as const;
+  }
+
+  getConfig(): LLMConfig {
+    return { ...this.config };
+  }
+
+  getLangChainModel(): ChatOpenAI {
+    if (!this.langChainModel) {
+      this.langChainModel = new ChatOpenAI({
+        model: this.config.model,
+        temperature: this.config.temperature,
+        maxTokens: this.config.maxOutputTokens,
+        // Local servers usually ignore the key, but the client refuses to start without one
+        apiKey: this.apiKey || 'not-needed',
+        configuration: { baseURL: this.baseUrl },
+      });
+    }
+    return this.langChainModel;
+  }
+}
+
+function toOpenAIMessage(message: ChatMessage) {
+  if (message.role === 'tool') {
+    return { role: 'tool', content: message.content, tool_call_id: message.toolCallId };
+  }
+  return {
+    role: message.role,
+    content: message.content,
+    ...(message.toolCalls?.length && {
+      tool_calls: message.toolCalls.map((call) => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.args) },
+      })),
+    }),
+  };
+}
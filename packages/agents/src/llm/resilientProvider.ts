@@ -0,0 +1,281 @@
+/**
+ * Provider fallback chain: tries an ordered list of providers, retrying transient errors with
+ * exponential backoff and skipping providers whose circuit breaker is open
+ */
+
+import {
+  LLMProvider,
+  LLMConfig,
+  LLMResponse,
+  LLMProviderType,
+  ComponentType,
+  ChatMessage,
+  ChatOptions,
+  ChatResponse,
+} from './types';
+import {
+  BreakerOptions,
+  CircuitBreakerRegistry,
+  CircuitOpenError,
+  log,
+  logError,
+} from '@soup/common';
+import { recordLLMFallback } from '../tracing/otel';
+
+export interface RetryOptions {
+  retries: number; // Extra attempts per provider for retryable errors
+  baseDelayMs: number; // First backoff; doubles on every retry
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+// Shared by every chain (and fed by timeoutLogger), so one provider's outage is seen everywhere
+export const llmCircuitBreakers = new CircuitBreakerRegistry();
+
+let retryOptions: RetryOptions = { ...DEFAULT_RETRY_OPTIONS };
+
+export function configureLLMResilience(options: {
+  retry?: Partial<RetryOptions>;
+  breaker?: Partial<BreakerOptions>;
+}): void {
+  retryOptions = { ...retryOptions, ...options.retry };
+  if (options.breaker) llmCircuitBreakers.configure(options.breaker);
+}
+
+export function breakerKey(provider: string, model: string): string {
+  return `${provider}:${model}`;
+}
+
+/**
+ * Transient failures worth retrying on the same provider: timeouts, rate limits (429), server
+ * errors (5xx) and dropped connections. Anything else goes straight to the next provider.
+ */
+export function isRetryableLLMError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  const status = (error as any).httpStatus ?? (error as any).status;
+  if (typeof status === 'number') return status === 408 || status === 429 || status >= 500;
+  if ((error as any).isTimeout) return true;
+  return /timeout|timed out|\b429\b|rate limit|resource.?exhausted|quota|unavailable|overloaded|\b50[0-4]\b|ECONNRESET|ECONNREFUSED|ETIMEDOUT|socket hang up|fetch failed/i.test(
+    error.message
+  );
+}
+
+function backoffDelay(retry: number): number {
+  const { baseDelayMs, maxDelayMs } = retryOptions;
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** retry);
+  return delay / 2 + Math.random() * (delay / 2); // Jitter spreads out concurrent retries
+}
+
+// Backoff wait that rejects with the signal's reason as soon as the caller aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Config key under which a tool-bound LangChain model carries its unformatted tools
+const BOUND_TOOLS = 'resilientBoundTools';
+
+// LangChain results of a chain's model, tagged with the provider that answered
+const servedBy = new WeakMap<object, { provider: LLMProviderType; model: string }>();
+
+/**
+ * Provider that answered a LangChain call made through a chain's model (undefined otherwise)
+ */
+export function langChainServedBy(
+  result: unknown
+): { provider: LLMProviderType; model: string } | undefined {
+  return result && typeof result === 'object' ? servedBy.get(result) : undefined;
+}
+
+export class ResilientProvider implements LLMProvider {
+  constructor(
+    private chain: LLMProvider[],
+    private component: ComponentType
+  ) {
+    if (!chain.length) throw new Error(`Empty provider chain for ${component}`);
+  }
+
+  invoke(prompt: string): Promise<LLMResponse> {
+    return this.call((provider) => this.served(provider, provider.invoke(prompt)));
+  }
+
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
+    return this.call(
+      (provider) => this.served(provider, provider.chat(messages, options)),
+      options?.signal
+    );
+  }
+
+  // Tags a response with the provider that answered it
+  private async served<T extends LLMResponse>(provider: LLMProvider, response: Promise<T>) {
+    return { ...(await response), provider: provider.getProvider(), model: provider.getModel() };
+  }
+
+  /**
+   * Runs one request down the chain. A caller's abort ends it at once, even during a backoff: it
+   * says nothing about the provider, so it is neither retried nor counted against the breaker.
+   */
+  private async call<T>(
+    send: (provider: LLMProvider) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const failures: string[] = [];
+    const open: string[] = [];
+    let lastError: unknown;
+
+    for (const [index, provider] of this.chain.entries()) {
+      const key = this.keyOf(provider);
+      const breaker = llmCircuitBreakers.get(key);
+
+      for (let attempt = 0; attempt <= retryOptions.retries; attempt++) {
+        if (!breaker.tryAcquire()) {
+          if (attempt === 0) open.push(key);
+          else failures.push(`${key}: ${errorMessage(lastError)} (circuit opened)`);
+          break;
+        }
+
+        try {
+          const response = await send(provider);
+          breaker.recordSuccess();
+          if (index > 0) log(`[ResilientProvider] ${this.component} served by fallback ${key}`);
+          return response;
+        } catch (error) {
+          if (signal?.aborted) {
+            breaker.release();
+            throw error;
+          }
+          lastError = error;
+          breaker.recordFailure(errorMessage(error));
+          const tripped = !breaker.isAvailable();
+          if (tripped || !isRetryableLLMError(error) || attempt === retryOptions.retries) {
+            failures.push(`${key}: ${errorMessage(error)}${tripped ? ' (circuit opened)' : ''}`);
+            break;
+          }
+
+          const delay = backoffDelay(attempt);
+          log(
+            `[ResilientProvider] ${key} failed for ${this.component} (${errorMessage(error)}), retry ${attempt + 1}/${retryOptions.retries} in ${Math.round(delay)}ms`
+          );
+          recordLLMFallback({
+            'soup.component': this.component,
+            'soup.llm.provider': key,
+            'soup.fallback.reason': 'retry',
+          });
+          try {
+            await sleep(delay, signal);
+          } catch (abort) {
+            breaker.release();
+            throw abort;
+          }
+        }
+      }
+
+      if (index < this.chain.length - 1) {
+        recordLLMFallback({
+          'soup.component': this.component,
+          'soup.llm.provider': key,
+          'soup.fallback.reason': open.includes(key) ? 'circuit_open' : 'failed',
+        });
+      }
+    }
+
+    // Every provider was skipped: fail fast rather than hammer them
+    if (!failures.length) {
+      const retryInSec = Math.min(...open.map((key) => llmCircuitBreakers.get(key).retryInSec()));
+      throw new CircuitOpenError(open, retryInSec);
+    }
+
+    logError(`[ResilientProvider] All providers failed for ${this.component}:`, failures);
+    if (this.chain.length === 1 && lastError instanceof Error) throw lastError;
+    throw new Error(
+      `All LLM providers failed for ${this.component}: ${[...failures, ...open.map((key) => `${key}: circuit open`)].join('; ')}`
+    );
+  }
+
+  getModel(): string {
+    return this.current().getModel();
+  }
+
+  getProvider(): LLMProviderType {
+    return this.current().getProvider();
+  }
+
+  getConfig(): LLMConfig {
+    return this.current().getConfig();
+  }
+
+  /**
+   * LangChain model for ReAct agents and the code generator, over the providers that have one.
+   * Its invoke runs down the chain like invoke and chat. Tool-bound copies (bindTools) delegate
+   * to it, and their tools are bound again on each provider's own model, whose tool format differs.
+   */
+  getLangChainModel(): any {
+    const chain = this.chain.filter((provider) => 'getLangChainModel' in provider);
+    if (!chain.length) {
+      throw new Error(
+        `LangChain model access not available for provider chain: ${this.describe()}`
+      );
+    }
+    const langChain =
+      chain.length === this.chain.length ? this : new ResilientProvider(chain, this.component);
+
+    const models = new Map<LLMProvider, any>();
+    const modelOf = (provider: LLMProvider) => {
+      if (!models.has(provider)) models.set(provider, (provider as any).getLangChainModel());
+      return models.get(provider);
+    };
+
+    // A new object over the provider's cached model, so these patches never stack on it
+    const model = Object.create(modelOf(langChain.current()));
+    model.invoke = (input: any, options: any = {}) => {
+      const { [BOUND_TOOLS]: bound, ...config } = options;
+      return langChain.call(async (provider) => {
+        const target = modelOf(provider);
+        const result = await (bound ? target.bindTools(bound.tools, bound.kwargs) : target).invoke(
+          input,
+          config
+        );
+        if (result && typeof result === 'object') {
+          servedBy.set(result, { provider: provider.getProvider(), model: provider.getModel() });
+        }
+        return result;
+      }, config.signal);
+    };
+    model.bindTools = (tools: any[], kwargs?: any) =>
+      model.withConfig({ [BOUND_TOOLS]: { tools, kwargs } });
+    return model;
+  }
+
+  describe(): string {
+    return this.chain.map((provider) => this.keyOf(provider)).join(' -> ');
+  }
+
+  // First provider whose breaker would admit a call (the primary when all are open)
+  private current(): LLMProvider {
+    return (
+      this.chain.find((provider) => llmCircuitBreakers.get(this.keyOf(provider)).isAvailable()) ??
+      this.chain[0]
+    );
+  }
+
+  private keyOf(provider: LLMProvider): string {
+    return breakerKey(provider.getProvider(), provider.getModel());
+  }
+}
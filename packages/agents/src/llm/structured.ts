@@ -0,0 +1,228 @@
+/**
+ * Structured output: asks a provider for JSON through its native JSON mode, extracts and validates
+ * the reply against a zod schema, and re-prompts with the validation error until it fits
+ */
+
+import JSON5 from 'json5';
+import type { ZodIssue, ZodType, ZodTypeDef } from 'zod';
+import { log, logError } from '@soup/common';
+import { ChatMessage, ComponentType, LLMProvider } from './types';
+import { recordStructuredFailure, recordStructuredOutput } from '../tracing/otel';
+
+export interface StructuredOptions {
+  component?: ComponentType; // Label for the failure stats and metrics
+  system?: string; // System message sent ahead of the prompt
+  maxRepairs?: number; // Re-prompts after an invalid reply (default 2)
+  signal?: AbortSignal;
+}
+
+// parse: no JSON could be extracted; schema: JSON that failed validation
+export type StructuredFailureReason = 'parse' | 'schema';
+
+export interface StructuredOutputStats {
+  calls: number;
+  replies: number; // Including repair attempts
+  firstTry: number; // Calls valid on the first reply
+  repaired: number; // Calls valid after one or more re-prompts
+  failed: number; // Calls still invalid after every repair
+  parseFailures: number;
+  schemaFailures: number;
+  failureRate: number; // Rejected replies per reply
+}
+
+export class StructuredOutputError extends Error {
+  constructor(
+    public readonly component: string,
+    public readonly reason: StructuredFailureReason,
+    public readonly detail: string,
+    public readonly attempts: number,
+    public readonly raw: string,
+    public readonly value?: unknown // Last reply that parsed but failed the schema
+  ) {
+    super(
+      `Structured output for ${component} still invalid after ${attempts} attempts (${reason}): ${detail}`
+    );
+    this.name = 'StructuredOutputError';
+  }
+}
+
+export const DEFAULT_MAX_REPAIRS = 2;
+
+type Counts = Omit<StructuredOutputStats, 'failureRate'>;
+
+const stats = new Map<string, Counts>();
+
+function countsFor(component: string): Counts {
+  let counts = stats.get(component);
+  if (!counts) {
+    counts = {
+      calls: 0,
+      replies: 0,
+      firstTry: 0,
+      repaired: 0,
+      failed: 0,
+      parseFailures: 0,
+      schemaFailures: 0,
+    };
+    stats.set(component, counts);
+  }
+  return counts;
+}
+
+/**
+ * Per-component structured-output counts since start
+ */
+export function getStructuredOutputStats(): Record<string, StructuredOutputStats> {
+  return Object.fromEntries(
+    [...stats.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([component, counts]) => [
+        component,
+        {
+          ...counts,
+          failureRate: counts.replies
+            ? (counts.parseFailures + counts.schemaFailures) / counts.replies
+            : 0,
+        },
+      ])
+  );
+}
+
+/**
+ * Asks for JSON matching `schema` and returns the validated value. Invalid replies are sent back
+ * with what was wrong, up to `maxRepairs` times; provider errors propagate unchanged.
+ */
+export async function invokeStructured<T>(
+  provider: LLMProvider,
+  prompt: string | ChatMessage[],
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  options: StructuredOptions = {}
+): Promise<T> {
+  const component = options.component ?? 'unknown';
+  const maxRepairs = options.maxRepairs ?? DEFAULT_MAX_REPAIRS;
+  const messages: ChatMessage[] =
+    typeof prompt === 'string' ? [{ role: 'user', content: prompt }] : [...prompt];
+  if (options.system) messages.unshift({ role: 'system', content: options.system });
+
+  const counts = countsFor(component);
+  counts.calls++;
+  let reason: StructuredFailureReason = 'parse';
+  let detail = '';
+  let raw = '';
+  let value: unknown;
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    const response = await provider.chat(messages, {
+      responseFormat: 'json',
+      signal: options.signal,
+    });
+    counts.replies++;
+    raw = response.content;
+
+    let parsed: unknown;
+    try {
+      parsed = extractJson(raw);
+    } catch (error) {
+      reason = 'parse';
+      detail = error instanceof Error ? error.message : String(error);
+    }
+    if (parsed !== undefined) {
+      const result = schema.safeParse(parsed);
+      if (result.success) {
+        const outcome = attempt ? 'repaired' : 'first_try';
+        if (attempt) counts.repaired++;
+        else counts.firstTry++;
+        recordStructuredOutput({ 'soup.component': component, 'soup.outcome': outcome });
+        if (attempt)
+          log(`[invokeStructured] ${component} reply repaired after ${attempt} re-prompt(s)`);
+        return result.data;
+      }
+      reason = 'schema';
+      detail = formatIssues(result.error.issues);
+      value = parsed;
+    }
+
+    if (reason === 'parse') counts.parseFailures++;
+    else counts.schemaFailures++;
+    recordStructuredFailure({ 'soup.component': component, 'soup.failure.reason': reason });
+    log(
+      `[invokeStructured] ${component} reply rejected (attempt ${attempt + 1}/${maxRepairs + 1}, ${reason}): ${detail}. Raw: ${raw.slice(0, 200)}`
+    );
+
+    messages.push(
+      { role: 'assistant', content: raw },
+      { role: 'user', content: repairPrompt(reason, detail) }
+    );
+  }
+
+  counts.failed++;
+  recordStructuredOutput({ 'soup.component': component, 'soup.outcome': 'failed' });
+  logError(`[invokeStructured] ${component} gave up after ${maxRepairs + 1} attempts: ${detail}`);
+  throw new StructuredOutputError(component, reason, detail, maxRepairs + 1, raw, value);
+}
+
+function repairPrompt(reason: StructuredFailureReason, detail: string): string {
+  return reason === 'parse'
+    ? `Your previous reply was not valid JSON (${detail}). Respond again with ONLY the JSON object, without prose or code fences.`
+    : `Your previous reply did not match the required format: ${detail}. Respond again with ONLY the corrected JSON object.`;
+}
+
+function formatIssues(issues: ZodIssue[]): string {
+  return issues
+    .slice(0, 5)
+    .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ');
+}
+
+/**
+ * The JSON value in an LLM reply: tolerates markdown fences, surrounding prose and JSON5 syntax
+ * (single quotes, trailing commas)
+ */
+export function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json5?)?\s*([\s\S]*?)```/i);
+  const body = (fenced ? fenced[1] : text).trim();
+  if (!body) throw new Error('Empty reply');
+
+  for (const candidate of [body, firstJsonValue(body)]) {
+    if (!candidate) continue;
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      try {
+        return JSON5.parse(candidate);
+      } catch {
+        // Try the next candidate
+      }
+    }
+  }
+  throw new Error(`No JSON object found in reply: ${body.slice(0, 80)}`);
+}
+
+/**
+ * The first balanced {...} or [...] in the text, skipping brackets inside strings
+ */
+function firstJsonValue(text: string): string | null {
+  const start = text.search(/[{[]/);
+  if (start === -1) return null;
+  let depth = 0;
+  let quote: string | null = null;
+  let escape = false;
+  for (let i = start; i < text.length; i += 1) {
+    const ch = text[i];
+    if (escape) {
+      escape = false;
+    } else if (ch === '\\') {
+      escape = true;
+    } else if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '{' || ch === '[') {
+      depth += 1;
+    } else if (ch === '}' || ch === ']') {
+      depth -= 1;
+      if (depth === 0) return text.slice(start, i + 1);
+    }
+  }
+  return null;
+}
@@ -1,9 +1,13 @@
 /**
  * Dedicated timeout and HTTP error logging utilities
- * Provides structured logging for debugging remote LLM provider issues
+ * Provides structured logging for debugging remote LLM provider issues; timeouts are also
+ * counted in OTel (soup.llm.timeouts), marked on the current span and reported to the provider's
+ * circuit breaker
  */
 
 import { log, logError } from '@soup/common';
+import { recordLLMTimeout } from '../tracing/otel';
+import { breakerKey, llmCircuitBreakers } from './resilientProvider';
 import * as fs from 'fs-extra';
 import * as path from 'path';
 
@@ -74,6 +78,7 @@ export interface TimeoutErrorContext {
   errorBody?: string;
   headers?: Record<string, string>;
   component?: string;
+  provider?: string; // Provider type; when set, the timeout counts toward its circuit breaker
   config?: Record<string, any>;
 }
 
@@ -93,6 +98,7 @@ export async function logTimeoutError(context: TimeoutErrorContext): Promise<voi
     errorBody,
     headers,
     component,
+    provider,
     config,
   } = context;
 
@@ -142,6 +148,20 @@ export async function logTimeoutError(context: TimeoutErrorContext): Promise<voi
     },
   };
 
+  recordLLMTimeout({
+    'soup.component': component || 'unknown',
+    'gen_ai.request.model': model,
+    'soup.timeout.type': timeoutType,
+    ...(httpStatus !== undefined && { 'http.response.status_code': httpStatus }),
+  });
+
+  // Timeouts open a provider's breaker sooner than other failures (LLM_BREAKER_TIMEOUTS)
+  if (provider) {
+    llmCircuitBreakers
+      .get(breakerKey(provider, model))
+      .recordTimeout(`${timeoutType} after ${responseTime}ms`);
+  }
+
   // Log to console
   logError(
     `🔥 TIMEOUT ERROR [${timeoutType}] Request ${requestId} failed after ${responseTime}ms`,
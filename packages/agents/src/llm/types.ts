@@ -2,7 +2,7 @@
  * LLM Provider Abstraction - Core Types and Interfaces
  */
 
-export type LLMProviderType = 'vertex' | 'ollama' | 'auto';
+export type LLMProviderType = 'vertex' | 'ollama' | 'openai' | 'mock' | 'auto';
 
 export interface LLMConfig {
   provider: LLMProviderType;
@@ -12,7 +12,8 @@ export interface LLMConfig {
 }
 
 export interface LLMProvider {
-  invoke(prompt: string): Promise<{ content: string }>;
+  invoke(prompt: string): Promise<LLMResponse>;
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse>;
   getModel(): string;
   getProvider(): LLMProviderType;
   getConfig(): LLMConfig;
@@ -20,6 +21,52 @@ export interface LLMProvider {
 
 export interface LLMResponse {
   content: string;
+  usage?: TokenUsage; // As reported by the provider; metering estimates when absent
+  provider?: LLMProviderType; // Set by fallback chains: the provider that actually answered
+  model?: string;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  toolCalls?: LLMToolCall[]; // Assistant turns that called tools
+  toolCallId?: string; // Tool turns: the call this message answers
+}
+
+/**
+ * A function the model may call; `parameters` is a JSON Schema object
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+// Same shape as LangChain's ToolCall, so calls round-trip through LangChain models and cassettes
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+// json asks for a single JSON object, using the provider's native JSON mode
+export type ResponseFormat = 'text' | 'json';
+
+export interface ChatOptions {
+  tools?: ToolDefinition[];
+  responseFormat?: ResponseFormat;
+  signal?: AbortSignal;
+}
+
+export interface ChatResponse extends LLMResponse {
+  toolCalls: LLMToolCall[]; // Empty when the model answered in text
 }
 
 export type ComponentType =
@@ -31,6 +78,16 @@ export type ComponentType =
   | 'swarm_synthesizer'
   | 'tool_builder';
 
+/**
+ * Per-instance overrides (e.g. from a swarm genome); take precedence over env configuration
+ */
+export interface LLMOverrides {
+  provider?: LLMProviderType;
+  model?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
 export interface ParsedLLMConfig {
   provider?: LLMProviderType;
   model?: string;
@@ -3,11 +3,22 @@
  */
 
 import { PatchedChatVertexAI } from '../patchedVertexAI';
-import { LLMProvider, LLMConfig, LLMResponse } from './types';
+import {
+  LLMProvider,
+  LLMConfig,
+  LLMResponse,
+  ChatMessage,
+  ChatOptions,
+  ChatResponse,
+} from './types';
+import { contentText, fromLangChainToolCalls, toLangChainMessages } from './chat';
 import { log } from '@soup/common';
+import { SpanKind } from '@opentelemetry/api';
+import { setOtelAttributes, withOtelSpan } from '../tracing/otel';
 
 export class VertexAIProvider implements LLMProvider {
   private llm: PatchedChatVertexAI;
+  private jsonLlm?: PatchedChatVertexAI; // Same model with responseMimeType application/json
   private config: LLMConfig;
 
   constructor(config: LLMConfig) {
@@ -15,7 +26,7 @@ export class VertexAIProvider implements LLMProvider {
     this.llm = this.createVertexAI();
   }
 
-  private createVertexAI(): PatchedChatVertexAI {
+  private createVertexAI(responseMimeType?: 'application/json'): PatchedChatVertexAI {
     const projectId = process.env.GOOGLE_CLOUD_PROJECT;
     if (!projectId) {
       throw new Error(
@@ -27,6 +38,7 @@ export class VertexAIProvider implements LLMProvider {
       model: this.config.model,
       temperature: this.config.temperature,
       maxOutputTokens: this.config.maxOutputTokens,
+      responseMimeType,
       authOptions: {
         credentials: process.env.GOOGLE_APPLICATION_CREDENTIALS
           ? undefined
@@ -37,11 +49,30 @@ export class VertexAIProvider implements LLMProvider {
     });
   }
 
-  async invoke(prompt: string): Promise<LLMResponse> {
+  invoke(prompt: string): Promise<LLMResponse> {
+    return withOtelSpan(
+      'vertex.invoke',
+      { 'gen_ai.system': 'vertex', 'gen_ai.request.model': this.config.model },
+      () => this.generate(prompt),
+      SpanKind.CLIENT
+    );
+  }
+
+  private async generate(prompt: string): Promise<LLMResponse> {
     try {
       log(`[VertexAIProvider] Invoking ${this.config.model} with prompt length: ${prompt.length}`);
       const response = await this.llm.invoke(prompt);
-      return { content: response.content as string };
+      setOtelAttributes({
+        'gen_ai.usage.input_tokens': response.usage_metadata?.input_tokens ?? 0,
+        'gen_ai.usage.output_tokens': response.usage_metadata?.output_tokens ?? 0,
+      });
+      return {
+        content: response.content as string,
+        usage: response.usage_metadata && {
+          inputTokens: response.usage_metadata.input_tokens,
+          outputTokens: response.usage_metadata.output_tokens,
+        },
+      };
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : 'Unknown Vertex AI error';
       log(`[VertexAIProvider] Error: ${errorMsg}`);
@@ -49,6 +80,64 @@ export class VertexAIProvider implements LLMProvider {
     }
   }
 
+  /**
+   * Chat through the LangChain model: tools are bound per call, JSON mode uses a second model
+   * with responseMimeType application/json
+   */
+  chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResponse> {
+    return withOtelSpan(
+      'vertex.chat',
+      { 'gen_ai.system': 'vertex', 'gen_ai.request.model': this.config.model },
+      () => this.generateChat(messages, options),
+      SpanKind.CLIENT
+    );
+  }
+
+  private async generateChat(messages: ChatMessage[], options: ChatOptions): Promise<ChatResponse> {
+    try {
+      log(`[VertexAIProvider] Chat with ${this.config.model}: ${messages.length} messages`);
+      const tools = options.tools ?? [];
+      // Gemini rejects JSON mode combined with function calling, so tools take precedence
+      const base =
+        options.responseFormat === 'json' && !tools.length
+          ? (this.jsonLlm ??= this.createVertexAI('application/json'))
+          : this.llm;
+      const model = tools.length
+        ? base.bindTools(
+            tools.map((tool) => ({
+              type: 'function' as const,
+              function: {
+                name: tool.name,
+                description: tool.description,
+                parameters: tool.parameters,
+              },
+            }))
+          )
+        : base;
+
+      const response = await model.invoke(toLangChainMessages(messages), {
+        signal: options.signal,
+      });
+      setOtelAttributes({
+        'gen_ai.usage.input_tokens': response.usage_metadata?.input_tokens ?? 0,
+        'gen_ai.usage.output_tokens': response.usage_metadata?.output_tokens ?? 0,
+      });
+      return {
+        content: contentText(response.content),
+        toolCalls: fromLangChainToolCalls(response),
+        usage: response.usage_metadata && {
+          inputTokens: response.usage_metadata.input_tokens,
+          outputTokens: response.usage_metadata.output_tokens,
+        },
+      };
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      const errorMsg = error instanceof Error ? error.message : 'Unknown Vertex AI error';
+      log(`[VertexAIProvider] Chat error: ${errorMsg}`);
+      throw new Error(`Vertex AI provider failed: ${errorMsg}`);
+    }
+  }
+
   getModel(): string {
     return this.config.model;
   }
@@ -3,23 +3,51 @@
  * Uses LLM provider system for multi-provider support
  */
 
-import { createLLMProvider, LLMProvider } from './llm';
-import { log, logError } from '@soup/common';
+import { z } from 'zod';
+import { createLLMProvider, invokeStructured, LLMProvider } from './llm';
+import { defaultRubric, log, logError, Rubric, weightedScore } from '@soup/common';
 
 export interface GradeResult {
   passed: boolean;
   qualityScore?: number; // 0-100 for successful responses
+  criteria?: Record<string, number>; // Rubric criterion scores (0-100) for successful responses
   feedback?: string; // Brief explanation of the grade
 }
 
+// The grader's reply; a pass must score at least one of the rubric's criteria, or overall
+function gradeSchema(rubric: Rubric) {
+  return z
+    .object({
+      pass: z.boolean(),
+      criteria: z.record(z.unknown()).optional(),
+      score: z.coerce.number().optional(),
+      feedback: z.string().optional(),
+    })
+    .refine(
+      (grade) =>
+        !grade.pass || grade.score !== undefined || !!parseCriteria(grade.criteria, rubric),
+      {
+        message: `a passing grade must include a numeric score for at least one rubric criterion (${rubric.map((c) => c.name).join(', ')}) or an overall score`,
+        path: ['criteria'],
+      }
+    );
+}
+
 export class LLMGrader {
   private llm: LLMProvider;
 
-  constructor() {
-    this.llm = createLLMProvider('result_grader');
+  constructor(llm?: LLMProvider) {
+    this.llm = llm ?? createLLMProvider('result_grader');
   }
 
-  async gradeResponse(jobPrompt: string, agentResponse: string): Promise<GradeResult> {
+  /**
+   * Grades a response against the rubric's criteria; the quality score is their weighted mean
+   */
+  async gradeResponse(
+    jobPrompt: string,
+    agentResponse: string,
+    rubric: Rubric = defaultRubric()
+  ): Promise<GradeResult> {
     let parsedResponse: any = null;
     let answerText = agentResponse;
     let toolsUsed: unknown = [];
@@ -113,12 +141,8 @@ FIRST: Determine if this is a PASS or FAIL:
 - FAIL (return pass=false, no score): Response is completely irrelevant, error message, or doesn't attempt to address the request
 - PASS (return pass=true with score): Response attempts to address the request (even if poorly)
 
-IF PASS, then grade quality 1-100 (BE HARSH - use the full range):
-• **Answer Relevancy** – Does it address the exact request? Partial = lower score
-• **Helpfulness** – Is it genuinely useful and actionable? Generic = low score
-• **Faithfulness** – Are facts verifiable? Speculation = major deduction
-• **Bias** – Is it objective? Any bias = deduction
-• **Correctness** – Is every detail accurate? Errors = penalty
+IF PASS, then score EACH criterion 1-100 (BE HARSH - use the full range):
+${rubric.map((c) => `- ${c.name} (weight ${c.weight.toFixed(2)}): ${c.description}`).join('\n')}
 
 QUALITY SCORING (1-100, be strict):
 - 1-20: Passable but very poor quality, barely addresses request
@@ -133,46 +157,39 @@ Be critical! Most passing responses should score 20-60. Only truly excellent res
 Return ONLY a JSON response:
 {
   "pass": true/false,
+  "criteria": {${rubric.map((c) => `"${c.name}": 25`).join(', ')}},
   "score": 25,
   "feedback": "Brief explanation"
 }
 
 Requirements:
-- pass=false: Complete failure, no score needed
-- pass=true: Response attempts the task, include quality score 1-100
+- pass=false: Complete failure, no scores needed
+- pass=true: Response attempts the task, include every criterion score and an overall score 1-100
 - Be harsh with quality scores - err on the side of lower scores
 - Response must be valid JSON only, no additional text`;
 
       log('[LLMGrader] Evaluating response quality...');
 
-      const response = await this.llm.invoke(gradingPrompt);
-      let jsonResponse = response.content as string;
-
-      // Clean up response
-      jsonResponse = jsonResponse
-        .replace(/```json\s*/, '')
-        .replace(/```\s*$/, '')
-        .trim();
-
-      const gradeData = JSON.parse(jsonResponse);
-
-      // Validate response structure
-      if (typeof gradeData.pass !== 'boolean') {
-        throw new Error('Invalid grade response: missing or invalid pass field');
-      }
+      const gradeData = await invokeStructured(this.llm, gradingPrompt, gradeSchema(rubric), {
+        component: 'result_grader',
+      });
 
       const result: GradeResult = {
         passed: gradeData.pass,
         feedback: gradeData.feedback || 'No feedback provided',
       };
 
-      // Only validate and include score for passing responses
+      // Only validate and include scores for passing responses
       if (gradeData.pass) {
-        if (typeof gradeData.score !== 'number') {
+        const criteria = parseCriteria(gradeData.criteria, rubric);
+        const weighted = criteria ? weightedScore(criteria, rubric) : null;
+        const score = weighted ?? gradeData.score;
+        if (typeof score !== 'number') {
           throw new Error('Invalid grade response: passing response must include score');
         }
         // Clamp score between 1-100 for passing responses
-        result.qualityScore = Math.max(1, Math.min(100, gradeData.score));
+        result.qualityScore = Math.max(1, Math.min(100, Math.round(score)));
+        if (criteria) result.criteria = criteria;
       }
 
       log(
@@ -187,5 +204,18 @@ Requirements:
   }
 }
 
+/**
+ * Criterion scores of the rubric found in the grader output, clamped to 1-100
+ */
+function parseCriteria(raw: unknown, rubric: Rubric): Record<string, number> | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const scores: Record<string, number> = {};
+  for (const { name } of rubric) {
+    const value = Number((raw as Record<string, unknown>)[name]);
+    if (Number.isFinite(value)) scores[name] = Math.max(1, Math.min(100, value));
+  }
+  return Object.keys(scores).length ? scores : undefined;
+}
+
 // Singleton instance
 export const llmGrader = new LLMGrader();
@@ -58,19 +58,27 @@ export class ToolMemoryService {
     return this.embeddingPipeline;
   }
 
-  private async generateEmbedding(text: string): Promise<string | null> {
+  /**
+   * Normalized MiniLM embedding of `text`, or null when the pipeline is unavailable
+   */
+  async embed(text: string): Promise<number[] | null> {
     try {
       const pipeline = await this.getEmbeddingPipeline();
       if (!pipeline) return null;
 
       const output = await pipeline(text, { pooling: 'mean', normalize: true });
-      return JSON.stringify(Array.from(output.data));
+      return Array.from(output.data as ArrayLike<number>);
     } catch (error) {
       logError('[ToolMemory] Failed to generate embedding:', error);
       return null;
     }
   }
 
+  private async generateEmbedding(text: string): Promise<string | null> {
+    const embedding = await this.embed(text);
+    return embedding ? JSON.stringify(embedding) : null;
+  }
+
   /**
    * Save a tool to the agent's personal library
    */
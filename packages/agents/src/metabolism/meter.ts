@@ -0,0 +1,204 @@
+/**
+ * Metabolism Meter - Per-job accounting of the work a swarm does: LLM tokens (per component),
+ * generated tool executions and web/browser calls.
+ *
+ * Usage is collected through AsyncLocalStorage, so recorders deep in the agent stack need no job
+ * handle. Outside a metered job every recorder is a no-op.
+ *
+ * Every metered LLM call is also charged to the process-wide token budget, which refuses calls
+ * once an hourly budget (overall, or the metered swarm's) is spent.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { TokenBudget, tokenPool } from '@soup/common';
+import { recordSpanTokens, setSpanOutput, withSpan } from '../tracing/tracer';
+import { measureLLMCall, recordLLMTokens } from '../tracing/otel';
+import { getCassetteMode } from '../llm/cassette';
+import { getOpenAIBaseUrl } from '../llm/configParser';
+import { langChainServedBy } from '../llm/resilientProvider';
+
+export interface LLMUsage {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface MetabolismUsage {
+  llm: Record<string, LLMUsage>; // Keyed by LLM component (agent, swarm_synthesizer, ...)
+  toolCalls: number;
+  webCalls: number;
+}
+
+// Where an LLM call goes: decides its token pool and labels its metrics
+export interface LLMSource {
+  provider: string;
+  model: string;
+}
+
+const storage = new AsyncLocalStorage<MetabolismMeter>();
+
+// Process-wide; the runner configures its limits
+export const tokenBudget = new TokenBudget();
+
+export class MetabolismMeter {
+  readonly usage: MetabolismUsage = { llm: {}, toolCalls: 0, webCalls: 0 };
+
+  /**
+   * `agentId` is the swarm the job's LLM calls are budgeted to
+   */
+  constructor(readonly agentId?: string) {}
+
+  /**
+   * Runs `fn` with this meter active. Usage stays readable after `fn` throws.
+   */
+  run<T>(fn: () => Promise<T>): Promise<T> {
+    return storage.run(this, fn);
+  }
+
+  totalTokens(): number {
+    return Object.values(this.usage.llm).reduce(
+      (sum, u) => sum + u.inputTokens + u.outputTokens,
+      0
+    );
+  }
+}
+
+/** Rough token estimate (~4 characters per token) for providers that report no usage */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function recordLLMUsage(component: string, inputTokens: number, outputTokens: number) {
+  const usage = storage.getStore()?.usage;
+  if (!usage) return;
+
+  const entry = (usage.llm[component] ??= { calls: 0, inputTokens: 0, outputTokens: 0 });
+  entry.calls++;
+  entry.inputTokens += inputTokens;
+  entry.outputTokens += outputTokens;
+}
+
+export function recordToolCall() {
+  const usage = storage.getStore()?.usage;
+  if (usage) usage.toolCalls++;
+}
+
+export function recordWebCall() {
+  const usage = storage.getStore()?.usage;
+  if (usage) usage.webCalls++;
+}
+
+// Replayed calls cost nothing, whatever provider recorded them
+function poolOf(source: LLMSource) {
+  if (getCassetteMode() === 'replay') return 'free';
+  return tokenPool(source.provider, source.provider === 'openai' ? getOpenAIBaseUrl() : undefined);
+}
+
+/**
+ * Throws TokenBudgetExceededError when the call's pool (or the metered swarm's share of it) has
+ * spent its hourly budget
+ */
+export function assertTokenBudget(source: LLMSource) {
+  tokenBudget.check(poolOf(source), storage.getStore()?.agentId);
+}
+
+/**
+ * Records a finished LLM call: job metabolism, token budget, trace span and OTel metrics
+ */
+export function chargeLLMCall(
+  source: LLMSource,
+  component: string,
+  inputTokens: number,
+  outputTokens: number
+) {
+  recordLLMUsage(component, inputTokens, outputTokens);
+  tokenBudget.charge(
+    {
+      provider: source.provider,
+      component,
+      agentId: storage.getStore()?.agentId,
+      inputTokens,
+      outputTokens,
+    },
+    poolOf(source)
+  );
+  recordSpanTokens(inputTokens, outputTokens);
+  recordLLMTokens(llmAttributes(source, component), inputTokens, outputTokens);
+}
+
+export function llmAttributes(source: LLMSource, component: string) {
+  return {
+    'soup.component': component,
+    'gen_ai.system': source.provider,
+    'gen_ai.request.model': source.model,
+  };
+}
+
+function textOf(input: unknown): string {
+  if (typeof input === 'string') return input;
+  if (Array.isArray(input)) return input.map(textOf).join('\n');
+  if (input && typeof input === 'object') {
+    const { content } = input as { content?: unknown };
+    if (content !== undefined)
+      return typeof content === 'string' ? content : JSON.stringify(content);
+    if ('messages' in input) return textOf((input as { messages: unknown }).messages);
+  }
+  return JSON.stringify(input ?? '');
+}
+
+/**
+ * Patches a LangChain chat model's invoke to enforce the token budget and record token usage
+ * (and trace the call). Reported usage_metadata is preferred; otherwise tokens are estimated from
+ * the prompt and response text. Tool-bound copies (bindTools) delegate to the instance invoke, so
+ * ReAct agents are covered too. A `source` function is read on every call; a fallback chain's
+ * model is charged to the provider that answered.
+ */
+export function meterLangChainModel<T extends { invoke: (...args: any[]) => Promise<any> }>(
+  model: T,
+  component: string,
+  source: LLMSource | (() => LLMSource)
+): T {
+  const originalInvoke = model.invoke.bind(model);
+  model.invoke = ((input: any, options?: any) =>
+    withSpan(
+      `llm:${component}`,
+      'llm',
+      async () => {
+        const current = typeof source === 'function' ? source() : source;
+        assertTokenBudget(current);
+        const result = await measureLLMCall(llmAttributes(current, component), () =>
+          originalInvoke(input, options)
+        );
+        const reported = result?.usage_metadata;
+        const inputTokens = reported?.input_tokens ?? estimateTokens(textOf(input));
+        const outputTokens = reported?.output_tokens ?? estimateTokens(textOf(result));
+        chargeLLMCall(langChainServedBy(result) ?? current, component, inputTokens, outputTokens);
+
+        const toolCalls: { name: string }[] = result?.tool_calls ?? [];
+        setSpanOutput(
+          toolCalls.length
+            ? `${textOf(result)}\n[tool calls: ${toolCalls.map((c) => c.name).join(', ')}]`
+            : textOf(result)
+        );
+        return result;
+      },
+      { input: textOf(input) }
+    )) as T['invoke'];
+
+  return model;
+}
+
+/**
+ * Patches a LangChain tool's invoke to count (and trace) web/browser calls
+ */
+export function meterWebTool<T extends { invoke: (...args: any[]) => Promise<any> }>(tool: T): T {
+  const originalInvoke = tool.invoke.bind(tool);
+  const name = (tool as { name?: string }).name ?? 'web';
+  tool.invoke = ((...args: any[]) => {
+    recordWebCall();
+    return withSpan(`tool:${name}`, 'tool', () => originalInvoke(...args), {
+      input: textOf(args[0]?.args ?? args[0]),
+    });
+  }) as T['invoke'];
+  return tool;
+}
@@ -3,7 +3,8 @@
  * Format: [Name] the [Characteristic]
  */
 
-import { createLLMProvider, LLMProvider } from './llm';
+import { z } from 'zod';
+import { createLLMProvider, invokeStructured, LLMProvider } from './llm';
 import { log, logError } from '@soup/common';
 
 export interface AgentName {
@@ -12,6 +13,17 @@ export interface AgentName {
   characteristic: string;
 }
 
+// One "Firstname the Characteristic" per agent, in agent order
+const NAME_BATCH_SCHEMA = z.object({
+  names: z
+    .array(
+      z
+        .string()
+        .regex(/^\S.*\s+the\s+\S/i, 'each name must have the form "Firstname the Characteristic"')
+    )
+    .min(1),
+});
+
 export class NameGenerator {
   private llm: LLMProvider;
 
@@ -29,10 +41,11 @@ export class NameGenerator {
       log(`[NameGenerator] Generating ${agents.length} names in batch...`);
 
       const prompt = this.createBatchPrompt(agents);
-      const response = await this.llm.invoke(prompt);
-      const content = response.content as string;
+      const batch = await invokeStructured(this.llm, prompt, NAME_BATCH_SCHEMA, {
+        component: 'name_generator',
+      });
 
-      const names = this.parseBatchResponse(content, agents.length);
+      const names = this.parseNames(batch.names, agents.length);
 
       if (names.length !== agents.length) {
         logError(
@@ -84,39 +97,19 @@ Examples of the style wanted:
 - "Bramble the Browser-Breaker" (for a web-browser agent)
 - "Quill the Question-Quencher" (for an llm-only agent)
 
-Return ONLY the names, one per line, numbered 1-${agents.length}:`;
+Return ONLY a JSON object with exactly ${agents.length} names, in the order of the agents above:
+{"names": ["Firstname the Characteristic", ...]}`;
   }
 
-  private parseBatchResponse(content: string, expectedCount: number): AgentName[] {
-    const names: AgentName[] = [];
-    const lines = content.trim().split('\n');
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (!trimmed) continue;
-
-      // Try to extract name from numbered format: "1. Name the Characteristic"
-      const numberedMatch = trimmed.match(/^\d+\.?\s*(.+)$/);
-      const nameText = numberedMatch ? numberedMatch[1] : trimmed;
-
-      // Parse "Firstname the Characteristic" format
-      const nameMatch = nameText.match(/^(.+?)\s+the\s+(.+)$/i);
-      if (nameMatch) {
-        const firstName = nameMatch[1].trim();
-        const characteristic = nameMatch[2].trim();
-        const fullName = `${firstName} the ${characteristic}`;
-
-        names.push({
-          fullName,
-          firstName,
-          characteristic,
-        });
-
-        if (names.length >= expectedCount) break;
-      }
-    }
-
-    return names;
+  private parseNames(fullNames: string[], expectedCount: number): AgentName[] {
+    return fullNames.slice(0, expectedCount).map((fullName) => {
+      const [, firstName, characteristic] = fullName.trim().match(/^(.+?)\s+the\s+(.+)$/i)!;
+      return {
+        fullName: `${firstName.trim()} the ${characteristic.trim()}`,
+        firstName: firstName.trim(),
+        characteristic: characteristic.trim(),
+      };
+    });
   }
 
   private createFallbackName(agent: {
@@ -0,0 +1,176 @@
+/**
+ * Job Suites - Programmatic checkers
+ *
+ * Built-in checkers: exact, numeric, regex, json_schema and set_overlap. Suites refer to them by
+ * name in `checker.type`; more can be added with `registerChecker`.
+ */
+
+import Ajv from 'ajv';
+import { Checker, CheckerSpec, CheckResult } from './types';
+
+const checkers = new Map<string, Checker>();
+const ajv = new Ajv({ allErrors: true });
+
+export function registerChecker(type: string, checker: Checker): void {
+  checkers.set(type, checker);
+}
+
+export function hasChecker(type: string): boolean {
+  return checkers.has(type);
+}
+
+/**
+ * Runs the checker named by `spec.type`. Checker errors count as a failed check.
+ */
+export function runChecker(response: string, expected: unknown, spec: CheckerSpec): CheckResult {
+  const checker = checkers.get(spec.type);
+  if (!checker) {
+    return { passed: false, score: 0, detail: `Unknown checker "${spec.type}"` };
+  }
+  try {
+    return checker(extractAnswer(response), expected, spec);
+  } catch (error) {
+    return {
+      passed: false,
+      score: 0,
+      detail: `Checker "${spec.type}" failed: ${error instanceof Error ? error.message : error}`,
+    };
+  }
+}
+
+/**
+ * Swarm artifacts are often JSON envelopes ({ answer, tools_used, ... }); checkers see the answer
+ */
+export function extractAnswer(response: string): string {
+  try {
+    const parsed = JSON.parse(response);
+    if (parsed && typeof parsed === 'object' && 'answer' in parsed) {
+      return typeof parsed.answer === 'string' ? parsed.answer : JSON.stringify(parsed.answer);
+    }
+  } catch {
+    // Plain text response
+  }
+  return response;
+}
+
+const normalizeText = (text: string, spec: CheckerSpec) => {
+  let value = text.trim().replace(/\s+/g, ' ');
+  if (!spec.caseSensitive) value = value.toLowerCase();
+  return value.replace(/[.!]+$/, '');
+};
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const pass = (passed: boolean, detail: string, score = passed ? 1 : 0): CheckResult => ({
+  passed,
+  score,
+  detail,
+});
+
+// Whole response equals the expected string (or one of several), after normalization
+registerChecker('exact', (response, expected, spec) => {
+  const options = (Array.isArray(expected) ? expected : [expected]).map(String);
+  const answer = normalizeText(response, spec);
+  const match = options.find((o) => normalizeText(o, spec) === answer);
+  return pass(!!match, match ? `Matched "${match}"` : `Expected one of: ${options.join(' | ')}`);
+});
+
+// A number in the response lies within tolerance of the expected value
+registerChecker('numeric', (response, expected, spec) => {
+  const target = Number(expected);
+  if (!Number.isFinite(target)) throw new Error('expected must be a number');
+
+  const tolerance = Math.max(
+    Number(spec.tolerance ?? 0),
+    Math.abs(target) * Number(spec.relTolerance ?? 0)
+  );
+  const numbers = (response.replace(/(\d),(?=\d{3}\b)/g, '$1').match(/-?\d+(?:\.\d+)?/g) ?? [])
+    .map(Number)
+    .filter(Number.isFinite);
+  const candidates = spec.match === 'last' ? numbers.slice(-1) : numbers;
+  if (!candidates.length) return pass(false, 'No number in response');
+
+  const closest = candidates.reduce((best, n) =>
+    Math.abs(n - target) < Math.abs(best - target) ? n : best
+  );
+  const error = Math.abs(closest - target);
+  return pass(error <= tolerance, `Closest ${closest} vs expected ${target} (±${tolerance})`);
+});
+
+// The response matches a pattern (spec.pattern, or the expected value as pattern source)
+registerChecker('regex', (response, expected, spec) => {
+  const source = String(spec.pattern ?? expected);
+  const regex = new RegExp(source, typeof spec.flags === 'string' ? spec.flags : 'i');
+  return pass(regex.test(response), `Pattern /${source}/`);
+});
+
+// The first JSON value in the response validates against the expected JSON schema
+registerChecker('json_schema', (response, expected, spec) => {
+  const schema = (spec.schema ?? expected) as object;
+  const json = parseFirstJson(response);
+  if (json === undefined) return pass(false, 'No JSON in response');
+
+  const validate = ajv.compile(schema);
+  const valid = validate(json) as boolean;
+  return pass(valid, valid ? 'Valid against schema' : ajv.errorsText(validate.errors));
+});
+
+// Overlap between the expected items and the response. 'recall' (default) is the share of
+// expected items mentioned anywhere; 'jaccard' compares against the listed items exactly.
+registerChecker('set_overlap', (response, expected, spec) => {
+  if (!Array.isArray(expected)) throw new Error('expected must be an array');
+  const norm = (s: unknown) => normalizeText(String(s), spec);
+  const want = [...new Set(expected.map(norm))];
+  const text = norm(response);
+
+  let hits: number;
+  let score: number;
+  if (spec.mode === 'jaccard') {
+    const json = parseFirstJson(response);
+    const listed = Array.isArray(json) ? json : response.split(/[,;\n]/);
+    const got = new Set(
+      listed.map((s) => norm(String(s).replace(/^\s*(?:[-*•]|\d+[.)]|and\s)\s*/i, '')))
+    );
+    got.delete('');
+    hits = want.filter((w) => got.has(w)).length;
+    score = hits / new Set([...want, ...got]).size;
+  } else {
+    hits = want.filter((w) => new RegExp(`(^|\\W)${escapeRegex(w)}(\\W|$)`).test(text)).length;
+    score = hits / want.length;
+  }
+
+  const threshold = Number(spec.threshold ?? 1);
+  return pass(
+    score >= threshold,
+    `${hits}/${want.length} expected items, score ${score.toFixed(2)}`,
+    score
+  );
+});
+
+function parseFirstJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Fall through to embedded JSON
+  }
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced?.[1] ?? text.slice(Math.min(...['{', '['].map((c) => indexOr(text, c))));
+  // Try prefixes ending at the last few closing brackets
+  let attempts = 0;
+  for (let end = candidate.length; end > 0 && attempts < 20; end--) {
+    const ch = candidate[end - 1];
+    if (ch !== '}' && ch !== ']') continue;
+    attempts++;
+    try {
+      return JSON.parse(candidate.slice(0, end));
+    } catch {
+      // Try a shorter prefix
+    }
+  }
+  return undefined;
+}
+
+function indexOr(text: string, ch: string) {
+  const i = text.indexOf(ch);
+  return i === -1 ? text.length : i;
+}
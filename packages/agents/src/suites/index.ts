@@ -0,0 +1,3 @@
+export { registerChecker, runChecker, extractAnswer } from './checkers';
+export { parseSuite, SuiteRegistry, suiteRegistry } from './loader';
+export type { Checker, CheckerSpec, CheckResult, JobSuite, SuiteTask, SuiteTaskRef } from './types';
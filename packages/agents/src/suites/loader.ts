@@ -0,0 +1,146 @@
+/**
+ * Job Suites - Loading and sampling
+ *
+ * Suites are JSON or YAML files of tasks with known answers. Each file declares a name and a
+ * version; task defaults (category, payout, deadline, checker) can be set once per suite.
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import YAML from 'yaml';
+import { z } from 'zod';
+import { JobCategory, JOB_CATEGORIES, log, logError } from '@soup/common';
+import { hasChecker } from './checkers';
+import { JobSuite, SuiteTask, SuiteTaskRef } from './types';
+
+const checkerSchema = z.object({ type: z.string() }).passthrough();
+const categorySchema = z.enum(JOB_CATEGORIES as [JobCategory, ...JobCategory[]]);
+
+const suiteFileSchema = z.object({
+  name: z.string().min(1),
+  version: z.string().min(1),
+  description: z.string().optional(),
+  defaults: z
+    .object({
+      category: categorySchema.optional(),
+      payout: z.number().positive().optional(),
+      deadlineS: z.number().positive().optional(),
+      checker: checkerSchema.optional(),
+    })
+    .optional()
+    .default({}),
+  tasks: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        category: categorySchema.optional(),
+        prompt: z.string().min(1),
+        expected: z.unknown(),
+        checker: checkerSchema.optional(),
+        payout: z.number().positive().optional(),
+        deadlineS: z.number().positive().optional(),
+      })
+    )
+    .min(1),
+});
+
+export function parseSuite(content: string, file: string): JobSuite {
+  const raw = file.endsWith('.json') ? JSON.parse(content) : YAML.parse(content);
+  const suite = suiteFileSchema.parse(raw);
+  const { defaults } = suite;
+
+  const tasks: SuiteTask[] = suite.tasks.map((task) => {
+    const category = task.category ?? defaults.category;
+    const checker = task.checker ?? defaults.checker;
+    if (!category) throw new Error(`Task ${task.id} has no category`);
+    if (!checker) throw new Error(`Task ${task.id} has no checker`);
+    if (!hasChecker(checker.type)) {
+      throw new Error(`Task ${task.id} uses unknown checker "${checker.type}"`);
+    }
+    if (task.expected === undefined && checker.type !== 'json_schema') {
+      throw new Error(`Task ${task.id} has no expected answer`);
+    }
+    return {
+      id: task.id,
+      category,
+      prompt: task.prompt,
+      expected: task.expected,
+      checker,
+      payout: task.payout ?? defaults.payout ?? 5,
+      deadlineS: task.deadlineS ?? defaults.deadlineS ?? 120,
+    };
+  });
+
+  const ids = new Set(tasks.map((t) => t.id));
+  if (ids.size !== tasks.length) throw new Error(`Suite ${suite.name} has duplicate task ids`);
+
+  return { name: suite.name, version: suite.version, description: suite.description, file, tasks };
+}
+
+/**
+ * Holds the loaded suites and hands out their tasks as jobs
+ */
+export class SuiteRegistry {
+  private suites = new Map<string, JobSuite>(); // Keyed by name@version
+
+  /**
+   * Loads every .json/.yaml/.yml file in `dir`. Invalid files are logged and skipped.
+   */
+  async loadDirectory(dir: string): Promise<JobSuite[]> {
+    if (!(await fs.pathExists(dir))) {
+      log(`[Suites] No suite directory at ${dir}`);
+      return [];
+    }
+
+    const loaded: JobSuite[] = [];
+    for (const file of (await fs.readdir(dir)).sort()) {
+      if (!/\.(json|ya?ml)$/.test(file)) continue;
+      const filePath = path.join(dir, file);
+      try {
+        const suite = parseSuite(await fs.readFile(filePath, 'utf8'), filePath);
+        this.suites.set(`${suite.name}@${suite.version}`, suite);
+        loaded.push(suite);
+        log(`[Suites] Loaded ${suite.name}@${suite.version} (${suite.tasks.length} tasks)`);
+      } catch (error) {
+        logError(`[Suites] Skipping invalid suite ${filePath}:`, error);
+      }
+    }
+    return loaded;
+  }
+
+  list(): JobSuite[] {
+    return [...this.suites.values()];
+  }
+
+  get taskCount(): number {
+    return this.list().reduce((sum, s) => sum + s.tasks.length, 0);
+  }
+
+  /**
+   * Random task of the category across all suites, or null when no suite covers it
+   */
+  sample(
+    category: JobCategory,
+    random: () => number = Math.random
+  ): { task: SuiteTask; ref: SuiteTaskRef } | null {
+    const candidates = this.list().flatMap((suite) =>
+      suite.tasks
+        .filter((task) => task.category === category)
+        .map((task) => ({
+          task,
+          ref: { suite: suite.name, version: suite.version, taskId: task.id },
+        }))
+    );
+    if (!candidates.length) return null;
+    return candidates[Math.floor(random() * candidates.length)];
+  }
+
+  find(ref: SuiteTaskRef): SuiteTask | undefined {
+    return this.suites
+      .get(`${ref.suite}@${ref.version}`)
+      ?.tasks.find((task) => task.id === ref.taskId);
+  }
+}
+
+// Singleton instance
+export const suiteRegistry = new SuiteRegistry();
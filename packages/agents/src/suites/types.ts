@@ -0,0 +1,44 @@
+/**
+ * Job Suites - Types for versioned task suites with known answers
+ */
+
+import { JobCategory } from '@soup/common';
+
+/** A checker reference: `type` names a registered checker, other fields are its options */
+export interface CheckerSpec {
+  type: string;
+  [option: string]: unknown;
+}
+
+export interface CheckResult {
+  passed: boolean;
+  score: number; // 0-1
+  detail: string;
+}
+
+export type Checker = (response: string, expected: unknown, spec: CheckerSpec) => CheckResult;
+
+export interface SuiteTask {
+  id: string;
+  category: JobCategory;
+  prompt: string;
+  expected: unknown; // Ground truth handed to the checker
+  checker: CheckerSpec;
+  payout: number;
+  deadlineS: number;
+}
+
+export interface JobSuite {
+  name: string;
+  version: string;
+  description?: string;
+  file: string;
+  tasks: SuiteTask[];
+}
+
+/** Reference carried in a job payload so the worker can find the task again */
+export interface SuiteTaskRef {
+  suite: string;
+  version: string;
+  taskId: string;
+}
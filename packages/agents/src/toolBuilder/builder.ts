@@ -1,54 +1,16 @@
-import JSON5 from 'json5';
-import { PatchedChatVertexAI } from '../patchedVertexAI';
+import { z } from 'zod';
 import { BuilderContext, BuilderPlan } from '../types';
-import { extractErrorMessage, toStringContent } from './utils';
+import { ChatMessage, LLMProvider } from '../llm/types';
+import { invokeStructured, StructuredOutputError } from '../llm/structured';
 import { log } from '@soup/common';
 import type { LLMOptions } from './llm';
 
-export type LLMFactory = (options?: LLMOptions) => PatchedChatVertexAI;
-
-const extractFirstJsonObject = (value: string): string | null => {
-  const start = value.indexOf('{');
-  if (start === -1) return null;
-  let depth = 0;
-  let inString = false;
-  let escape = false;
-  let stringDelimiter: string | null = null;
-  for (let i = start; i < value.length; i += 1) {
-    const ch = value[i];
-    if (escape) {
-      escape = false;
-      continue;
-    }
-    if (ch === '\\') {
-      escape = true;
-      continue;
-    }
-    if (ch === '"' || ch === "'") {
-      if (!inString) {
-        inString = true;
-        stringDelimiter = ch;
-      } else if (stringDelimiter === ch) {
-        inString = false;
-        stringDelimiter = null;
-      }
-      continue;
-    }
-    if (inString) continue;
-    if (ch === '{') {
-      depth += 1;
-    } else if (ch === '}') {
-      depth -= 1;
-      if (depth === 0) {
-        return value.slice(start, i + 1);
-      }
-    }
-  }
-  return null;
-};
+export type LLMFactory = (options?: LLMOptions) => LLMProvider;
 
 const validatePlan = (plan: BuilderPlan): string | null => {
-  const hasToolSelection = Boolean(plan.reuseTool?.trim() || plan.createTool);
+  const hasToolSelection = Boolean(
+    (typeof plan.reuseTool === 'string' && plan.reuseTool.trim()) || plan.createTool
+  );
 
   if (hasToolSelection) {
     if (
@@ -57,7 +19,7 @@ const validatePlan = (plan: BuilderPlan): string | null => {
       Array.isArray(plan.executionArgs) ||
       Object.keys(plan.executionArgs).length === 0
     ) {
-      return 'executionArgs must be a non-empty JSON object containing the concrete arguments for the selected tool';
+      return 'executionArgs must be a non-empty JSON object containing the concrete arguments for the selected tool, e.g. {"executionArgs": {"query": "search term", "limit": 10}}';
     }
   }
 
@@ -84,11 +46,20 @@ const validatePlan = (plan: BuilderPlan): string | null => {
   return null;
 };
 
+// The planner's reply: a rationale plus a tool selection that passes validatePlan
+const PLAN_SCHEMA = z
+  .object({ rationale: z.string().min(1, 'rationale must be a non-empty string') })
+  .passthrough()
+  .superRefine((plan, ctx) => {
+    const error = validatePlan(plan as unknown as BuilderPlan);
+    if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  });
+
 export async function builderPlan(
   context: BuilderContext,
   llmFactory: LLMFactory
 ): Promise<BuilderPlan> {
-  const llm = llmFactory({ responseMimeType: 'application/json' });
+  const llm = llmFactory();
 
   const availableToolsListing = context.availableTools
     .map((tool) => `- ${tool.name}: ${tool.description || 'No description available.'}`)
@@ -130,139 +101,52 @@ export async function builderPlan(
     'Return ONLY JSON with NO surrounding text.',
   ].join('\n');
 
-  const baseMessages = [
+  const baseMessages: ChatMessage[] = [
     {
-      role: 'system' as const,
+      role: 'system',
       content: `You design or reuse powerful JSON-callable tools that access real data and external resources. Each tool you create is a unique mutation belonging only to you. Tools have access to npm packages and web browsing capabilities. Never create tools that return dummy or mock data - always use real information. ${formatInstructions}`,
     },
     {
-      role: 'user' as const,
+      role: 'user',
       content: userPrompt,
     },
   ];
 
-  const messages = [...baseMessages];
-  const maxRetries = 3;
-  let lastParsedPlan: BuilderPlan | null = null;
-  let lastValidationError: string | null = null;
-
-  for (let attempt = 0; attempt < maxRetries; attempt += 1) {
-    const response = await llm.invoke(messages);
-    let raw = toStringContent(response.content).trim();
-
-    if (raw.startsWith('```')) {
-      raw = raw
-        .replace(/^```(?:json)?/i, '')
-        .replace(/```$/i, '')
-        .trim();
-    }
-
-    try {
-      let parsed: unknown;
-      try {
-        parsed = JSON.parse(raw || '{}');
-      } catch (jsonError) {
-        try {
-          parsed = JSON5.parse(raw || '{}');
-        } catch (json5Error) {
-          const firstJson = extractFirstJsonObject(raw || '');
-          if (!firstJson) throw json5Error;
-          try {
-            parsed = JSON.parse(firstJson);
-          } catch {
-            parsed = JSON5.parse(firstJson);
-          }
-        }
-      }
-
-      if (!parsed || typeof parsed !== 'object') {
-        throw new Error('Response was not a JSON object');
-      }
-
-      const plan = parsed as BuilderPlan;
-      if (typeof plan.rationale !== 'string' || plan.rationale.length === 0) {
-        throw new Error('Missing rationale');
-      }
-
-      lastParsedPlan = plan;
-
-      const validationError = validatePlan(plan);
-      if (validationError) {
-        log(
-          `[builderPlan] Validation failed (attempt ${attempt + 1}/${maxRetries}): ${validationError}`
-        );
-        lastValidationError = validationError;
-
-        let retryMessage = `Your previous reply was invalid: ${validationError}. `;
-        if (validationError.includes('executionArgs')) {
-          retryMessage +=
-            'You MUST include executionArgs as a non-empty JSON object with the actual arguments to pass to the tool. Example: {"executionArgs": {"query": "search term", "limit": 10}}';
-        } else {
-          retryMessage += 'Respond again with ONLY valid JSON matching the required schema.';
-        }
-
-        messages.push({
-          role: 'user' as const,
-          content: retryMessage,
-        });
-        continue;
-      }
-
-      return plan;
-    } catch (error) {
-      const errorMsg = extractErrorMessage(error, 'Invalid JSON response');
-      log(
-        `[builderPlan] Parse failed (attempt ${attempt + 1}/${maxRetries}): ${errorMsg}. Raw response: ${raw.slice(0, 200)}`
-      );
-      messages.push({
-        role: 'user' as const,
-        content: `Your previous reply failed to parse (${errorMsg}). Respond again with ONLY valid JSON matching the required schema.`,
-      });
-    }
-  }
-
-  if (lastParsedPlan) {
-    if (lastValidationError) {
-      log(
-        `[builderPlan] Returning last parsed plan despite validation error: ${lastValidationError}`
-      );
-    } else {
-      log('[builderPlan] Returning last parsed plan after exhausting retries.');
+  try {
+    return (await invokeStructured(llm, baseMessages, PLAN_SCHEMA, {
+      component: 'tool_builder',
+      signal: context.signal,
+    })) as unknown as BuilderPlan;
+  } catch (error) {
+    if (!(error instanceof StructuredOutputError)) throw error;
+    // A plan that parsed but failed validation is still better than none
+    const plan = error.value as BuilderPlan | undefined;
+    if (
+      !plan ||
+      typeof plan !== 'object' ||
+      typeof plan.rationale !== 'string' ||
+      !plan.rationale
+    ) {
+      throw new Error(`Builder plan could not be parsed after ${error.attempts} attempts`);
     }
 
-    if (!lastParsedPlan.executionArgs || typeof lastParsedPlan.executionArgs !== 'object') {
+    log(`[builderPlan] Returning last parsed plan despite validation error: ${error.detail}`);
+    if (!plan.executionArgs || typeof plan.executionArgs !== 'object') {
       log('[builderPlan] executionArgs missing or invalid, attempting to infer from context');
-
-      if (lastParsedPlan.createTool) {
-        const createTool = lastParsedPlan.createTool as unknown as Record<string, unknown>;
-        const expectedInputs = createTool.expectedInputs;
-
-        if (expectedInputs && typeof expectedInputs === 'object') {
-          const inferredArgs: Record<string, unknown> = {};
-          const inputs = expectedInputs as Record<string, unknown>;
-
-          for (const key in inputs) {
-            inferredArgs[key] = '';
-          }
-
-          if (Object.keys(inferredArgs).length > 0) {
-            log(
-              `[builderPlan] Inferred executionArgs from expectedInputs: ${Object.keys(inferredArgs).join(', ')}`
-            );
-            lastParsedPlan.executionArgs = inferredArgs;
-          } else {
-            lastParsedPlan.executionArgs = {};
-          }
-        } else {
-          lastParsedPlan.executionArgs = {};
+      plan.executionArgs = {};
+      const expectedInputs = (plan.createTool as unknown as Record<string, unknown> | undefined)
+        ?.expectedInputs;
+      if (expectedInputs && typeof expectedInputs === 'object') {
+        for (const key in expectedInputs as Record<string, unknown>) {
+          plan.executionArgs[key] = '';
+        }
+        if (Object.keys(plan.executionArgs).length > 0) {
+          log(
+            `[builderPlan] Inferred executionArgs from expectedInputs: ${Object.keys(plan.executionArgs).join(', ')}`
+          );
         }
-      } else {
-        lastParsedPlan.executionArgs = {};
       }
     }
-
-    return lastParsedPlan;
+    return plan;
   }
-
-  throw new Error('Builder plan could not be parsed after multiple attempts');
 }
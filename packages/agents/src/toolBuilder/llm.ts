@@ -1,46 +1,19 @@
-import { logError, getVertexTokenLimit } from '@soup/common';
-import { PatchedChatVertexAI } from '../patchedVertexAI';
-import { extractErrorMessage } from './utils';
-
-export type ToolBuilderResponseMimeType = 'application/json' | 'text/plain';
+import { createLLMProvider } from '../llm/factory';
+import { LLMProvider } from '../llm/types';
 
 export interface LLMOptions {
-  responseMimeType?: ToolBuilderResponseMimeType;
+  model?: string; // Genome override of the tool_builder model
+  temperature?: number; // Genome override of the tool_builder temperature
 }
 
-export function createToolBuilderLLM(options?: LLMOptions): PatchedChatVertexAI {
-  const projectId = process.env.GOOGLE_CLOUD_PROJECT;
-  const model = process.env.VERTEX_AI_MODEL || 'gemini-1.5-flash';
-  const temperature = parseFloat(process.env.VERTEX_AI_TEMPERATURE || '0.7');
-  const maxOutputTokens = getVertexTokenLimit('tool_builder');
-
-  if (!projectId) {
-    throw new Error('GOOGLE_CLOUD_PROJECT environment variable is required');
-  }
-
-  const llm = new PatchedChatVertexAI({
-    model,
-    temperature,
-    maxOutputTokens, // Use config-based limit (undefined = no limit)
-    responseMimeType: options?.responseMimeType,
-    authOptions: {
-      credentials: process.env.GOOGLE_APPLICATION_CREDENTIALS
-        ? undefined
-        : process.env.GOOGLE_CLOUD_CREDENTIALS
-          ? JSON.parse(Buffer.from(process.env.GOOGLE_CLOUD_CREDENTIALS, 'base64').toString())
-          : undefined,
-    },
+/**
+ * Provider for the tool builder's planner and runner. Configured like any other component
+ * (LLM_CONFIG_TOOL_BUILDER, LLM_FALLBACK_TOOL_BUILDER), so it runs on Vertex, Ollama or an
+ * OpenAI-compatible server, and is metered, traced and recorded by the cassette.
+ */
+export function createToolBuilderLLM(options?: LLMOptions): LLMProvider {
+  return createLLMProvider('tool_builder', {
+    model: options?.model,
+    temperature: options?.temperature,
   });
-
-  const originalInvoke = llm.invoke.bind(llm);
-  llm.invoke = (async (...args) => {
-    try {
-      return await originalInvoke(...args);
-    } catch (error) {
-      logError('[ToolBuilderLLM] Vertex LLM invocation error object:', error);
-      throw new Error(extractErrorMessage(error, 'LLM invocation failed'));
-    }
-  }) as typeof llm.invoke;
-
-  return llm;
 }
@@ -1,8 +1,7 @@
-import { log, logError } from '@soup/common';
+import { log, logError, throwIfAborted } from '@soup/common';
 import { RunnerInput, RunnerResult } from '../types';
 import { dynamicToolLoader } from '../tools/dynamicToolLoader';
 import { LLMFactory } from './builder';
-import { toStringContent } from './utils';
 
 export async function runnerExecute(
   input: RunnerInput,
@@ -17,7 +16,9 @@ export async function runnerExecute(
   let error: string | undefined;
 
   try {
-    rawOutput = await dynamicToolLoader.executeTool(input.toolName, input.args);
+    rawOutput = await dynamicToolLoader.executeTool(input.toolName, input.args, {
+      signal: input.signal,
+    });
     try {
       const parsed = JSON.parse(rawOutput);
       if (parsed && typeof parsed === 'object' && parsed.success === false) {
@@ -28,6 +29,7 @@ export async function runnerExecute(
       // Non-JSON output is allowed
     }
   } catch (execError) {
+    throwIfAborted(input.signal);
     ok = false;
     error = execError instanceof Error ? execError.message : 'Tool execution failed';
     rawOutput = JSON.stringify({ success: false, error });
@@ -42,22 +44,26 @@ export async function runnerExecute(
     summaryText = rawOutput;
     try {
       const llm = llmFactory();
-      const summary = await llm.invoke([
-        {
-          role: 'system',
-          content:
-            'You are drafting the final answer for the user. Use the supplied tool output strictly as facts, ' +
-            'and respond directly to the user request. Do not mention tools, processes, or how the answer was produced. ' +
-            'Provide only the answer content the user asked for.',
-        },
-        {
-          role: 'user',
-          content: `User request:\n${input.jobPrompt}\n\nRelevant data:\n${rawOutput}\n\nNotes from planner: ${input.builderRationale}`,
-        },
-      ]);
-      summaryText = toStringContent(summary.content).trim();
+      const summary = await llm.chat(
+        [
+          {
+            role: 'system',
+            content:
+              'You are drafting the final answer for the user. Use the supplied tool output strictly as facts, ' +
+              'and respond directly to the user request. Do not mention tools, processes, or how the answer was produced. ' +
+              'Provide only the answer content the user asked for.',
+          },
+          {
+            role: 'user',
+            content: `User request:\n${input.jobPrompt}\n\nRelevant data:\n${rawOutput}\n\nNotes from planner: ${input.builderRationale}`,
+          },
+        ],
+        { signal: input.signal }
+      );
+      summaryText = summary.content.trim();
       summarySource = 'llm';
     } catch (summaryError) {
+      throwIfAborted(input.signal);
       logError(
         '[runnerExecute] Failed to generate final answer, falling back to raw tool output.',
         summaryError
@@ -23,27 +23,6 @@ export const extractErrorMessage = (error: unknown, fallback = 'Unknown error'):
   }
 };
 
-export const toStringContent = (content: unknown): string => {
-  if (typeof content === 'string') return content;
-  if (Array.isArray(content)) {
-    const textItem = content.find((item) => typeof item === 'string');
-    if (textItem) return textItem;
-    for (const item of content) {
-      if (item && typeof item === 'object') {
-        if (typeof (item as any).text === 'string') return (item as any).text;
-        if (typeof (item as any).content === 'string') return (item as any).content;
-      }
-    }
-    return JSON.stringify(content);
-  }
-  if (content && typeof content === 'object') {
-    if (typeof (content as any).text === 'string') return (content as any).text;
-    if (typeof (content as any).content === 'string') return (content as any).content;
-    return JSON.stringify(content);
-  }
-  return String(content ?? '');
-};
-
 export function sanitizeToolInput<T = unknown>(value: T): T {
   if (value === null) return value;
   if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
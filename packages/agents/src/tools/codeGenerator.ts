@@ -9,6 +9,9 @@ import { selectTemplate } from '../templates/toolTemplates';
 import crypto from 'crypto';
 import path from 'path';
 import { getToolCapabilities } from './toolExecutionEnv';
+import { getCassetteMode, wrapLangChainModel } from '../llm/cassette';
+import { meterLangChainModel } from '../metabolism/meter';
+import { lineageService } from '../lineage/LineageService';
 import * as acorn from 'acorn';
 
 export interface GeneratedToolRequest {
@@ -34,15 +37,18 @@ export class CodeGeneratorTool {
   constructor() {
     const projectId = process.env.GOOGLE_CLOUD_PROJECT;
 
-    if (!projectId) {
+    // Replays are served from the LLM cassette, so Vertex credentials are optional then
+    if (!projectId && getCassetteMode() !== 'replay') {
       throw new Error('GOOGLE_CLOUD_PROJECT environment variable is required');
     }
 
     const maxOutputTokens = getVertexTokenLimit('code_generator');
+    const model = process.env.VERTEX_AI_MODEL || 'gemini-1.5-flash';
+    const temperature = 0.3; // Lower temperature for more consistent code generation
 
-    this.llm = new PatchedChatVertexAI({
-      model: process.env.VERTEX_AI_MODEL || 'gemini-1.5-flash',
-      temperature: 0.3, // Lower temperature for more consistent code generation
+    const llm = new PatchedChatVertexAI({
+      model,
+      temperature,
       maxOutputTokens, // Use config-based limit (undefined = no limit)
       authOptions: {
         credentials: process.env.GOOGLE_APPLICATION_CREDENTIALS
@@ -52,6 +58,11 @@ export class CodeGeneratorTool {
             : undefined,
       },
     });
+    this.llm = meterLangChainModel(
+      wrapLangChainModel(llm, 'code_generator', { provider: 'vertex', model, temperature }),
+      'code_generator',
+      { provider: 'vertex', model }
+    );
   }
 
   name = 'code_generator';
@@ -123,6 +134,17 @@ export class CodeGeneratorTool {
       await fs.default.writeFile(filePath, generatedCode, 'utf-8');
       log(`[CodeGeneratorTool] Tool code written successfully to: ${filePath}`);
 
+      const manifestsDir = path.join(__dirname, '../generated-tools/manifests');
+      const manifestId = `${sanitizedToolName}_${hash}`;
+      const manifestPath = path.join(manifestsDir, `${manifestId}.json`);
+      // Identical code hashes to the same manifest id: that is not a new version of the tool
+      const regenerated = await fs.default.pathExists(manifestPath);
+      const parentTool = await this.findPreviousVersion(
+        manifestsDir,
+        sanitizedToolName,
+        manifestId
+      );
+
       // Create metadata manifest
       const manifest = {
         toolName: sanitizedToolName,
@@ -134,6 +156,7 @@ export class CodeGeneratorTool {
         filePath,
         createdAt: new Date().toISOString(),
         createdBy: agentId || 'unknown',
+        parentTool, // Manifest id of the previous version of this tool, if any
         templateUsed: template.name,
         hash,
         usageCount: 0,
@@ -141,17 +164,24 @@ export class CodeGeneratorTool {
         failureCount: 0,
       };
 
-      const manifestPath = path.join(
-        __dirname,
-        '../generated-tools/manifests',
-        `${sanitizedToolName}_${hash}.json`
-      );
-
       log(`[CodeGeneratorTool] Writing manifest file: ${manifestPath}`);
       await fs.default.ensureDir(path.dirname(manifestPath));
       await fs.default.writeFile(manifestPath, JSON.stringify(manifest, null, 2), 'utf-8');
       log(`[CodeGeneratorTool] Manifest written successfully`);
 
+      if (!regenerated) {
+        await lineageService.record({
+          entityType: 'tool',
+          parentId: parentTool ?? null,
+          childId: manifestId,
+          mutation: {
+            createdBy: manifest.createdBy,
+            templateUsed: template.name,
+            taskDescription,
+          },
+        });
+      }
+
       log(`[CodeGeneratorTool] Successfully generated tool "${sanitizedToolName}" at ${filePath}`);
 
       const result = {
@@ -182,6 +212,35 @@ export class CodeGeneratorTool {
     }
   }
 
+  /**
+   * Finds the newest existing manifest for a tool name so regenerated tools link to their predecessor.
+   * The tool's own manifest (identical code regenerated) is never its parent.
+   */
+  private async findPreviousVersion(
+    manifestsDir: string,
+    toolName: string,
+    manifestId: string
+  ): Promise<string | undefined> {
+    const fs = await import('fs-extra');
+    if (!(await fs.default.pathExists(manifestsDir))) return undefined;
+
+    let newest: { id: string; createdAt: string } | undefined;
+    for (const file of await fs.default.readdir(manifestsDir)) {
+      if (!file.startsWith(`${toolName}_`) || !file.endsWith('.json')) continue;
+      if (file === `${manifestId}.json`) continue; // The tool itself, when regenerated identically
+      try {
+        const existing = await fs.default.readJson(path.join(manifestsDir, file));
+        if (existing.toolName !== toolName) continue;
+        if (!newest || existing.createdAt > newest.createdAt) {
+          newest = { id: file.replace(/\.json$/, ''), createdAt: existing.createdAt };
+        }
+      } catch {
+        // Ignore unreadable manifests
+      }
+    }
+    return newest?.id;
+  }
+
   private async generateToolCode(
     taskDescription: string,
     toolName: string,
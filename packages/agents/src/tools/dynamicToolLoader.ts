@@ -2,10 +2,13 @@
  * Dynamic Tool Loader - Manages loading and execution of generated tools
  */
 
-import { log, logError } from '@soup/common';
+import { AbortOptions, log, logError, raceAbort, throwIfAborted } from '@soup/common';
 import path from 'path';
 import fs from 'fs-extra';
 import crypto from 'crypto';
+import { recordToolCall } from '../metabolism/meter';
+import { withSpan } from '../tracing/tracer';
+import { measureToolCall } from '../tracing/otel';
 
 interface ToolManifest {
   toolName: string;
@@ -17,6 +20,8 @@ interface ToolManifest {
   filePath: string;
   createdAt: string;
   createdBy: string;
+  parentTool?: string; // Manifest id (toolName_hash) of the previous version
+  inheritedBy?: string[]; // Agents that inherited this tool through swarm crossover
   templateUsed: string;
   hash: string;
   usageCount: number;
@@ -86,8 +91,8 @@ export class DynamicToolLoader {
       // Note: shareMode, recentHours, and timing variables removed for mutation model
       const maxTools = parseInt(process.env.TOOL_LOADER_MAX_TOOLS || '50', 10);
 
-      // MUTATION MODEL: Only load tools created by this specific agent
-      // Tools represent mutations and should not be shared between agents
+      // MUTATION MODEL: Only load tools created by (or inherited by) this specific agent
+      // Tools represent mutations and should not be shared between unrelated agents
       const availableTools: LoadedTool[] = [];
       let ownToolsCount = 0;
 
@@ -95,8 +100,8 @@ export class DynamicToolLoader {
 
       for (const [toolName, manifest] of this.manifestCache) {
         try {
-          // Only load tools created by this agent (no sharing)
-          const isOwnTool = manifest.createdBy === agentId;
+          // Only load tools created by this agent or inherited from a parent (no sharing)
+          const isOwnTool = this.isOwnedBy(manifest, agentId);
 
           let shouldLoad = false;
           if (isOwnTool) {
@@ -144,6 +149,39 @@ export class DynamicToolLoader {
     }
   }
 
+  /**
+   * Grants `toAgentId` every tool owned by `fromAgentId` (swarm crossover inheritance).
+   * Returns the manifest ids inherited.
+   */
+  async inheritTools(fromAgentId: string, toAgentId: string): Promise<string[]> {
+    await this.loadAllManifests();
+
+    const inherited: string[] = [];
+    for (const [manifestKey, manifest] of this.manifestCache) {
+      if (!this.isOwnedBy(manifest, fromAgentId) || this.isOwnedBy(manifest, toAgentId)) continue;
+
+      try {
+        manifest.inheritedBy = [...(manifest.inheritedBy ?? []), toAgentId];
+        await fs.writeFile(
+          path.join(this.MANIFESTS_DIR, `${manifestKey}.json`),
+          JSON.stringify(manifest, null, 2)
+        );
+        inherited.push(manifestKey);
+      } catch (error) {
+        logError(`[DynamicToolLoader] Failed to pass ${manifestKey} to ${toAgentId}:`, error);
+      }
+    }
+
+    log(
+      `[DynamicToolLoader] Agent ${toAgentId} inherited ${inherited.length} tools from ${fromAgentId}`
+    );
+    return inherited;
+  }
+
+  private isOwnedBy(manifest: ToolManifest, agentId: string): boolean {
+    return manifest.createdBy === agentId || (manifest.inheritedBy ?? []).includes(agentId);
+  }
+
   /**
    * Load a specific tool by name
    */
@@ -234,7 +272,8 @@ export class DynamicToolLoader {
   /**
    * Execute a tool and track success/failure with robust timeout protection
    */
-  async executeTool(toolName: string, params: any): Promise<string> {
+  async executeTool(toolName: string, params: any, options: AbortOptions = {}): Promise<string> {
+    throwIfAborted(options.signal);
     const tool = this.toolRegistry.get(toolName);
 
     if (!tool) {
@@ -274,6 +313,7 @@ export class DynamicToolLoader {
     // Increment execution count
     const currentStats = this.toolExecutionCounts.get(toolName)!;
     currentStats.count++;
+    recordToolCall(); // Charged to the running job's metabolism
 
     const startTime = Date.now();
 
@@ -283,8 +323,14 @@ export class DynamicToolLoader {
         `[DynamicToolLoader] 🔧 EXECUTING TOOL: ${toolName} (created by ${manifest.createdBy}, used ${manifest.usageCount} times)`
       );
 
-      // Execute tool directly - sandbox execution handles timeouts internally
-      const result = await tool.invoke(params);
+      // Execute tool directly - sandbox execution handles timeouts internally, the job's
+      // deadline signal stops waiting on it
+      const result = await withSpan(
+        `tool:${toolName}`,
+        'tool',
+        () => measureToolCall(toolName, () => raceAbort(tool.invoke(params), options.signal)),
+        { input: params, attributes: { generated: true } }
+      );
 
       const executionTime = Date.now() - startTime;
       log(`[DynamicToolLoader] Tool ${toolName} executed successfully in ${executionTime}ms`);
@@ -294,6 +340,9 @@ export class DynamicToolLoader {
 
       return result;
     } catch (error) {
+      // A cancelled job is not the tool's failure
+      throwIfAborted(options.signal);
+
       const executionTime = Date.now() - startTime;
       const errorMsg = error instanceof Error ? error.message : 'Unknown error';
 
@@ -0,0 +1,202 @@
+/**
+ * OpenTelemetry instrumentation - OTel spans and metrics for LLM calls, tool executions and swarm
+ * members. This package only uses the OTel API; the runner installs the SDK and exporters
+ * (see docs/opentelemetry.md), so in any other process every helper is a cheap no-op.
+ */
+
+import {
+  Attributes,
+  Counter,
+  Histogram,
+  metrics,
+  Span as OtelSpan,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+} from '@opentelemetry/api';
+
+const SCOPE = '@soup/agents';
+
+interface Instruments {
+  llmDuration: Histogram;
+  llmTokens: Counter;
+  llmErrors: Counter;
+  llmTimeouts: Counter;
+  llmFallbacks: Counter;
+  structuredOutputs: Counter;
+  structuredFailures: Counter;
+  toolDuration: Histogram;
+  toolErrors: Counter;
+  agentRuns: Counter;
+  agentDuration: Histogram;
+}
+
+let instruments: Instruments | undefined;
+
+/**
+ * Instruments are created on first use: the metrics API has no proxy meter, so instruments made
+ * before the runner registers its MeterProvider would stay no-ops for good.
+ */
+function getInstruments(): Instruments {
+  if (instruments) return instruments;
+  const meter = metrics.getMeter(SCOPE);
+  instruments = {
+    llmDuration: meter.createHistogram('soup.llm.duration', {
+      unit: 'ms',
+      description: 'LLM call latency',
+    }),
+    llmTokens: meter.createCounter('soup.llm.tokens', {
+      unit: '{token}',
+      description: 'LLM tokens by direction (input/output)',
+    }),
+    llmErrors: meter.createCounter('soup.llm.errors', { description: 'Failed LLM calls' }),
+    llmTimeouts: meter.createCounter('soup.llm.timeouts', {
+      description: 'LLM calls that timed out (client or gateway)',
+    }),
+    llmFallbacks: meter.createCounter('soup.llm.fallbacks', {
+      description: 'LLM retries and provider fallbacks by reason',
+    }),
+    structuredOutputs: meter.createCounter('soup.llm.structured.calls', {
+      description: 'Structured-output calls by outcome (first_try, repaired, failed)',
+    }),
+    structuredFailures: meter.createCounter('soup.llm.structured.failures', {
+      description: 'Structured-output replies that did not parse or failed schema validation',
+    }),
+    toolDuration: meter.createHistogram('soup.tool.duration', {
+      unit: 'ms',
+      description: 'Generated tool execution latency',
+    }),
+    toolErrors: meter.createCounter('soup.tool.errors', {
+      description: 'Failed generated tool executions',
+    }),
+    agentRuns: meter.createCounter('soup.agent.runs', {
+      description: 'Swarm member runs by archetype and outcome',
+    }),
+    agentDuration: meter.createHistogram('soup.agent.duration', {
+      unit: 'ms',
+      description: 'Swarm member run latency',
+    }),
+  };
+  return instruments;
+}
+
+export function otelTracer() {
+  return trace.getTracer(SCOPE);
+}
+
+export function setOtelAttributes(attributes: Attributes) {
+  trace.getActiveSpan()?.setAttributes(attributes);
+}
+
+function errorType(error: unknown): string {
+  return error instanceof Error ? error.constructor.name : typeof error;
+}
+
+export function failOtelSpan(span: OtelSpan, error: unknown) {
+  span.recordException(error instanceof Error ? error : String(error));
+  span.setStatus({
+    code: SpanStatusCode.ERROR,
+    message: error instanceof Error ? error.message : String(error),
+  });
+}
+
+/**
+ * Runs `fn` in an active OTel span (child of the current one); errors are recorded on the span
+ * and rethrown
+ */
+export function withOtelSpan<T>(
+  name: string,
+  attributes: Attributes,
+  fn: () => Promise<T>,
+  kind: SpanKind = SpanKind.INTERNAL
+): Promise<T> {
+  return otelTracer().startActiveSpan(name, { kind, attributes }, async (span) => {
+    try {
+      return await fn();
+    } catch (error) {
+      failOtelSpan(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Times an LLM call into soup.llm.duration, counting failures in soup.llm.errors
+ */
+export async function measureLLMCall<T>(attributes: Attributes, fn: () => Promise<T>): Promise<T> {
+  const started = Date.now();
+  try {
+    const result = await fn();
+    getInstruments().llmDuration.record(Date.now() - started, attributes);
+    return result;
+  } catch (error) {
+    const failed = { ...attributes, 'error.type': errorType(error) };
+    getInstruments().llmDuration.record(Date.now() - started, failed);
+    getInstruments().llmErrors.add(1, failed);
+    throw error;
+  }
+}
+
+export function recordLLMTokens(attributes: Attributes, inputTokens: number, outputTokens: number) {
+  const { llmTokens } = getInstruments();
+  llmTokens.add(inputTokens, { ...attributes, 'gen_ai.token.type': 'input' });
+  llmTokens.add(outputTokens, { ...attributes, 'gen_ai.token.type': 'output' });
+  trace.getActiveSpan()?.setAttributes({
+    'gen_ai.usage.input_tokens': inputTokens,
+    'gen_ai.usage.output_tokens': outputTokens,
+  });
+}
+
+/**
+ * Counts a timeout and marks it on the current span
+ */
+export function recordLLMTimeout(attributes: Attributes) {
+  getInstruments().llmTimeouts.add(1, attributes);
+  trace.getActiveSpan()?.addEvent('llm.timeout', attributes);
+}
+
+/**
+ * A retry or a move to the next provider in a fallback chain (counter plus span event)
+ */
+export function recordLLMFallback(attributes: Attributes) {
+  getInstruments().llmFallbacks.add(1, attributes);
+  trace.getActiveSpan()?.addEvent('llm.fallback', attributes);
+}
+
+/**
+ * A structured-output reply that was rejected (counter plus span event)
+ */
+export function recordStructuredFailure(attributes: Attributes) {
+  getInstruments().structuredFailures.add(1, attributes);
+  trace.getActiveSpan()?.addEvent('llm.structured_failure', attributes);
+}
+
+export function recordStructuredOutput(attributes: Attributes) {
+  getInstruments().structuredOutputs.add(1, attributes);
+}
+
+/**
+ * Times a generated tool execution into soup.tool.duration, counting failures in soup.tool.errors
+ */
+export async function measureToolCall<T>(tool: string, fn: () => Promise<T>): Promise<T> {
+  const attributes = { 'soup.tool': tool };
+  const started = Date.now();
+  try {
+    const result = await fn();
+    getInstruments().toolDuration.record(Date.now() - started, attributes);
+    return result;
+  } catch (error) {
+    const failed = { ...attributes, 'error.type': errorType(error) };
+    getInstruments().toolDuration.record(Date.now() - started, failed);
+    getInstruments().toolErrors.add(1, failed);
+    throw error;
+  }
+}
+
+export function recordAgentRun(archetype: string, ok: boolean, durationMs: number) {
+  const attributes = { 'soup.archetype': archetype, 'soup.ok': ok };
+  getInstruments().agentRuns.add(1, attributes);
+  getInstruments().agentDuration.record(durationMs, attributes);
+}
@@ -0,0 +1,194 @@
+/**
+ * Job Tracer - Per-job span tree of what a swarm did: member selection, each member's handle,
+ * LLM calls (ReAct steps included), tool calls, tool building, synthesis and grading.
+ *
+ * Like the metabolism meter, the current span travels through AsyncLocalStorage, so spans deep
+ * in the agent stack need no job handle. Outside a traced job every helper just runs the work.
+ * Every span is mirrored to OpenTelemetry as well (a no-op unless the runner exports telemetry).
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { context, Span as OtelSpan, SpanStatusCode, trace } from '@opentelemetry/api';
+import { failOtelSpan, otelTracer, withOtelSpan } from './otel';
+
+export type SpanKind = 'job' | 'swarm' | 'agent' | 'llm' | 'tool' | 'step' | 'grading';
+
+export interface Span {
+  name: string;
+  kind: SpanKind;
+  startedAt: string;
+  durationMs: number | null; // null while the span is open
+  status: 'ok' | 'error';
+  error?: string;
+  input?: string; // Truncated
+  output?: string; // Truncated
+  attributes: Record<string, string | number | boolean>;
+  tokens: { input: number; output: number }; // This span's own LLM tokens
+  children: Span[];
+}
+
+export interface SpanOptions {
+  input?: unknown;
+  attributes?: Span['attributes'];
+}
+
+// Longest input/output kept on a span
+export const SPAN_TEXT_LIMIT = 2000;
+
+const storage = new AsyncLocalStorage<Span>();
+
+function createSpan(name: string, kind: SpanKind, options: SpanOptions = {}): Span {
+  return {
+    name,
+    kind,
+    startedAt: new Date().toISOString(),
+    durationMs: null,
+    status: 'ok',
+    input: options.input === undefined ? undefined : truncate(options.input),
+    attributes: { ...options.attributes },
+    tokens: { input: 0, output: 0 },
+    children: [],
+  };
+}
+
+function closeSpan(span: Span, started: number, error?: unknown) {
+  span.durationMs = Date.now() - started;
+  if (error !== undefined) {
+    span.status = 'error';
+    span.error = error instanceof Error ? error.message : String(error);
+  }
+}
+
+export class JobTracer {
+  readonly root: Span;
+  private started = Date.now();
+  private otelSpan: OtelSpan; // The job's OTel root; spans opened in run() are its children
+
+  constructor(jobId: string, attributes: Span['attributes'] = {}) {
+    this.root = createSpan('job', 'job', { attributes: { jobId, ...attributes } });
+    this.otelSpan = otelTracer().startSpan('job', { attributes: this.root.attributes });
+  }
+
+  /**
+   * Runs `fn` with the job span as the current span. May be called several times (e.g. for
+   * execution and then grading); all spans land in the same tree.
+   */
+  run<T>(fn: () => Promise<T>): Promise<T> {
+    return context.with(trace.setSpan(context.active(), this.otelSpan), () =>
+      storage.run(this.root, fn)
+    );
+  }
+
+  /**
+   * Closes the job span. Totals cover the whole tree.
+   */
+  finish(error?: unknown): Span {
+    closeSpan(this.root, this.started, error);
+    const tokens = subtreeTokens(this.root);
+    this.root.attributes.inputTokens = tokens.input;
+    this.root.attributes.outputTokens = tokens.output;
+    this.root.attributes.spans = countSpans(this.root);
+
+    this.otelSpan.setAttributes(this.root.attributes);
+    if (error !== undefined) failOtelSpan(this.otelSpan, error);
+    this.otelSpan.end();
+    return this.root;
+  }
+}
+
+/**
+ * Runs `fn` in a child span of the current span; the span records timing, the truncated result
+ * and any error (which is rethrown). The matching OTel span is opened even outside a traced job.
+ */
+export function withSpan<T>(
+  name: string,
+  kind: SpanKind,
+  fn: () => Promise<T>,
+  options: SpanOptions = {}
+): Promise<T> {
+  return withOtelSpan(name, { 'soup.span.kind': kind, ...options.attributes }, () =>
+    withJobSpan(name, kind, fn, options)
+  );
+}
+
+async function withJobSpan<T>(
+  name: string,
+  kind: SpanKind,
+  fn: () => Promise<T>,
+  options: SpanOptions
+): Promise<T> {
+  const parent = storage.getStore();
+  if (!parent) return fn();
+
+  const span = createSpan(name, kind, options);
+  parent.children.push(span);
+  const started = Date.now();
+  try {
+    const result = await storage.run(span, fn);
+    if (span.output === undefined && result !== undefined) span.output = truncate(result);
+    closeSpan(span, started);
+    return result;
+  } catch (error) {
+    closeSpan(span, started, error);
+    throw error;
+  }
+}
+
+export function setSpanAttributes(attributes: Span['attributes']) {
+  trace.getActiveSpan()?.setAttributes(attributes);
+  const span = storage.getStore();
+  if (span) Object.assign(span.attributes, attributes);
+}
+
+/**
+ * Marks the current span failed without throwing (e.g. an agent that returned ok: false)
+ */
+export function failSpan(error: string) {
+  trace.getActiveSpan()?.setStatus({ code: SpanStatusCode.ERROR, message: error });
+  const span = storage.getStore();
+  if (!span) return;
+  span.status = 'error';
+  span.error = error;
+}
+
+export function setSpanOutput(output: unknown) {
+  const span = storage.getStore();
+  if (span) span.output = truncate(output);
+}
+
+export function recordSpanTokens(inputTokens: number, outputTokens: number) {
+  const span = storage.getStore();
+  if (!span) return;
+  span.tokens.input += inputTokens;
+  span.tokens.output += outputTokens;
+}
+
+export function subtreeTokens(span: Span): { input: number; output: number } {
+  return span.children.reduce(
+    (sum, child) => {
+      const tokens = subtreeTokens(child);
+      return { input: sum.input + tokens.input, output: sum.output + tokens.output };
+    },
+    { ...span.tokens }
+  );
+}
+
+function countSpans(span: Span): number {
+  return 1 + span.children.reduce((sum, child) => sum + countSpans(child), 0);
+}
+
+export function truncate(value: unknown, limit = SPAN_TEXT_LIMIT): string {
+  let text: string;
+  if (typeof value === 'string') {
+    text = value;
+  } else {
+    try {
+      text = JSON.stringify(value) ?? String(value);
+    } catch {
+      text = String(value);
+    }
+  }
+  return text.length > limit
+    ? `${text.slice(0, limit)}… [${text.length - limit} more chars]`
+    : text;
+}
@@ -17,6 +17,7 @@ export interface BuilderContext {
   availableTools: AvailableToolSummary[];
   strictMode: boolean;
   registrySuccessRate: number;
+  signal?: AbortSignal; // Job deadline; aborts the planning call
 }
 
 export interface RunnerInput {
@@ -24,6 +25,7 @@ export interface RunnerInput {
   args: Record<string, unknown>;
   jobPrompt: string;
   builderRationale: string;
+  signal?: AbortSignal; // Job deadline; aborts tool execution and the answer summary
 }
 
 export interface RunnerResult {
@@ -0,0 +1,73 @@
+/**
+ * Job categories: the mix the job generator samples categories from and the payout range of
+ * each category. `math` is the computational half of the default mix; the other categories
+ * share the general half.
+ */
+
+import { JobCategory } from './types';
+
+export const JOB_CATEGORIES: JobCategory[] = ['web_research', 'summarize', 'classify', 'math'];
+
+export type CategoryMix = Record<JobCategory, number>; // Sampling weights, summing to 1
+export type PayoutRange = [number, number]; // Inclusive [min, max]
+
+export const DEFAULT_CATEGORY_MIX: CategoryMix = {
+  web_research: 0.2,
+  summarize: 0.15,
+  classify: 0.15,
+  math: 0.5,
+};
+
+export const DEFAULT_CATEGORY_PAYOUTS: Record<JobCategory, PayoutRange> = {
+  web_research: [4, 10],
+  summarize: [2, 6],
+  classify: [1, 4],
+  math: [2, 8],
+};
+
+export function isJobCategory(value: unknown): value is JobCategory {
+  return typeof value === 'string' && (JOB_CATEGORIES as string[]).includes(value);
+}
+
+/**
+ * Turns partial weights into a full mix: unknown categories are ignored, missing or negative
+ * weights count as zero, and the result is scaled to sum to 1. An empty mix is the default.
+ */
+export function normalizeCategoryMix(raw: Partial<Record<string, number>>): CategoryMix {
+  const weights = JOB_CATEGORIES.map((c) => Math.max(0, Number(raw[c]) || 0));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (total <= 0) return { ...DEFAULT_CATEGORY_MIX };
+
+  return Object.fromEntries(JOB_CATEGORIES.map((c, i) => [c, weights[i] / total])) as CategoryMix;
+}
+
+/**
+ * Overrides default payout ranges; malformed ranges are ignored and bounds are reordered
+ */
+export function resolveCategoryPayouts(
+  raw: Partial<Record<string, unknown>>
+): Record<JobCategory, PayoutRange> {
+  const payouts = { ...DEFAULT_CATEGORY_PAYOUTS };
+  for (const category of JOB_CATEGORIES) {
+    const range = raw[category];
+    if (!Array.isArray(range) || range.length !== 2) continue;
+    const [a, b] = range.map(Number);
+    if (!Number.isFinite(a) || !Number.isFinite(b)) continue;
+    payouts[category] = [Math.max(1, Math.min(a, b)), Math.max(1, a, b)];
+  }
+  return payouts;
+}
+
+export function pickCategory(mix: CategoryMix, random: () => number = Math.random): JobCategory {
+  let r = random();
+  for (const category of JOB_CATEGORIES) {
+    r -= mix[category];
+    if (r < 0) return category;
+  }
+  return JOB_CATEGORIES.filter((c) => mix[c] > 0).pop() ?? 'math';
+}
+
+export function clampPayout(payout: number, [min, max]: PayoutRange): number {
+  const value = Number.isFinite(payout) ? Math.round(payout) : min;
+  return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,194 @@
+/**
+ * Circuit breakers for LLM providers: after repeated failures (or logged timeouts) a provider is
+ * skipped for a cooldown, then a single probe call decides whether it closes again.
+ * Pure bookkeeping: the clock is passed in.
+ */
+
+// closed: calls flow; open: calls are refused until the cooldown ends; half_open: one probe
+export type BreakerState = 'closed' | 'open' | 'half_open';
+
+export interface BreakerOptions {
+  failureThreshold: number; // Consecutive failed calls that open the breaker
+  timeoutThreshold: number; // Consecutive logged timeouts that open it (0 = failures only)
+  cooldownMs: number; // Time open before a probe is let through
+}
+
+export interface BreakerSnapshot {
+  key: string;
+  state: BreakerState;
+  consecutiveFailures: number;
+  consecutiveTimeouts: number;
+  openedAt?: string;
+  retryInSec?: number; // Open breakers: time until the next probe
+  lastError?: string;
+  totals: {
+    successes: number;
+    failures: number;
+    timeouts: number;
+    rejections: number;
+    opens: number;
+  };
+}
+
+export class CircuitOpenError extends Error {
+  constructor(
+    public readonly keys: string[],
+    public readonly retryInSec: number
+  ) {
+    super(
+      `All LLM providers unavailable (circuit open: ${keys.join(', ')}), next probe in ${Math.ceil(retryInSec)}s`
+    );
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export const DEFAULT_BREAKER_OPTIONS: BreakerOptions = {
+  failureThreshold: 5,
+  timeoutThreshold: 2,
+  cooldownMs: 30_000,
+};
+
+export class CircuitBreaker {
+  private state: BreakerState = 'closed';
+  private failures = 0;
+  private timeouts = 0;
+  private openedAt = 0;
+  private probing = false;
+  private lastError?: string;
+  private totals = { successes: 0, failures: 0, timeouts: 0, rejections: 0, opens: 0 };
+
+  constructor(
+    readonly key: string,
+    private options: () => BreakerOptions
+  ) {}
+
+  /**
+   * Whether a call may go ahead. An open breaker turns half-open once its cooldown has passed and
+   * then admits exactly one probe until that probe's outcome is recorded.
+   */
+  tryAcquire(now = Date.now()): boolean {
+    if (this.state === 'open' && now - this.openedAt >= this.options().cooldownMs) {
+      this.state = 'half_open';
+      this.probing = false;
+    }
+    if (this.state === 'closed') return true;
+    if (this.state === 'half_open' && !this.probing) {
+      this.probing = true;
+      return true;
+    }
+    this.totals.rejections++;
+    return false;
+  }
+
+  /**
+   * Whether tryAcquire would currently let a call through (does not claim the probe)
+   */
+  isAvailable(now = Date.now()): boolean {
+    if (this.state === 'closed') return true;
+    if (this.state === 'half_open') return !this.probing;
+    return now - this.openedAt >= this.options().cooldownMs;
+  }
+
+  recordSuccess(): void {
+    this.totals.successes++;
+    this.state = 'closed';
+    this.failures = 0;
+    this.timeouts = 0;
+    this.probing = false;
+  }
+
+  /**
+   * An admitted call that ended without an outcome (aborted by its caller): frees the probe slot
+   * without counting for or against the provider
+   */
+  release(): void {
+    this.probing = false;
+  }
+
+  recordFailure(error: string, now = Date.now()): void {
+    this.totals.failures++;
+    this.failures++;
+    this.lastError = error;
+    if (this.state === 'half_open' || this.failures >= this.options().failureThreshold) {
+      this.open(now);
+    }
+  }
+
+  /**
+   * A timeout reported by the provider's timeout logging; these open the breaker sooner than
+   * ordinary failures because each one has already cost a full request timeout
+   */
+  recordTimeout(detail: string, now = Date.now()): void {
+    const { timeoutThreshold } = this.options();
+    this.totals.timeouts++;
+    this.timeouts++;
+    this.lastError = detail;
+    if (this.state === 'closed' && timeoutThreshold > 0 && this.timeouts >= timeoutThreshold) {
+      this.open(now);
+    }
+  }
+
+  /**
+   * Seconds until an open breaker admits a probe (0 when not open)
+   */
+  retryInSec(now = Date.now()): number {
+    if (this.state !== 'open') return 0;
+    return Math.max(0, (this.openedAt + this.options().cooldownMs - now) / 1000);
+  }
+
+  getState(now = Date.now()): BreakerState {
+    return this.state === 'open' && this.retryInSec(now) === 0 ? 'half_open' : this.state;
+  }
+
+  snapshot(now = Date.now()): BreakerSnapshot {
+    const state = this.getState(now);
+    return {
+      key: this.key,
+      state,
+      consecutiveFailures: this.failures,
+      consecutiveTimeouts: this.timeouts,
+      openedAt: state === 'closed' ? undefined : new Date(this.openedAt).toISOString(),
+      retryInSec: state === 'open' ? Math.ceil(this.retryInSec(now)) : undefined,
+      lastError: this.lastError,
+      totals: { ...this.totals },
+    };
+  }
+
+  private open(now: number) {
+    this.state = 'open';
+    this.openedAt = now;
+    this.probing = false;
+    this.totals.opens++;
+  }
+}
+
+/**
+ * One breaker per key (e.g. "vertex:gemini-1.5-flash"), shared by every caller of that provider
+ */
+export class CircuitBreakerRegistry {
+  private options: BreakerOptions = { ...DEFAULT_BREAKER_OPTIONS };
+  private breakers = new Map<string, CircuitBreaker>();
+
+  configure(options: Partial<BreakerOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  getOptions(): BreakerOptions {
+    return { ...this.options };
+  }
+
+  get(key: string): CircuitBreaker {
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker(key, () => this.options);
+      this.breakers.set(key, breaker);
+    }
+    return breaker;
+  }
+
+  snapshot(now = Date.now()): BreakerSnapshot[] {
+    return [...this.breakers.values()]
+      .map((breaker) => breaker.snapshot(now))
+      .sort((a, b) => a.key.localeCompare(b.key));
+  }
+}
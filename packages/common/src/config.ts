@@ -1,6 +1,10 @@
 import { config as dotenvConfig } from 'dotenv';
 import { z } from 'zod';
 import path from 'path';
+import type { SelectionParams } from './selection';
+import { normalizeCategoryMix, resolveCategoryPayouts } from './categories';
+import { parseShockSchedule } from './curriculum';
+import { resolveRubrics } from './rubric';
 
 // Load environment variables once (idempotent)
 // Look for .env file in the project root, even when running from subdirectories
@@ -12,10 +16,26 @@ const commonSchema = z.object({
   NODE_ENV: z.string().optional().default('development'),
 
   // Multi-Provider LLM Configuration
-  LLM_PROVIDER: z.enum(['vertex', 'ollama', 'auto', '']).optional().default('vertex'),
+  LLM_PROVIDER: z
+    .enum(['vertex', 'ollama', 'openai', 'mock', 'auto', ''])
+    .optional()
+    .default('vertex'),
   OLLAMA_URL: z.string().url().optional().default('http://localhost:11434'),
   DEFAULT_MODEL: z.string().optional().default('gemini-1.5-flash'),
 
+  // OpenAI-compatible provider (llama.cpp, vLLM, LM Studio or OpenAI); key in OPENAI_API_KEY
+  OPENAI_BASE_URL: z.string().url().optional().default('http://localhost:8080/v1'),
+  OPENAI_MODEL: z.string().optional().default('default'),
+
+  // Mock provider (fully offline, deterministic)
+  LLM_MOCK_FIXTURES: z.string().optional().default(''),
+  LLM_MOCK_SEED: z.coerce.number().optional().default(42),
+  LLM_MOCK_MODEL: z.string().optional().default('mock'),
+
+  // LLM cassette (record every response, or replay a recorded run)
+  LLM_CASSETTE: z.enum(['off', 'record', 'replay', '']).optional().default(''),
+  LLM_CASSETTE_FILE: z.string().optional().default(''),
+
   // Component-specific LLM configurations (format: "provider:model:temperature:maxTokens")
   LLM_CONFIG_NAME_GENERATOR: z.string().optional(),
   LLM_CONFIG_JOB_GENERATOR: z.string().optional(),
@@ -25,14 +45,32 @@ const commonSchema = z.object({
   LLM_CONFIG_SWARM_SYNTHESIZER: z.string().optional(),
   LLM_CONFIG_TOOL_BUILDER: z.string().optional(),
 
+  // Provider fallback chains (see circuitBreaker.ts): LLM_FALLBACK_<COMPONENT> is a comma-separated
+  // list of component configs tried in order after LLM_CONFIG_<COMPONENT>
+  LLM_FALLBACK_NAME_GENERATOR: z.string().optional(),
+  LLM_FALLBACK_JOB_GENERATOR: z.string().optional(),
+  LLM_FALLBACK_RESULT_GRADER: z.string().optional(),
+  LLM_FALLBACK_AGENT: z.string().optional(),
+  LLM_FALLBACK_CODE_GENERATOR: z.string().optional(),
+  LLM_FALLBACK_SWARM_SYNTHESIZER: z.string().optional(),
+  LLM_FALLBACK_TOOL_BUILDER: z.string().optional(),
+  LLM_RETRY_ATTEMPTS: z.coerce.number().optional().default(2), // Retries per provider
+  LLM_RETRY_BASE_MS: z.coerce.number().optional().default(500), // Backoff doubles per retry
+  LLM_RETRY_MAX_MS: z.coerce.number().optional().default(8000),
+  LLM_BREAKER_FAILURES: z.coerce.number().optional().default(5),
+  LLM_BREAKER_TIMEOUTS: z.coerce.number().optional().default(2), // Logged timeouts, 0 = off
+  LLM_BREAKER_COOLDOWN_S: z.coerce.number().optional().default(30),
+
   // Legacy Configuration (maintained for backward compatibility)
   OPENAI_API_KEY: z.string().optional().default(''),
   GOOGLE_CLOUD_PROJECT: z.string().optional().default(''),
   GOOGLE_CLOUD_LOCATION: z.string().optional().default('us-central1'),
   GOOGLE_APPLICATION_CREDENTIALS: z.string().optional().default(''),
   GOOGLE_CLOUD_CREDENTIALS: z.string().optional().default(''),
-  LLM_MAX_TOKENS_PER_HOUR: z.coerce.number().optional().default(100000),
-  LLM_MAX_TOKENS_PER_AGENT: z.coerce.number().optional().default(1000),
+
+  // Token budgets (see tokenBudget.ts): rolling hour, 0 = unlimited; per agent = per swarm
+  LLM_MAX_TOKENS_PER_HOUR: z.coerce.number().optional().default(100000), // Hosted providers
+  LLM_MAX_TOKENS_PER_AGENT: z.coerce.number().optional().default(20000),
 
   // Vertex AI Model Configuration (backward compatibility)
   VERTEX_AI_MODEL: z.string().optional().default('gemini-1.5-flash'),
@@ -72,8 +110,8 @@ const commonSchema = z.object({
   LOCAL_LLM_ENABLED: z.string().optional().default('0'),
   LOCAL_MODEL_PATH: z.string().optional().default('granite3.1-dense:8b'),
   LOCAL_LLM_ENDPOINT: z.string().optional().default('http://localhost:11434/api/generate'),
-  LOCAL_LLM_MAX_TOKENS_PER_HOUR: z.coerce.number().optional().default(200000),
-  LOCAL_LLM_MAX_TOKENS_PER_AGENT: z.coerce.number().optional().default(2000),
+  LOCAL_LLM_MAX_TOKENS_PER_HOUR: z.coerce.number().optional().default(200000), // Ollama
+  LOCAL_LLM_MAX_TOKENS_PER_AGENT: z.coerce.number().optional().default(40000),
 });
 
 const runnerSchema = z.object({
@@ -83,7 +121,121 @@ const runnerSchema = z.object({
   JOBS_PER_MIN: z.coerce.number().optional().default(10),
   EPOCH_MINUTES: z.coerce.number().optional().default(120),
   FAIL_PENALTY: z.coerce.number().optional().default(3),
-  BROWSER_STEP_COST: z.coerce.number().optional().default(1),
+  BROWSER_STEP_COST: z.coerce.number().optional().default(1), // Metabolism cost per web/browser call
+  METABOLISM_LLM_COST_PER_1K_TOKENS: z.coerce.number().optional().default(0.2),
+  METABOLISM_TOOL_COST: z.coerce.number().optional().default(1), // Per generated tool execution
+
+  // Job categories (see categories.ts): JSON weights and [min, max] payouts per category
+  JOB_CATEGORY_MIX: z
+    .string()
+    .optional()
+    .default('{}')
+    .transform((val, ctx) => {
+      try {
+        return normalizeCategoryMix(JSON.parse(val || '{}'));
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'JOB_CATEGORY_MIX must be JSON' });
+        return z.NEVER;
+      }
+    }),
+  JOB_CATEGORY_PAYOUTS: z
+    .string()
+    .optional()
+    .default('{}')
+    .transform((val, ctx) => {
+      try {
+        return resolveCategoryPayouts(JSON.parse(val || '{}'));
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'JOB_CATEGORY_PAYOUTS must be JSON' });
+        return z.NEVER;
+      }
+    }),
+
+  // Job curriculum (see curriculum.ts): difficulty 1-5 steered into a pass-rate band
+  CURRICULUM_ENABLED: z
+    .union([z.literal('1'), z.literal('0'), z.literal('true'), z.literal('false')])
+    .optional()
+    .default('1')
+    .transform((v) => v === '1' || v === 'true'),
+  CURRICULUM_TARGET_LOW: z.coerce.number().optional().default(0.5),
+  CURRICULUM_TARGET_HIGH: z.coerce.number().optional().default(0.8),
+  CURRICULUM_QUALITY_FLOOR: z.coerce.number().optional().default(60), // Mean quality to raise
+  CURRICULUM_WINDOW: z.coerce.number().optional().default(50), // Latest graded jobs considered
+  CURRICULUM_MIN_SAMPLES: z.coerce.number().optional().default(20), // Per difficulty change
+  CURRICULUM_START_DIFFICULTY: z.coerce.number().optional().default(3),
+  CURRICULUM_SHOCKS: z
+    .string()
+    .optional()
+    .default('[]')
+    .transform((val, ctx) => {
+      try {
+        return parseShockSchedule(JSON.parse(val || '[]'));
+      } catch (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `CURRICULUM_SHOCKS must be a JSON array of shocks: ${(error as Error).message}`,
+        });
+        return z.NEVER;
+      }
+    }),
+
+  // Job deduplication (see similarity.ts): near-duplicate prompts are rejected or re-rolled
+  JOB_DEDUP_THRESHOLD: z.coerce.number().optional().default(0.92), // Embedding cosine similarity
+  JOB_DEDUP_LEXICAL_THRESHOLD: z.coerce.number().optional().default(0.6), // Without embeddings
+  JOB_DEDUP_WINDOW: z.coerce.number().optional().default(200), // Recent prompts compared against
+  JOB_DEDUP_MAX_REROLLS: z.coerce.number().optional().default(2),
+
+  // Ground-truth job suites (see packages/agents/src/suites): JSON/YAML tasks with checkers
+  JOB_SUITES_DIR: z.string().optional().default(''), // Defaults to suites/ at the repo root
+  JOB_SUITE_FRACTION: z.coerce.number().optional().default(0.3), // Share of jobs drawn from suites
+  SUITE_GRADING: z.enum(['checker', 'both']).optional().default('checker'), // 'both' adds the LLM grader
+
+  // Grading panel (see grading.ts): judges from LLM_CONFIG_RESULT_GRADER_<NAME> entries
+  GRADING_PANEL_AGGREGATION: z.enum(['median', 'trimmed_mean']).optional().default('median'),
+  GRADING_PANEL_TRIM: z.coerce.number().optional().default(0.2), // Trimmed from each end
+  GRADING_PANEL_DISAGREEMENT: z.coerce.number().optional().default(30), // Spread that flags a grade
+  GRADING_RUBRICS: z
+    .string()
+    .optional()
+    .default('{}')
+    .transform((val, ctx) => {
+      try {
+        return resolveRubrics(JSON.parse(val || '{}'));
+      } catch (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `GRADING_RUBRICS must be JSON criterion weights per category: ${(error as Error).message}`,
+        });
+        return z.NEVER;
+      }
+    }),
+  GRADER_CALIBRATION_FILE: z.string().optional().default(''), // Defaults to suites/calibration/
+  GRADER_CALIBRATION_MINUTES: z.coerce.number().optional().default(60), // 0 disables calibration
+  GRADER_DRIFT_THRESHOLD: z.coerce.number().optional().default(15), // Bias shift (points) = drift
+
+  // OpenTelemetry export (see docs/opentelemetry.md); OTLP honours OTEL_EXPORTER_OTLP_ENDPOINT
+  TELEMETRY_EXPORTER: z.enum(['none', 'otlp', 'file', 'both']).optional().default('none'),
+  TELEMETRY_SERVICE_NAME: z.string().optional().default('soup-runner'),
+  TELEMETRY_METRICS_INTERVAL_S: z.coerce.number().optional().default(15), // Metric export period
+
+  // Job assignment: shared queue (first worker wins) or per-job auction (see market.ts)
+  JOB_ASSIGNMENT: z.enum(['queue', 'auction']).optional().default('auction'),
+  AUCTION_CLEARING_RULE: z
+    .enum(['lowest_price', 'reputation_weighted', 'vickrey'])
+    .optional()
+    .default('reputation_weighted'),
+
+  // Reputation engine (see reputation.ts)
+  REPUTATION_ALPHA: z.coerce.number().optional().default(0.2), // EMA weight of each graded job
+  REPUTATION_HALF_LIFE_HOURS: z.coerce.number().optional().default(24), // Idle decay toward 0.5
+  REPUTATION_STREAK_PENALTY: z.coerce.number().optional().default(0.02), // Per consecutive failure
+  REPUTATION_PAYOUT_WEIGHT: z.coerce.number().optional().default(0.5), // Payout x(1 ± weight)
+  REPUTATION_FITNESS_WEIGHT: z.coerce.number().optional().default(400), // Cull fitness bonus at rep 1
+
+  // Job deadlines (see deadline.ts)
+  JOB_DEADLINE_GRACE_FRACTION: z.coerce.number().optional().default(0.5), // Hard cancel at deadline x(1 + grace)
+  JOB_LATE_PAYOUT_DECAY: z.enum(['none', 'linear', 'exponential']).optional().default('linear'),
+  JOB_LATE_PAYOUT_FLOOR: z.coerce.number().optional().default(0), // Payout multiplier at the hard cancel
   SOUP_BOOTSTRAP: z
     .union([z.literal('1'), z.literal('0')])
     .optional()
@@ -93,6 +245,51 @@ const runnerSchema = z.object({
   // Swarm configuration
   SWARM_COUNT: z.coerce.number().optional().default(5), // Number of swarms to create
   AGENTS_PER_SWARM: z.coerce.number().optional().default(3), // Number of agents per swarm
+
+  // Swarm evolution (applied every epoch)
+  SWARM_REPRO_MIN_BALANCE: z.coerce.number().optional().default(1200), // Balance needed to reproduce
+  SWARM_REPRO_COST: z.coerce.number().optional().default(500), // Transferred from parent to child
+  SWARM_MUTATION_RATE: z.coerce.number().optional().default(0.2), // Default genome mutationRate gene
+  EVOLUTION_SEED: z.coerce.number().optional(), // Seeds mutation, crossover and job picks (cassette runs: 42)
+  GENOME_MODELS: z
+    .string()
+    .optional()
+    .default('')
+    .transform((val) =>
+      val
+        .split(',')
+        .map((m) => m.trim())
+        .filter(Boolean)
+    ), // Models the genome "model" gene may select (empty = component default only)
+  SWARM_MAX_OFFSPRING: z.coerce.number().optional().default(1), // Children per parent per epoch
+  SWARM_REPRO_MODE: z.enum(['asexual', 'sexual']).optional().default('asexual'), // sexual = paired crossover
+  SWARM_CROSSOVER_COST: z.coerce.number().optional().default(300), // Charged to each parent in sexual mode
+  SWARM_CROSSOVER_TOOLS: z
+    .union([z.literal('1'), z.literal('0'), z.literal('true'), z.literal('false')])
+    .optional()
+    .default('0')
+    .transform((v) => v === '1' || v === 'true'), // Children's tool builders inherit their parent agent's tools
+  SWARM_CULL_FRACTION: z.coerce.number().optional().default(0.2), // Poorest fraction culled per epoch
+  SWARM_MIN_ALIVE: z.coerce.number().optional().default(2), // Culling never goes below this
+  SWARM_MAX_ALIVE: z.coerce.number().optional().default(20), // Reproduction stops at this size
+
+  // Epoch cull selection strategy (see selection.ts) and its JSON parameters
+  SELECTION_STRATEGY: z
+    .enum(['truncation', 'tournament', 'roulette', 'elitism', 'age'])
+    .optional()
+    .default('truncation'),
+  SELECTION_PARAMS: z
+    .string()
+    .optional()
+    .default('{}')
+    .transform((val, ctx) => {
+      try {
+        return JSON.parse(val || '{}') as SelectionParams;
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'SELECTION_PARAMS must be JSON' });
+        return z.NEVER;
+      }
+    }),
   MCP_KNOWLEDGE_SERVER: z.string().optional().default(''),
   MCP_BEARER_TOKEN: z.string().optional().default(''),
 
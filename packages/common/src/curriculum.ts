@@ -0,0 +1,150 @@
+/**
+ * Job curriculum: moves job difficulty up or down to hold the population's rolling pass rate
+ * inside a target band, and applies scheduled shocks that reshape the job distribution
+ * mid-run (category mix, difficulty, payouts).
+ */
+
+import { CategoryMix, JOB_CATEGORIES, normalizeCategoryMix } from './categories';
+
+export const MIN_DIFFICULTY = 1;
+export const MAX_DIFFICULTY = 5;
+
+export interface CurriculumParams {
+  targetLow: number; // Lower edge of the pass-rate band (0-1)
+  targetHigh: number; // Upper edge of the pass-rate band (0-1)
+  qualityFloor: number; // Mean quality (0-100) required before difficulty rises
+  minSamples: number; // Graded outcomes needed at the current difficulty before it moves
+}
+
+export interface CurriculumStats {
+  samples: number;
+  passRate: number; // 0-1
+  meanQuality: number | null; // 0-100 over graded passes
+}
+
+export type CurriculumDecision = 'raise' | 'lower' | 'hold' | 'warmup';
+
+export interface CurriculumShock {
+  atHours: number; // Hours after run start
+  durationHours?: number; // Active forever when omitted
+  name?: string;
+  mix?: Partial<Record<string, number>>; // Shares for the named categories; the rest scale to fit
+  difficultyDelta?: number;
+  payoutMultiplier?: number;
+}
+
+export interface ShockEffect {
+  mix: CategoryMix;
+  difficultyDelta: number;
+  payoutMultiplier: number;
+  active: CurriculumShock[];
+}
+
+const clamp = (x: number, min: number, max: number) => Math.min(max, Math.max(min, x));
+
+export function clampDifficulty(difficulty: number): number {
+  return clamp(Math.round(difficulty), MIN_DIFFICULTY, MAX_DIFFICULTY);
+}
+
+/**
+ * Pass rate and mean quality over a window of graded outcomes
+ */
+export function curriculumStats(
+  outcomes: { passed: boolean; qualityScore?: number | null }[]
+): CurriculumStats {
+  const passes = outcomes.filter((o) => o.passed);
+  const graded = passes.filter((o) => typeof o.qualityScore === 'number');
+  return {
+    samples: outcomes.length,
+    passRate: outcomes.length ? passes.length / outcomes.length : 0,
+    meanQuality: graded.length
+      ? graded.reduce((sum, o) => sum + (o.qualityScore as number), 0) / graded.length
+      : null,
+  };
+}
+
+/**
+ * One curriculum step: harder jobs when the population passes too easily (and with enough
+ * quality), easier jobs when it fails too often.
+ */
+export function nextDifficulty(
+  difficulty: number,
+  stats: CurriculumStats,
+  params: CurriculumParams
+): { difficulty: number; decision: CurriculumDecision } {
+  if (stats.samples < params.minSamples) return { difficulty, decision: 'warmup' };
+
+  if (stats.passRate > params.targetHigh && difficulty < MAX_DIFFICULTY) {
+    if (stats.meanQuality !== null && stats.meanQuality < params.qualityFloor) {
+      return { difficulty, decision: 'hold' };
+    }
+    return { difficulty: difficulty + 1, decision: 'raise' };
+  }
+  if (stats.passRate < params.targetLow && difficulty > MIN_DIFFICULTY) {
+    return { difficulty: difficulty - 1, decision: 'lower' };
+  }
+  return { difficulty, decision: 'hold' };
+}
+
+/**
+ * Validates a shock schedule (JSON array) and sorts it by start time
+ */
+export function parseShockSchedule(raw: unknown): CurriculumShock[] {
+  if (!Array.isArray(raw)) throw new Error('Shock schedule must be an array');
+  return raw
+    .map((entry, index) => {
+      if (!entry || typeof entry !== 'object' || typeof entry.atHours !== 'number') {
+        throw new Error(`Shock #${index} needs a numeric "atHours"`);
+      }
+      return { name: `shock@${entry.atHours}h`, ...entry } as CurriculumShock;
+    })
+    .sort((a, b) => a.atHours - b.atHours);
+}
+
+export function activeShocks(schedule: CurriculumShock[], elapsedMs: number): CurriculumShock[] {
+  const hours = elapsedMs / 3_600_000;
+  return schedule.filter(
+    (s) =>
+      hours >= s.atHours && (s.durationHours === undefined || hours < s.atHours + s.durationHours)
+  );
+}
+
+/**
+ * Gives the named categories exactly their share; the others keep their relative weights and
+ * split what is left
+ */
+function overrideMix(mix: CategoryMix, shares: Partial<Record<string, number>>): CategoryMix {
+  const named = JOB_CATEGORIES.filter((c) => typeof shares[c] === 'number');
+  const namedTotal = named.reduce((sum, c) => sum + Math.max(0, shares[c] as number), 0);
+  const others = JOB_CATEGORIES.filter((c) => !named.includes(c));
+  const othersTotal = others.reduce((sum, c) => sum + mix[c], 0);
+  const rest = Math.max(0, 1 - namedTotal);
+
+  const weights: Record<string, number> = {};
+  for (const c of named) weights[c] = Math.max(0, shares[c] as number);
+  for (const c of others) weights[c] = othersTotal > 0 ? (mix[c] / othersTotal) * rest : 0;
+  return normalizeCategoryMix(weights);
+}
+
+/**
+ * Layers the active shocks over the base mix in schedule order: each shock sets the share of
+ * the categories it names, difficulty deltas add up and payout multipliers compound.
+ */
+export function applyShocks(
+  baseMix: CategoryMix,
+  schedule: CurriculumShock[],
+  elapsedMs: number
+): ShockEffect {
+  const active = activeShocks(schedule, elapsedMs);
+  let mix = baseMix;
+  let difficultyDelta = 0;
+  let payoutMultiplier = 1;
+
+  for (const shock of active) {
+    if (shock.mix) mix = overrideMix(mix, shock.mix);
+    difficultyDelta += shock.difficultyDelta ?? 0;
+    payoutMultiplier *= shock.payoutMultiplier ?? 1;
+  }
+
+  return { mix, difficultyDelta, payoutMultiplier, active };
+}
@@ -0,0 +1,90 @@
+/**
+ * Job deadlines: cooperative cancellation helpers and the late-delivery payout curve.
+ * A job is hard-cancelled once its grace window (a fraction of the deadline) has passed;
+ * work delivered late but inside the window is paid on a decaying curve.
+ */
+
+export type LatePayoutDecay = 'none' | 'linear' | 'exponential';
+
+export const LATE_PAYOUT_DECAYS: LatePayoutDecay[] = ['none', 'linear', 'exponential'];
+
+export interface DeadlineParams {
+  graceFraction: number; // Grace window after the deadline, as a fraction of the deadline
+  decay: LatePayoutDecay;
+  floor: number; // Payout multiplier reached at the end of the grace window (0-1)
+}
+
+export interface AbortOptions {
+  signal?: AbortSignal;
+}
+
+export class DeadlineExceededError extends Error {
+  constructor(
+    public readonly deadlineS: number,
+    public readonly elapsedSec: number
+  ) {
+    super(`Deadline of ${deadlineS}s exceeded after ${elapsedSec}s`);
+    this.name = 'DeadlineExceededError';
+  }
+}
+
+const clamp01 = (x: number) => Math.min(1, Math.max(0, x));
+
+/**
+ * Milliseconds after the job starts at which it is hard-cancelled
+ */
+export function hardCancelMs(deadlineS: number, graceFraction: number): number {
+  return Math.max(0, deadlineS * (1 + Math.max(0, graceFraction)) * 1000);
+}
+
+/**
+ * Payout multiplier for delivery after `ttcSec`: 1 on time, then decaying toward `floor`.
+ * Linear decay reaches the floor at the end of the grace window; exponential decay halves the
+ * distance to it every quarter of the window.
+ */
+export function latePayoutMultiplier(
+  ttcSec: number,
+  deadlineS: number,
+  params: DeadlineParams
+): number {
+  if (deadlineS <= 0 || ttcSec <= deadlineS || params.decay === 'none') return 1;
+
+  const floor = clamp01(params.floor);
+  const window = deadlineS * params.graceFraction;
+  if (window <= 0) return floor;
+
+  const lateness = clamp01((ttcSec - deadlineS) / window);
+  const remaining = params.decay === 'linear' ? 1 - lateness : Math.pow(0.5, lateness * 4);
+  return floor + (1 - floor) * remaining;
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw signal.reason instanceof Error ? signal.reason : new Error('Operation aborted');
+  }
+}
+
+/**
+ * Settles with `promise`, or rejects with the abort reason as soon as `signal` fires.
+ * The underlying work is not stopped; use it around calls that ignore signals.
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  throwIfAborted(signal);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () =>
+      reject(signal.reason instanceof Error ? signal.reason : new Error('Operation aborted'));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
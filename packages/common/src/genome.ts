@@ -0,0 +1,269 @@
+/**
+ * Declarative genome: every gene has a type, a range and its mutation/crossover operators.
+ * Genomes are plain JSON so they can be stored on Swarm rows and recorded in lineage.
+ */
+
+import { AgentTraits } from './types';
+
+export type GeneValue = number | string | boolean;
+export type Genome = Record<string, GeneValue>;
+
+export type GeneSpec =
+  | {
+      type: 'float';
+      min: number;
+      max: number;
+      sigma: number; // Standard deviation of the gaussian step
+      default: number;
+      mutation: 'gaussian';
+      crossover: 'uniform' | 'blend';
+    }
+  | {
+      type: 'categorical';
+      options: readonly string[];
+      default: string;
+      mutation: 'swap';
+      crossover: 'uniform';
+    }
+  | {
+      type: 'boolean';
+      default: boolean;
+      mutation: 'swap';
+      crossover: 'uniform';
+    };
+
+export type GenomeSchema = Record<string, GeneSpec>;
+
+export interface GeneMutation {
+  gene: string;
+  from: GeneValue;
+  to: GeneValue;
+}
+
+export type Random = () => number;
+
+/**
+ * Deterministic random source (mulberry32): the same seed yields the same sequence
+ */
+export function seededRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** System-prompt fragments selectable by the `promptFragment` gene */
+export const PROMPT_FRAGMENTS: Record<string, string> = {
+  none: '',
+  concise: 'Be concise: lead with the answer and cut filler.',
+  thorough: 'Be thorough: cover edge cases and explain the reasoning behind recommendations.',
+  structured: 'Structure the answer with short headings and bullet points.',
+  skeptical: 'Double-check facts and explicitly flag anything uncertain.',
+  stepwise: 'Work step by step and show intermediate results before the final answer.',
+};
+
+export interface SwarmGenomeOptions {
+  models: string[]; // Candidate model names; '' (component default) is always included
+  mutationRate: number; // Default per-gene mutation rate for seeded swarms
+  toolBuilderStrict: boolean;
+}
+
+export function createSwarmGenomeSchema(opts: SwarmGenomeOptions): GenomeSchema {
+  return {
+    temperature: {
+      type: 'float',
+      min: 0,
+      max: 1.2,
+      sigma: 0.15,
+      default: 0.7,
+      mutation: 'gaussian',
+      crossover: 'blend',
+    },
+    model: {
+      type: 'categorical',
+      options: ['', ...opts.models.filter((m) => m !== '')],
+      default: '',
+      mutation: 'swap',
+      crossover: 'uniform',
+    },
+    promptFragment: {
+      type: 'categorical',
+      options: Object.keys(PROMPT_FRAGMENTS),
+      default: 'none',
+      mutation: 'swap',
+      crossover: 'uniform',
+    },
+    toolBuilderStrict: {
+      type: 'boolean',
+      default: opts.toolBuilderStrict,
+      mutation: 'swap',
+      crossover: 'uniform',
+    },
+    mutationRate: {
+      type: 'float',
+      min: 0.01,
+      max: 0.5,
+      sigma: 0.05,
+      default: opts.mutationRate,
+      mutation: 'gaussian',
+      crossover: 'blend',
+    },
+  };
+}
+
+const clamp = (x: number, min: number, max: number) => Math.min(max, Math.max(min, x));
+
+function gaussian(random: Random) {
+  // Box-Muller transform
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function isValid(spec: GeneSpec, value: unknown): value is GeneValue {
+  switch (spec.type) {
+    case 'float':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'categorical':
+      return typeof value === 'string' && spec.options.includes(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+  }
+}
+
+export function defaultGenome(schema: GenomeSchema): Genome {
+  return Object.fromEntries(Object.entries(schema).map(([gene, spec]) => [gene, spec.default]));
+}
+
+export function randomGenome(schema: GenomeSchema, random: Random = Math.random): Genome {
+  const genome: Genome = {};
+  for (const [gene, spec] of Object.entries(schema)) {
+    switch (spec.type) {
+      case 'float':
+        genome[gene] = Math.round((spec.min + random() * (spec.max - spec.min)) * 1000) / 1000;
+        break;
+      case 'categorical':
+        genome[gene] = spec.options[Math.floor(random() * spec.options.length)];
+        break;
+      case 'boolean':
+        genome[gene] = random() < 0.5;
+        break;
+    }
+  }
+  return genome;
+}
+
+/**
+ * Fills missing or invalid genes with defaults and clamps floats into range.
+ * Accepts a JSON string (as stored in the database) or an object.
+ */
+export function normalizeGenome(
+  raw: string | Record<string, unknown> | null | undefined,
+  schema: GenomeSchema
+): Genome {
+  let parsed: Record<string, unknown> = {};
+  if (typeof raw === 'string') {
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      parsed = {};
+    }
+  } else if (raw) {
+    parsed = raw;
+  }
+
+  const genome: Genome = {};
+  for (const [gene, spec] of Object.entries(schema)) {
+    const value = parsed[gene];
+    if (!isValid(spec, value)) {
+      genome[gene] = spec.default;
+    } else if (spec.type === 'float') {
+      genome[gene] = clamp(value as number, spec.min, spec.max);
+    } else {
+      genome[gene] = value;
+    }
+  }
+  return genome;
+}
+
+/**
+ * Applies each gene's mutation operator with probability `rate`
+ */
+export function mutateGenome(
+  genome: Genome,
+  schema: GenomeSchema,
+  rate: number,
+  random: Random = Math.random
+): { genome: Genome; mutations: GeneMutation[] } {
+  const child: Genome = { ...genome };
+  const mutations: GeneMutation[] = [];
+
+  for (const [gene, spec] of Object.entries(schema)) {
+    if (random() >= rate) continue;
+
+    const from = genome[gene] ?? spec.default;
+    let to: GeneValue = from;
+    switch (spec.type) {
+      case 'float':
+        to = clamp((from as number) + gaussian(random) * spec.sigma, spec.min, spec.max);
+        to = Math.round(to * 1000) / 1000;
+        break;
+      case 'categorical': {
+        const options = spec.options.filter((o) => o !== from);
+        if (options.length) to = options[Math.floor(random() * options.length)];
+        break;
+      }
+      case 'boolean':
+        to = !from;
+        break;
+    }
+
+    if (to !== from) {
+      child[gene] = to;
+      mutations.push({ gene, from, to });
+    }
+  }
+
+  return { genome: child, mutations };
+}
+
+/**
+ * Combines two parent genomes gene by gene using each gene's crossover operator
+ */
+export function crossoverGenomes(
+  a: Genome,
+  b: Genome,
+  schema: GenomeSchema,
+  random: Random = Math.random
+): Genome {
+  const child: Genome = {};
+  for (const [gene, spec] of Object.entries(schema)) {
+    const va = a[gene] ?? spec.default;
+    const vb = b[gene] ?? spec.default;
+    if (spec.type === 'float' && spec.crossover === 'blend') {
+      const w = random();
+      child[gene] = Math.round(((va as number) * w + (vb as number) * (1 - w)) * 1000) / 1000;
+    } else {
+      child[gene] = random() < 0.5 ? va : vb;
+    }
+  }
+  return child;
+}
+
+/**
+ * Translates a swarm genome into the traits agents are constructed with
+ */
+export function expressGenome(genome: Genome): AgentTraits {
+  const fragment = PROMPT_FRAGMENTS[String(genome.promptFragment)] ?? '';
+  return {
+    temperature: typeof genome.temperature === 'number' ? genome.temperature : undefined,
+    model: typeof genome.model === 'string' && genome.model ? genome.model : undefined,
+    promptFragment: fragment || undefined,
+    toolBuilderStrict:
+      typeof genome.toolBuilderStrict === 'boolean' ? genome.toolBuilderStrict : undefined,
+  };
+}
@@ -0,0 +1,175 @@
+/**
+ * Grading panel: aggregates the verdicts of several LLM judges, flags the grades they disagree
+ * on, and measures each judge against a calibration set of reference answers to detect drift.
+ */
+
+export type PanelAggregation = 'median' | 'trimmed_mean';
+
+export const PANEL_AGGREGATIONS: PanelAggregation[] = ['median', 'trimmed_mean'];
+
+export interface PanelParams {
+  aggregation: PanelAggregation;
+  trimFraction: number; // Share of scores dropped from each end by the trimmed mean
+  disagreementThreshold: number; // Score spread (0-100) at which a grade is flagged for review
+}
+
+export const DEFAULT_PANEL_PARAMS: PanelParams = {
+  aggregation: 'median',
+  trimFraction: 0.2,
+  disagreementThreshold: 30,
+};
+
+export interface JudgeGrade {
+  judge: string;
+  model: string;
+  passed: boolean;
+  qualityScore?: number; // 1-100 for passes
+  criteria?: Record<string, number>; // Rubric criterion scores (0-100) for passes
+  feedback?: string;
+  error?: string; // Judge failed to produce a grade; excluded from the verdict
+}
+
+export interface PanelVerdict {
+  passed: boolean;
+  qualityScore?: number; // Aggregate over the passing judges
+  criteria?: Record<string, number>; // Per-criterion aggregate over the passing judges
+  panelScore: number; // Aggregate over all judges, a fail counting as 0
+  spread: number; // Max - min judge score, a fail counting as 0
+  agreement: number; // Share of judges that agree with the verdict (0-1)
+  flagged: boolean; // Split verdict or spread at/above the disagreement threshold
+}
+
+export interface CalibrationCase {
+  id: string;
+  prompt: string;
+  answer: string;
+  expectedPass: boolean;
+  expectedScore?: number; // Reference quality for passing answers
+}
+
+export interface CalibrationStats {
+  judge: string;
+  cases: number;
+  accuracy: number; // Share of verdicts matching expectedPass (0-1)
+  bias: number; // Mean (score - expected); positive = lenient
+  meanAbsError: number;
+}
+
+export interface DriftReport extends CalibrationStats {
+  baselineBias: number;
+  baselineAccuracy: number;
+  drifted: boolean;
+}
+
+export function median(values: number[]): number {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Mean after dropping `trimFraction` of the values from each end (at least one value is kept)
+ */
+export function trimmedMean(values: number[], trimFraction: number): number {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const trim = Math.min(
+    Math.floor(sorted.length * Math.max(0, trimFraction)),
+    Math.floor((sorted.length - 1) / 2)
+  );
+  const kept = sorted.slice(trim, sorted.length - trim);
+  return kept.reduce((sum, v) => sum + v, 0) / kept.length;
+}
+
+export function aggregateScores(values: number[], params: PanelParams): number {
+  return params.aggregation === 'median'
+    ? median(values)
+    : trimmedMean(values, params.trimFraction);
+}
+
+const judgeScore = (grade: JudgeGrade) => (grade.passed ? (grade.qualityScore ?? 0) : 0);
+
+/**
+ * Combines the judges' grades. The panel passes on a strict majority of pass votes (a tie
+ * fails); its quality is the aggregate of the passing judges' scores.
+ */
+export function panelVerdict(grades: JudgeGrade[], params: PanelParams): PanelVerdict {
+  const valid = grades.filter((g) => !g.error);
+  if (!valid.length) throw new Error('No judge produced a grade');
+
+  const passes = valid.filter((g) => g.passed);
+  const passed = passes.length * 2 > valid.length;
+  const scores = valid.map(judgeScore);
+  const spread = Math.max(...scores) - Math.min(...scores);
+  const splitVerdict = passes.length > 0 && passes.length < valid.length;
+
+  return {
+    passed,
+    qualityScore: passed ? Math.round(aggregateScores(passes.map(judgeScore), params)) : undefined,
+    criteria: passed ? aggregateCriteria(passes, params) : undefined,
+    panelScore: aggregateScores(scores, params),
+    spread,
+    agreement: (passed ? passes.length : valid.length - passes.length) / valid.length,
+    flagged: splitVerdict || spread >= params.disagreementThreshold,
+  };
+}
+
+function aggregateCriteria(
+  grades: JudgeGrade[],
+  params: PanelParams
+): Record<string, number> | undefined {
+  const names = [...new Set(grades.flatMap((g) => Object.keys(g.criteria ?? {})))];
+  if (!names.length) return undefined;
+  return Object.fromEntries(
+    names.map((name) => [
+      name,
+      aggregateScores(
+        grades.filter((g) => typeof g.criteria?.[name] === 'number').map((g) => g.criteria![name]),
+        params
+      ),
+    ])
+  );
+}
+
+/**
+ * How one judge graded the calibration cases. Bias and error compare scores (a fail counting as
+ * 0) with the expected score (0 for expected fails).
+ */
+export function calibrationStats(
+  judge: string,
+  results: { case: CalibrationCase; grade: JudgeGrade }[]
+): CalibrationStats {
+  const graded = results.filter((r) => !r.grade.error);
+  const diffs = graded.map(
+    (r) => judgeScore(r.grade) - (r.case.expectedPass ? (r.case.expectedScore ?? 50) : 0)
+  );
+  const n = graded.length;
+  return {
+    judge,
+    cases: n,
+    accuracy: n ? graded.filter((r) => r.grade.passed === r.case.expectedPass).length / n : 0,
+    bias: n ? diffs.reduce((sum, d) => sum + d, 0) / n : 0,
+    meanAbsError: n ? diffs.reduce((sum, d) => sum + Math.abs(d), 0) / n : 0,
+  };
+}
+
+/**
+ * Compares a judge's current calibration with its first (baseline) run. The judge has drifted
+ * when its bias moved by `biasThreshold` points or its accuracy dropped by `accuracyThreshold`.
+ */
+export function detectDrift(
+  baseline: CalibrationStats,
+  current: CalibrationStats,
+  biasThreshold: number,
+  accuracyThreshold = 0.2
+): DriftReport {
+  return {
+    ...current,
+    baselineBias: baseline.bias,
+    baselineAccuracy: baseline.accuracy,
+    drifted:
+      Math.abs(current.bias - baseline.bias) >= biasThreshold ||
+      baseline.accuracy - current.accuracy >= accuracyThreshold,
+  };
+}
@@ -1,5 +1,17 @@
 export * from './types';
 export * from './metrics';
+export * from './selection';
+export * from './genome';
+export * from './market';
+export * from './reputation';
+export * from './deadline';
+export * from './categories';
+export * from './curriculum';
+export * from './similarity';
+export * from './grading';
+export * from './rubric';
+export * from './tokenBudget';
+export * from './circuitBreaker';
 export * from './seed';
 export * from './config';
 export * from './logger';
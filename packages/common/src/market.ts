@@ -0,0 +1,107 @@
+/**
+ * Job marketplace: swarms bid on announced jobs and a clearing rule awards each job.
+ * Jobs are procurement auctions: the job's payout is the reserve (maximum) price and
+ * lower bids are better for the buyer.
+ */
+
+export type ClearingRule = 'lowest_price' | 'reputation_weighted' | 'vickrey';
+
+export const CLEARING_RULES: ClearingRule[] = ['lowest_price', 'reputation_weighted', 'vickrey'];
+
+export interface Bid {
+  swarmId: string;
+  price: number; // Asked payout, at most the job's reserve
+  etaSec: number; // Expected time to completion, including queued work
+  confidence: number; // 0-1 self-estimate of passing the grade
+  reputation: number; // Bidder reputation at bid time
+}
+
+export interface AuctionResult {
+  winner: Bid;
+  price: number; // Price paid to the winner on success
+  scores: Record<string, number>; // Clearing score per bidder (higher wins)
+}
+
+export interface BidderProfile {
+  swarmId: string;
+  balance: number;
+  reputation: number;
+  attempts: number;
+  wins: number;
+  meanTtcSec: number;
+  queuedJobs: number; // Jobs already awarded but not yet finished
+  memorySuccesses: number; // Remembered successful experiences
+  memoryFailures: number; // Remembered failed experiences
+}
+
+const clamp = (x: number, min: number, max: number) => Math.min(max, Math.max(min, x));
+
+/**
+ * Heuristic bid: confident swarms (track record and remembered outcomes) ask for more of the
+ * reserve, and so do rich ones; poor swarms undercut to win work.
+ */
+export function computeBid(
+  profile: BidderProfile,
+  job: { payout: number; deadlineS: number },
+  random: () => number = Math.random
+): Bid {
+  const winRate = (profile.wins + 1) / (profile.attempts + 2);
+  const memoryRate =
+    (profile.memorySuccesses + 1) / (profile.memorySuccesses + profile.memoryFailures + 2);
+  // Swarms that usually overrun the deadline are less likely to be paid in full
+  const perJob = profile.meanTtcSec > 0 ? profile.meanTtcSec : job.deadlineS / 2;
+  const punctuality = job.deadlineS > 0 ? Math.min(1, job.deadlineS / perJob) : 1;
+  const confidence = clamp(((winRate + memoryRate) / 2) * punctuality, 0.05, 0.99);
+
+  const wealth = clamp(profile.balance / (Math.abs(profile.balance) + 1000), 0, 1);
+  const jitter = 0.9 + random() * 0.2;
+  const price = clamp(
+    Math.round(job.payout * (0.5 + 0.25 * wealth + 0.25 * confidence) * jitter),
+    1,
+    job.payout
+  );
+
+  return {
+    swarmId: profile.swarmId,
+    price,
+    etaSec: Math.round(perJob * (profile.queuedJobs + 1)),
+    confidence,
+    reputation: profile.reputation,
+  };
+}
+
+/**
+ * Awards a job under the given rule. Bids above the reserve are rejected.
+ * Returns null when no valid bid remains.
+ */
+export function clearAuction(
+  bids: Bid[],
+  rule: ClearingRule,
+  reserve: number
+): AuctionResult | null {
+  const valid = bids.filter((b) => b.price > 0 && b.price <= reserve);
+  if (!valid.length) return null;
+
+  const scores: Record<string, number> = {};
+  for (const bid of valid) {
+    scores[bid.swarmId] =
+      rule === 'reputation_weighted' ? (bid.reputation * bid.confidence) / bid.price : -bid.price;
+  }
+
+  // Highest score wins; ties go to the faster bidder
+  const ranked = [...valid].sort(
+    (a, b) => scores[b.swarmId] - scores[a.swarmId] || a.etaSec - b.etaSec
+  );
+  const winner = ranked[0];
+
+  switch (rule) {
+    case 'lowest_price':
+    case 'reputation_weighted':
+      return { winner, price: winner.price, scores };
+    case 'vickrey':
+      // Second-price: the lowest bidder is paid the runner-up's price (reserve if unopposed)
+      return { winner, price: ranked[1]?.price ?? reserve, scores };
+    default:
+      throw new Error(`Unknown clearing rule: ${rule}`);
+  }
+}
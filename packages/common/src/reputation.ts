@@ -0,0 +1,76 @@
+/**
+ * Reputation engine: an exponential moving average over graded job outcomes that decays back
+ * toward neutral (0.5) while a swarm is idle. Consecutive failures cost extra.
+ */
+
+export const NEUTRAL_REPUTATION = 0.5;
+
+export interface ReputationParams {
+  alpha: number; // EMA weight of the newest outcome (0-1)
+  halfLifeHours: number; // Idle time after which the distance from neutral halves
+  streakPenalty: number; // Extra loss per consecutive failure
+  maxStreak: number; // Streak length after which the penalty stops growing
+}
+
+export interface JobOutcome {
+  passed: boolean;
+  qualityScore?: number | null; // 0-100 from the grader
+  ttcSec: number;
+  deadlineS: number;
+}
+
+export interface ReputationUpdate {
+  reputation: number;
+  failStreak: number;
+  observation: number; // Score of this outcome (0-1) fed into the EMA
+  deadlineScore: number; // 1 when on time, falling to 0 at twice the deadline
+}
+
+const clamp01 = (x: number) => Math.min(1, Math.max(0, x));
+
+/**
+ * Pulls reputation toward neutral by half of its distance every `halfLifeHours`
+ */
+export function decayReputation(
+  reputation: number,
+  elapsedMs: number,
+  halfLifeHours: number
+): number {
+  if (halfLifeHours <= 0 || elapsedMs <= 0) return reputation;
+  const factor = Math.pow(0.5, elapsedMs / (halfLifeHours * 3_600_000));
+  return NEUTRAL_REPUTATION + (reputation - NEUTRAL_REPUTATION) * factor;
+}
+
+export function scoreDeadline(ttcSec: number, deadlineS: number): number {
+  if (deadlineS <= 0 || ttcSec <= deadlineS) return 1;
+  return clamp01(1 - (ttcSec - deadlineS) / deadlineS);
+}
+
+/**
+ * Folds one graded outcome into a (already decayed) reputation
+ */
+export function updateReputation(
+  reputation: number,
+  failStreak: number,
+  outcome: JobOutcome,
+  params: ReputationParams
+): ReputationUpdate {
+  const deadlineScore = scoreDeadline(outcome.ttcSec, outcome.deadlineS);
+  const quality = outcome.passed ? clamp01((outcome.qualityScore ?? 70) / 100) : 0;
+  const observation = 0.7 * quality + 0.3 * (outcome.passed ? deadlineScore : 0);
+
+  let next = reputation + params.alpha * (observation - reputation);
+  const streak = outcome.passed ? 0 : failStreak + 1;
+  if (streak > 1) {
+    next -= params.streakPenalty * Math.min(streak - 1, params.maxStreak);
+  }
+
+  return { reputation: clamp01(next), failStreak: streak, observation, deadlineScore };
+}
+
+/**
+ * Payout multiplier: 1 at neutral reputation, 1 ± weight at the extremes
+ */
+export function reputationPayoutMultiplier(reputation: number, weight: number): number {
+  return Math.max(0, 1 + weight * (reputation - NEUTRAL_REPUTATION) * 2);
+}
@@ -0,0 +1,105 @@
+/**
+ * Grading rubrics: the criteria an LLM judge scores (0-100 each) and their weights per job
+ * category. A response's quality is the weighted mean of its criterion scores.
+ */
+
+import { JobCategory } from './types';
+import { JOB_CATEGORIES } from './categories';
+
+export interface RubricCriterion {
+  name: string;
+  description: string;
+  weight: number; // Normalized: a rubric's weights sum to 1
+}
+
+export type Rubric = RubricCriterion[];
+
+export const DEFAULT_CRITERIA: Record<string, string> = {
+  answer_relevancy: 'Does it address the exact request? Partial answers score lower',
+  helpfulness: 'Is it genuinely useful and actionable? Generic answers score low',
+  faithfulness: 'Are the facts verifiable and grounded? Speculation is a major deduction',
+  bias: 'Is it objective? Any bias is a deduction (100 = fully objective)',
+  correctness: 'Is every detail accurate? Each error is a penalty',
+};
+
+export const DEFAULT_RUBRIC_WEIGHTS: Record<JobCategory, Record<string, number>> = {
+  web_research: {
+    answer_relevancy: 0.2,
+    helpfulness: 0.15,
+    faithfulness: 0.35,
+    bias: 0.05,
+    correctness: 0.25,
+  },
+  summarize: {
+    answer_relevancy: 0.25,
+    helpfulness: 0.15,
+    faithfulness: 0.35,
+    bias: 0.1,
+    correctness: 0.15,
+  },
+  classify: {
+    answer_relevancy: 0.2,
+    helpfulness: 0.05,
+    faithfulness: 0.1,
+    bias: 0.05,
+    correctness: 0.6,
+  },
+  math: { answer_relevancy: 0.15, helpfulness: 0.1, faithfulness: 0.1, correctness: 0.65 },
+};
+
+type CriterionOverride = number | { weight: number; description?: string };
+
+/**
+ * Builds a rubric from criterion weights (or { weight, description } for custom criteria).
+ * Zero weights drop the criterion; the rest are normalized to sum to 1.
+ */
+export function buildRubric(spec: Record<string, CriterionOverride>): Rubric {
+  const criteria = Object.entries(spec).map(([name, value]) => {
+    const weight = typeof value === 'number' ? value : value?.weight;
+    const description =
+      (typeof value === 'object' ? value.description : undefined) ?? DEFAULT_CRITERIA[name];
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+      throw new Error(`Criterion "${name}" needs a non-negative weight`);
+    }
+    if (!description) throw new Error(`Custom criterion "${name}" needs a description`);
+    return { name, description, weight };
+  });
+
+  const kept = criteria.filter((c) => c.weight > 0);
+  const total = kept.reduce((sum, c) => sum + c.weight, 0);
+  if (!kept.length) throw new Error('A rubric needs at least one weighted criterion');
+  return kept.map((c) => ({ ...c, weight: c.weight / total }));
+}
+
+/**
+ * Rubric per category: the defaults, with any category in `overrides` replaced entirely
+ */
+export function resolveRubrics(overrides: unknown): Record<JobCategory, Rubric> {
+  if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+    throw new Error('Rubric overrides must be an object keyed by category');
+  }
+  const spec = overrides as Record<string, Record<string, CriterionOverride>>;
+  return Object.fromEntries(
+    JOB_CATEGORIES.map((category) => [
+      category,
+      buildRubric(spec[category] ?? DEFAULT_RUBRIC_WEIGHTS[category]),
+    ])
+  ) as Record<JobCategory, Rubric>;
+}
+
+/**
+ * Equal weights over the default criteria, for grading outside any category
+ */
+export function defaultRubric(): Rubric {
+  return buildRubric(Object.fromEntries(Object.keys(DEFAULT_CRITERIA).map((name) => [name, 1])));
+}
+
+/**
+ * Weighted mean of the criterion scores, renormalized over the criteria that were scored
+ */
+export function weightedScore(scores: Record<string, number>, rubric: Rubric): number | null {
+  const scored = rubric.filter((c) => typeof scores[c.name] === 'number');
+  const total = scored.reduce((sum, c) => sum + c.weight, 0);
+  if (!scored.length || total <= 0) return null;
+  return scored.reduce((sum, c) => sum + scores[c.name] * c.weight, 0) / total;
+}
@@ -0,0 +1,211 @@
+/**
+ * Selection strategies for the epoch cull.
+ * A strategy receives the cull candidates and returns the ids to remove, most deserving first,
+ * so the caller can stop early when a population floor is reached.
+ */
+
+export interface SelectionCandidate {
+  id: string;
+  fitness: number; // Higher is better (balance plus reputation bonus today)
+  bornAt: Date;
+}
+
+export interface SelectionContext {
+  now: Date;
+  epochMinutes: number;
+  random?: () => number;
+}
+
+export interface SelectionResult {
+  cull: string[];
+  reasons: Record<string, string>;
+  immigrants: number; // Fresh random individuals the caller should add
+}
+
+export interface SelectionStrategy {
+  readonly name: SelectionStrategyName;
+  select(candidates: SelectionCandidate[], ctx: SelectionContext): SelectionResult;
+}
+
+export type SelectionStrategyName = 'truncation' | 'tournament' | 'roulette' | 'elitism' | 'age';
+
+export const SELECTION_STRATEGIES: SelectionStrategyName[] = [
+  'truncation',
+  'tournament',
+  'roulette',
+  'elitism',
+  'age',
+];
+
+export interface SelectionParams {
+  fraction?: number; // Share of candidates to cull (truncation, tournament, roulette, elitism)
+  cullNegative?: boolean; // Always cull negative fitness (default true)
+  tournamentSize?: number; // Candidates per tournament (tournament)
+  elite?: number; // Top candidates that are never culled (elitism)
+  immigrants?: number; // Fresh individuals added each epoch (elitism)
+  maxAgeEpochs?: number; // Retirement age in epochs (age)
+}
+
+const byFitnessAsc = (a: SelectionCandidate, b: SelectionCandidate) => a.fitness - b.fitness;
+
+function cullCount(candidates: SelectionCandidate[], fraction: number) {
+  if (!candidates.length) return 0;
+  return Math.min(candidates.length, Math.max(1, Math.floor(candidates.length * fraction)));
+}
+
+function result(): SelectionResult {
+  return { cull: [], reasons: {}, immigrants: 0 };
+}
+
+function add(out: SelectionResult, id: string, reason: string) {
+  if (out.reasons[id]) return;
+  out.cull.push(id);
+  out.reasons[id] = reason;
+}
+
+function addNegatives(out: SelectionResult, candidates: SelectionCandidate[], enabled = true) {
+  if (!enabled) return;
+  for (const c of [...candidates].sort(byFitnessAsc)) {
+    if (c.fitness < 0) add(out, c.id, 'negative fitness');
+  }
+}
+
+/** Cull the bottom `fraction` by fitness, plus anyone negative. */
+export class TruncationSelection implements SelectionStrategy {
+  readonly name = 'truncation' as const;
+
+  constructor(private params: SelectionParams) {}
+
+  select(candidates: SelectionCandidate[]): SelectionResult {
+    const out = result();
+    addNegatives(out, candidates, this.params.cullNegative ?? true);
+
+    const sorted = [...candidates].sort(byFitnessAsc);
+    const n = cullCount(sorted, this.params.fraction ?? 0.2);
+    for (const c of sorted.slice(0, n)) add(out, c.id, 'bottom of population');
+    return out;
+  }
+}
+
+/** Repeated tournaments of `tournamentSize` random candidates; each tournament's loser dies. */
+export class TournamentSelection implements SelectionStrategy {
+  readonly name = 'tournament' as const;
+
+  constructor(private params: SelectionParams) {}
+
+  select(candidates: SelectionCandidate[], ctx: SelectionContext): SelectionResult {
+    const random = ctx.random ?? Math.random;
+    const out = result();
+    addNegatives(out, candidates, this.params.cullNegative ?? true);
+
+    const target = cullCount(candidates, this.params.fraction ?? 0.2);
+    const size = Math.max(2, this.params.tournamentSize ?? 3);
+
+    while (out.cull.length < target) {
+      const pool = candidates.filter((c) => !out.reasons[c.id]);
+      if (!pool.length) break;
+
+      const entrants: SelectionCandidate[] = [];
+      for (let i = 0; i < Math.min(size, pool.length); i++) {
+        const remaining = pool.filter((c) => !entrants.includes(c));
+        entrants.push(remaining[Math.floor(random() * remaining.length)]);
+      }
+      const loser = entrants.sort(byFitnessAsc)[0];
+      add(out, loser.id, `lost tournament of ${entrants.length}`);
+    }
+    return out;
+  }
+}
+
+/** Fitness-proportional (roulette) cull: the poorer a candidate, the likelier it is drawn. */
+export class RouletteSelection implements SelectionStrategy {
+  readonly name = 'roulette' as const;
+
+  constructor(private params: SelectionParams) {}
+
+  select(candidates: SelectionCandidate[], ctx: SelectionContext): SelectionResult {
+    const random = ctx.random ?? Math.random;
+    const out = result();
+    addNegatives(out, candidates, this.params.cullNegative ?? true);
+
+    const target = cullCount(candidates, this.params.fraction ?? 0.2);
+    const maxFitness = Math.max(...candidates.map((c) => c.fitness));
+
+    while (out.cull.length < target) {
+      const pool = candidates.filter((c) => !out.reasons[c.id]);
+      if (!pool.length) break;
+
+      // Death weight grows with the gap to the fittest; +1 keeps the fittest drawable
+      const weights = pool.map((c) => maxFitness - c.fitness + 1);
+      const total = weights.reduce((a, b) => a + b, 0);
+      let spin = random() * total;
+      let index = 0;
+      while (index < pool.length - 1 && spin >= weights[index]) {
+        spin -= weights[index];
+        index++;
+      }
+      add(out, pool[index].id, 'drawn by roulette');
+    }
+    return out;
+  }
+}
+
+/** Protect the top `elite`, truncate the rest, and ask for `immigrants` fresh individuals. */
+export class ElitismSelection implements SelectionStrategy {
+  readonly name = 'elitism' as const;
+
+  constructor(private params: SelectionParams) {}
+
+  select(candidates: SelectionCandidate[]): SelectionResult {
+    const sorted = [...candidates].sort(byFitnessAsc);
+    const elite = Math.max(0, this.params.elite ?? 2);
+    const rest = sorted.slice(0, Math.max(0, sorted.length - elite));
+
+    const out = result();
+    addNegatives(out, rest, this.params.cullNegative ?? true);
+    const n = cullCount(rest, this.params.fraction ?? 0.2);
+    for (const c of rest.slice(0, n)) add(out, c.id, 'bottom of non-elite population');
+
+    out.immigrants = Math.max(0, this.params.immigrants ?? 1);
+    return out;
+  }
+}
+
+/** Retire anyone older than `maxAgeEpochs`, oldest first, plus anyone negative. */
+export class AgeSelection implements SelectionStrategy {
+  readonly name = 'age' as const;
+
+  constructor(private params: SelectionParams) {}
+
+  select(candidates: SelectionCandidate[], ctx: SelectionContext): SelectionResult {
+    const maxAgeMs = (this.params.maxAgeEpochs ?? 3) * ctx.epochMinutes * 60_000;
+    const out = result();
+    addNegatives(out, candidates, this.params.cullNegative ?? true);
+
+    const oldestFirst = [...candidates].sort((a, b) => a.bornAt.getTime() - b.bornAt.getTime());
+    for (const c of oldestFirst) {
+      if (ctx.now.getTime() - c.bornAt.getTime() >= maxAgeMs) add(out, c.id, 'retired by age');
+    }
+    return out;
+  }
+}
+
+export function createSelectionStrategy(
+  name: SelectionStrategyName,
+  params: SelectionParams = {}
+): SelectionStrategy {
+  switch (name) {
+    case 'truncation':
+      return new TruncationSelection(params);
+    case 'tournament':
+      return new TournamentSelection(params);
+    case 'roulette':
+      return new RouletteSelection(params);
+    case 'elitism':
+      return new ElitismSelection(params);
+    case 'age':
+      return new AgeSelection(params);
+    default:
+      throw new Error(`Unknown selection strategy: ${name}`);
+  }
+}
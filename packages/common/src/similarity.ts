@@ -0,0 +1,64 @@
+/**
+ * Text similarity for near-duplicate detection: cosine similarity over embeddings, with word
+ * shingles and Jaccard similarity as the lexical fallback when no embedding is available.
+ */
+
+export interface DedupParams {
+  threshold: number; // Embedding cosine similarity at or above which a prompt is a duplicate
+  lexicalThreshold: number; // Shingle Jaccard similarity used when embeddings are unavailable
+  window: number; // Recent accepted prompts compared against
+  maxRerolls: number; // Extra batches requested when every job in a batch is a duplicate
+}
+
+export const DEFAULT_DEDUP_PARAMS: DedupParams = {
+  threshold: 0.92,
+  lexicalThreshold: 0.6,
+  window: 200,
+  maxRerolls: 2,
+};
+
+export interface DiversityStats {
+  generated: number; // Jobs returned by the LLM, across re-rolls
+  accepted: number;
+  rejected: number;
+  rerolls: number;
+  meanPairwiseSimilarity: number | null; // Among accepted jobs of the batch
+  meanNearestSimilarity: number | null; // Accepted job to its nearest neighbour in history
+  method: 'embedding' | 'lexical';
+}
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Overlapping word n-grams of the lower-cased text (the whole text when it is shorter)
+ */
+export function shingles(text: string, size = 3): Set<string> {
+  const words = text.toLowerCase().match(/[a-z0-9$%.]+/g) ?? [];
+  const result = new Set<string>();
+  if (words.length <= size) {
+    if (words.length) result.add(words.join(' '));
+    return result;
+  }
+  for (let i = 0; i + size <= words.length; i++) {
+    result.add(words.slice(i, i + size).join(' '));
+  }
+  return result;
+}
+
+export function jaccardSimilarity(a: Set<string>, b: Set<string>): number {
+  if (!a.size && !b.size) return 1;
+  let shared = 0;
+  for (const item of a) if (b.has(item)) shared++;
+  return shared / (a.size + b.size - shared);
+}
@@ -0,0 +1,278 @@
+/**
+ * Token budgets: rolling one-hour token limits per provider pool, overall and per agent (swarm),
+ * plus lifetime token accounting by component, provider and agent. Calls are refused once a
+ * window's usage reaches its limit, so a limit is overshot by at most the call that crossed it.
+ * Pure bookkeeping: the clock is passed in.
+ */
+
+// Hosted providers (quota and cost), local Ollama (own limits), and mock/replayed calls (free,
+// counted but never limited)
+export type TokenPool = 'hosted' | 'local' | 'free';
+
+export const TOKEN_POOLS: TokenPool[] = ['hosted', 'local', 'free'];
+
+export interface PoolLimits {
+  perHour: number; // All calls to the pool in the last hour; 0 = unlimited
+  perAgent: number; // One agent's calls to the pool in the last hour; 0 = unlimited
+}
+
+export type TokenBudgetLimits = Record<Exclude<TokenPool, 'free'>, PoolLimits>;
+
+export interface TokenCharge {
+  provider: string;
+  component: string;
+  agentId?: string; // Swarm whose job made the call; absent for runner calls (grading, jobs)
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface TokenTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface TokenUsageSnapshot {
+  limits: TokenBudgetLimits;
+  lastHour: {
+    byPool: Record<TokenPool, number>;
+    byAgent: Record<string, Partial<Record<TokenPool, number>>>;
+  };
+  sinceStart: {
+    total: TokenTotals;
+    byPool: Record<TokenPool, TokenTotals>;
+    byComponent: Record<string, TokenTotals>;
+    byProvider: Record<string, TokenTotals>;
+    byAgent: Record<string, TokenTotals>;
+  };
+  rejections: { hour: number; agent: number }; // Calls refused since start
+}
+
+export class TokenBudgetExceededError extends Error {
+  constructor(
+    public readonly scope: 'hour' | 'agent',
+    public readonly pool: TokenPool,
+    public readonly used: number,
+    public readonly limit: number,
+    public readonly resetInSec: number,
+    public readonly agentId?: string
+  ) {
+    super(
+      `${scope === 'agent' ? `Agent ${agentId}` : 'Hourly'} token budget exhausted (${pool}): ${used}/${limit} tokens in the last hour, frees up in ${Math.ceil(resetInSec / 60)} min`
+    );
+    this.name = 'TokenBudgetExceededError';
+  }
+}
+
+export const DEFAULT_TOKEN_BUDGET_LIMITS: TokenBudgetLimits = {
+  hosted: { perHour: 0, perAgent: 0 },
+  local: { perHour: 0, perAgent: 0 },
+};
+
+const WINDOW_MS = 60 * 60 * 1000;
+const BUCKET_MS = 60 * 1000;
+
+/**
+ * Whether a server URL points at this machine or a private network (a self-hosted model)
+ */
+export function isLocalEndpoint(url: string): boolean {
+  let host: string;
+  try {
+    host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  } catch {
+    return false;
+  }
+  return (
+    host === 'localhost' ||
+    host === '::1' ||
+    host.endsWith('.local') ||
+    /^(127|10)\./.test(host) ||
+    /^192\.168\./.test(host) ||
+    /^172\.(1[6-9]|2\d|3[01])\./.test(host)
+  );
+}
+
+/**
+ * Pool a provider's calls are charged to. OpenAI-compatible servers count as local when
+ * `endpoint` (their base URL) is self-hosted, and as hosted otherwise.
+ */
+export function tokenPool(provider: string, endpoint?: string): TokenPool {
+  if (provider === 'mock') return 'free';
+  if (provider === 'ollama') return 'local';
+  if (provider === 'openai' && endpoint && isLocalEndpoint(endpoint)) return 'local';
+  return 'hosted';
+}
+
+// Tokens per minute bucket over the last hour
+class RollingWindow {
+  private buckets = new Map<number, number>();
+
+  add(tokens: number, now: number) {
+    this.prune(now);
+    const bucket = Math.floor(now / BUCKET_MS);
+    this.buckets.set(bucket, (this.buckets.get(bucket) ?? 0) + tokens);
+  }
+
+  total(now: number): number {
+    this.prune(now);
+    let sum = 0;
+    for (const tokens of this.buckets.values()) sum += tokens;
+    return sum;
+  }
+
+  /**
+   * Seconds until enough of the oldest buckets leave the window to bring usage under `limit`
+   */
+  secondsUntilBelow(limit: number, now: number): number {
+    let remaining = this.total(now);
+    for (const [bucket, tokens] of [...this.buckets].sort(([a], [b]) => a - b)) {
+      remaining -= tokens;
+      if (remaining < limit)
+        return Math.max(0, ((bucket + 1) * BUCKET_MS + WINDOW_MS - now) / 1000);
+    }
+    return 0;
+  }
+
+  private prune(now: number) {
+    const oldest = Math.floor((now - WINDOW_MS) / BUCKET_MS);
+    for (const bucket of this.buckets.keys()) {
+      if (bucket <= oldest) this.buckets.delete(bucket);
+    }
+  }
+}
+
+const copyLimits = (limits: TokenBudgetLimits): TokenBudgetLimits => ({
+  hosted: { ...limits.hosted },
+  local: { ...limits.local },
+});
+
+const emptyTotals = (): TokenTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0 });
+
+function addTotals(totals: TokenTotals, charge: TokenCharge) {
+  totals.calls++;
+  totals.inputTokens += charge.inputTokens;
+  totals.outputTokens += charge.outputTokens;
+}
+
+export class TokenBudget {
+  private limits: TokenBudgetLimits = copyLimits(DEFAULT_TOKEN_BUDGET_LIMITS);
+  private pools = new Map<TokenPool, RollingWindow>();
+  private agents = new Map<string, Map<TokenPool, RollingWindow>>();
+  private total = emptyTotals();
+  private byPool = new Map<string, TokenTotals>();
+  private byComponent = new Map<string, TokenTotals>();
+  private byProvider = new Map<string, TokenTotals>();
+  private byAgent = new Map<string, TokenTotals>();
+  private rejections = { hour: 0, agent: 0 };
+
+  configure(limits: Partial<TokenBudgetLimits>): void {
+    this.limits = { ...this.limits, ...limits };
+  }
+
+  getLimits(): TokenBudgetLimits {
+    return copyLimits(this.limits);
+  }
+
+  /**
+   * Throws TokenBudgetExceededError when the pool's hourly budget, or the agent's share of it,
+   * is spent
+   */
+  check(pool: TokenPool, agentId?: string, now = Date.now()): void {
+    if (pool === 'free') return;
+    const { perHour, perAgent } = this.limits[pool];
+
+    const poolWindow = this.pools.get(pool);
+    const used = poolWindow?.total(now) ?? 0;
+    if (perHour > 0 && used >= perHour) {
+      this.rejections.hour++;
+      throw new TokenBudgetExceededError(
+        'hour',
+        pool,
+        used,
+        perHour,
+        poolWindow!.secondsUntilBelow(perHour, now)
+      );
+    }
+
+    if (!agentId || perAgent <= 0) return;
+    const agentWindow = this.agents.get(agentId)?.get(pool);
+    const agentUsed = agentWindow?.total(now) ?? 0;
+    if (agentUsed >= perAgent) {
+      this.rejections.agent++;
+      throw new TokenBudgetExceededError(
+        'agent',
+        pool,
+        agentUsed,
+        perAgent,
+        agentWindow!.secondsUntilBelow(perAgent, now),
+        agentId
+      );
+    }
+  }
+
+  /**
+   * Records a finished call; `pool` defaults to the provider's (replayed calls are free)
+   */
+  charge(charge: TokenCharge, pool = tokenPool(charge.provider), now = Date.now()): void {
+    const tokens = charge.inputTokens + charge.outputTokens;
+    if (!this.pools.has(pool)) this.pools.set(pool, new RollingWindow());
+    this.pools.get(pool)!.add(tokens, now);
+
+    addTotals(this.total, charge);
+    addTotals(getOrCreate(this.byPool, pool), charge);
+    addTotals(getOrCreate(this.byComponent, charge.component), charge);
+    addTotals(getOrCreate(this.byProvider, charge.provider), charge);
+
+    if (charge.agentId) {
+      const windows = this.agents.get(charge.agentId) ?? new Map<TokenPool, RollingWindow>();
+      this.agents.set(charge.agentId, windows);
+      if (!windows.has(pool)) windows.set(pool, new RollingWindow());
+      windows.get(pool)!.add(tokens, now);
+      addTotals(getOrCreate(this.byAgent, charge.agentId), charge);
+    }
+  }
+
+  snapshot(now = Date.now()): TokenUsageSnapshot {
+    const byPool = Object.fromEntries(
+      TOKEN_POOLS.map((pool) => [pool, this.pools.get(pool)?.total(now) ?? 0])
+    ) as Record<TokenPool, number>;
+
+    const byAgent: TokenUsageSnapshot['lastHour']['byAgent'] = {};
+    for (const [agentId, windows] of this.agents) {
+      const usage: Partial<Record<TokenPool, number>> = {};
+      for (const [pool, window] of windows) {
+        const tokens = window.total(now);
+        if (tokens > 0) usage[pool] = tokens;
+      }
+      if (Object.keys(usage).length) byAgent[agentId] = usage;
+    }
+
+    return {
+      limits: this.getLimits(),
+      lastHour: { byPool, byAgent },
+      sinceStart: {
+        total: { ...this.total },
+        byPool: Object.fromEntries(
+          TOKEN_POOLS.map((pool) => [pool, { ...(this.byPool.get(pool) ?? emptyTotals()) }])
+        ) as Record<TokenPool, TokenTotals>,
+        byComponent: toRecord(this.byComponent),
+        byProvider: toRecord(this.byProvider),
+        byAgent: toRecord(this.byAgent),
+      },
+      rejections: { ...this.rejections },
+    };
+  }
+}
+
+function getOrCreate(map: Map<string, TokenTotals>, key: string): TokenTotals {
+  let totals = map.get(key);
+  if (!totals) {
+    totals = emptyTotals();
+    map.set(key, totals);
+  }
+  return totals;
+}
+
+function toRecord(map: Map<string, TokenTotals>): Record<string, TokenTotals> {
+  return Object.fromEntries([...map].map(([key, totals]) => [key, { ...totals }]));
+}
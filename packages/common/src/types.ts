@@ -6,9 +6,20 @@ export interface Blueprint {
   tools: Array<'retrieval' | 'calc' | 'stringKit' | 'browser'>;
   coopThreshold: number;
   repro: { minBalance: number; mutationRate: number; maxOffspring: number };
+  genome?: Record<string, number | string | boolean>; // See genome.ts
   createdAt: string;
 }
 
+/**
+ * Heritable traits applied when constructing agents (expressed from a genome)
+ */
+export interface AgentTraits {
+  temperature?: number;
+  model?: string;
+  promptFragment?: string; // Appended to agent and synthesis system prompts
+  toolBuilderStrict?: boolean;
+}
+
 export interface AgentState {
   id: string;
   blueprintId: string;
@@ -21,8 +32,10 @@ export interface AgentState {
   lastBeat: string;
 }
 
+export type JobCategory = 'web_research' | 'summarize' | 'classify' | 'math';
+
 export interface JobData {
-  category: 'web_research' | 'summarize' | 'classify' | 'math';
+  category: JobCategory;
   payload: Record<string, any>;
   payout: number;
   deadlineS: number;
@@ -0,0 +1,164 @@
+#!/usr/bin/env node
+/**
+ * Minimal OpenAI-compatible server for testing the `openai` LLM provider without a model.
+ * Serves GET /v1/models and POST /v1/chat/completions with deterministic replies.
+ * When the request offers tools and the last message is from the user, the reply calls the first
+ * tool; response_format json_object wraps the reply in {"response": ...}.
+ *
+ *   node scripts/openai-stub-server.js
+ *   LLM_PROVIDER=openai OPENAI_BASE_URL=http://localhost:8080/v1 pnpm dev
+ *
+ * Environment:
+ *   OPENAI_STUB_PORT    Port to listen on (default 8080, llama.cpp's default)
+ *   OPENAI_STUB_REPLY   Fixed reply content (default: "Stub reply: " + start of the last message)
+ *   OPENAI_STUB_STATUS  Answer every completion with this HTTP status (e.g. 429, 503) to exercise
+ *                       retries and circuit breakers
+ *   OPENAI_STUB_API_KEY Require "Authorization: Bearer <key>" (default: no auth)
+ */
+
+const http = require('http');
+
+const PORT = Number(process.env.OPENAI_STUB_PORT || 8080);
+const REPLY = process.env.OPENAI_STUB_REPLY;
+const FORCED_STATUS = Number(process.env.OPENAI_STUB_STATUS || 0);
+const API_KEY = process.env.OPENAI_STUB_API_KEY;
+
+let requestCount = 0;
+
+const estimateTokens = (text) => Math.ceil(String(text || '').length / 4);
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function messageText(message) {
+  if (!message) return '';
+  if (typeof message.content === 'string') return message.content;
+  if (Array.isArray(message.content)) {
+    return message.content.map((part) => part.text || '').join('');
+  }
+  return '';
+}
+
+// Placeholder arguments for a tool's JSON Schema: strings get the prompt, numbers 1, flags true
+function stubArgs(parameters, text) {
+  const properties = (parameters && parameters.properties) || {};
+  const args = {};
+  for (const [name, schema] of Object.entries(properties)) {
+    const type = schema && schema.type;
+    args[name] =
+      type === 'number' || type === 'integer'
+        ? 1
+        : type === 'boolean'
+          ? true
+          : type === 'array'
+            ? []
+            : type === 'object'
+              ? {}
+              : text.slice(0, 120);
+  }
+  return args;
+}
+
+function completion(request) {
+  const messages = Array.isArray(request.messages) ? request.messages : [];
+  const lastMessage = messages[messages.length - 1];
+  const last = messageText(lastMessage);
+  const tool = Array.isArray(request.tools) && request.tools[0] && request.tools[0].function;
+  const callTool = Boolean(tool) && (!lastMessage || lastMessage.role === 'user');
+
+  let content = REPLY ?? `Stub reply: ${last.slice(0, 120)}`;
+  if (!REPLY && request.response_format?.type === 'json_object') {
+    content = JSON.stringify({ response: content });
+  }
+  const message = callTool
+    ? {
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          {
+            id: `call_stub_${requestCount}`,
+            type: 'function',
+            function: {
+              name: tool.name,
+              arguments: JSON.stringify(stubArgs(tool.parameters, last)),
+            },
+          },
+        ],
+      }
+    : { role: 'assistant', content };
+
+  const promptTokens = messages.reduce((sum, m) => sum + estimateTokens(messageText(m)), 0);
+  const completionTokens = estimateTokens(
+    callTool ? message.tool_calls[0].function.arguments : content
+  );
+
+  return {
+    id: `chatcmpl-stub-${requestCount}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: request.model || 'stub',
+    choices: [
+      {
+        index: 0,
+        message,
+        finish_reason: callTool ? 'tool_calls' : 'stop',
+      },
+    ],
+    usage: {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    },
+  };
+}
+
+const server = http.createServer((req, res) => {
+  if (API_KEY && req.headers.authorization !== `Bearer ${API_KEY}`) {
+    return send(res, 401, { error: { message: 'Invalid API key', type: 'invalid_request_error' } });
+  }
+
+  if (req.method === 'GET' && req.url === '/v1/models') {
+    return send(res, 200, {
+      object: 'list',
+      data: [{ id: 'stub', object: 'model', owned_by: 'openai-stub-server' }],
+    });
+  }
+
+  if (req.method === 'POST' && req.url === '/v1/chat/completions') {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      requestCount++;
+      let request;
+      try {
+        request = JSON.parse(raw || '{}');
+      } catch {
+        return send(res, 400, { error: { message: 'Invalid JSON body' } });
+      }
+      if (FORCED_STATUS) {
+        return send(res, FORCED_STATUS, { error: { message: `Stub status ${FORCED_STATUS}` } });
+      }
+      if (request.stream) {
+        return send(res, 400, { error: { message: 'Streaming is not supported by the stub' } });
+      }
+      const body = completion(request);
+      console.log(
+        `[openai-stub] #${requestCount} ${body.model}: ${request.messages?.length ?? 0} messages -> ${body.usage.completion_tokens} tokens`
+      );
+      send(res, 200, body);
+    });
+    return;
+  }
+
+  send(res, 404, { error: { message: `No route for ${req.method} ${req.url}` } });
+});
+
+server.listen(PORT, () => {
+  console.log(`[openai-stub] Listening on http://localhost:${PORT}/v1`);
+});
+
+for (const signal of ['SIGINT', 'SIGTERM']) {
+  process.on(signal, () => server.close(() => process.exit(0)));
+}